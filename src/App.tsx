@@ -1,4 +1,4 @@
-import { useCallback, useState, useRef, useMemo } from 'react';
+import { useCallback, useEffect, useState, useRef, useMemo } from 'react';
 import {
   ReactFlow,
   Controls,
@@ -14,7 +14,17 @@ import {
   ReactFlowProvider,
   useReactFlow,
 } from '@xyflow/react';
-import type { AgentNode, AgentPatternType, AgentNodeData, SyncStatus, DeepRAGConfig, BatchTransformConfig } from './types';
+import type {
+  AgentNode,
+  AgentPatternType,
+  AgentNodeData,
+  SyncStatus,
+  DeepRAGConfig,
+  BatchTransformConfig,
+  LoopConfig,
+  NodeIdentity,
+  VisualMetadata,
+} from './types';
 import { nodeConfigs } from './utils/nodeConfig';
 import AgentNodeComponent from './components/AgentNode';
 import Sidebar from './components/Sidebar';
@@ -24,19 +34,91 @@ import Toolbar, { type ViewMode } from './components/Toolbar';
 import AIAssistant from './components/AIAssistant';
 import EvaluationPanel from './components/EvaluationPanel';
 import TestInputModal from './components/TestInputModal';
+import ImportReportModal from './components/ImportReportModal';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import BudgetPanel from './components/BudgetPanel';
 import ExecutionPanel from './components/ExecutionPanel';
+import ApprovalInbox from './components/ApprovalInbox';
+import DebugPanel from './components/DebugPanel';
 import { DeepRAGFullEditor, BatchTransformFullEditor } from './components/PatternEditors';
 import ActivityBar, { type ActivityView } from './components/ActivityBar';
 import FileExplorer, { type GeneratedFile } from './components/FileExplorer';
 import SourceControlPanel from './components/SourceControlPanel';
-import type { FlowArgumentsConfig, ExecutionRun, TestInput, ExecutionTrace } from './types/execution';
-import { DEFAULT_FLOW_ARGUMENTS, createExecutionTrace } from './types/execution';
+import VersionTimeline from './components/VersionTimeline';
+import type {
+  FlowArgumentsConfig,
+  ExecutionRun,
+  FlowVersion,
+  FlowVersionSource,
+  TestInput,
+  ApprovalRequest,
+  ApprovalVote,
+  DebugPause,
+  PausedRun,
+  RunCheckpoint,
+  RunRetention,
+  RunBudget,
+  ModelPricing,
+} from './types/execution';
+import { DEFAULT_FLOW_ARGUMENTS, DEFAULT_RUN_BUDGET } from './types/execution';
+import type { ProviderSettings } from './types/providers';
+import type { CustomEvaluatorDefinition } from './types/evaluation';
 import Editor from '@monaco-editor/react';
+import { determineSyncStatus } from './utils/codeGenerator';
+import { validateCompilationContract } from './utils/codeContract';
+import type { AutofixInput } from './utils/autofix';
+import { withEdgeCondition } from './utils/branching';
+import { closesCycle, defaultLoopConfig, withLoop } from './utils/loops';
+import { getPinnedOutputs, runFlow, summarizeTraces } from './utils/flowInterpreter';
+import {
+  createMockFixtures,
+  createModelProvider,
+  loadProviderSettings,
+  saveProviderSettings,
+} from './utils/modelProviders';
+import {
+  createApprovalRequest,
+  createEscalationVote,
+  isOverdue,
+  loadPausedRuns,
+  savePausedRuns,
+} from './utils/approvals';
+import { exportRunToOtlp, importOtlpRuns } from './utils/otlpTraces';
+import { hasBudgetLimits, loadModelPricing, saveModelPricing } from './utils/budgets';
+import {
+  clearRuns,
+  loadFlowVersions,
+  loadRunRetention,
+  loadRuns,
+  loadTestInputs,
+  pruneRuns,
+  saveFlowVersion,
+  saveRun,
+  saveRunRetention,
+  saveTestInput,
+} from './utils/runHistory';
+import { createFlowVersion, formatVersionHash, openFlowVersion } from './utils/flowVersions';
+import {
+  createProjectFiles,
+  extractVisualMetadata,
+  loadProjectFiles,
+  updateNodeIdentities,
+  type ImportReport,
+} from './utils/projectFile';
 
 const nodeTypes = {
   agentNode: AgentNodeComponent,
 };
 
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 // Initial nodes for demo
 const initialNodes: Node<AgentNodeData>[] = [
   {
@@ -114,11 +196,12 @@ const initialEdges: Edge[] = [
   { id: 'e3-4', source: 'llm-1', target: 'output-1', animated: true },
 ];
 
-let nodeId = 10;
-const getId = () => `node-${nodeId++}`;
+// UUIDs keep node identity stable across saves, reloads and renames
+const getId = () => `node-${crypto.randomUUID()}`;
 
 function FlowDesigner() {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
+  const runAbortRef = useRef<AbortController | null>(null);
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
@@ -137,42 +220,108 @@ function FlowDesigner() {
 
   // Execution state
   const [isTestInputModalOpen, setIsTestInputModalOpen] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
   const [isExecutionPanelOpen, setIsExecutionPanelOpen] = useState(false);
   const [currentRun, setCurrentRun] = useState<ExecutionRun | null>(null);
   const [runHistory, setRunHistory] = useState<ExecutionRun[]>([]);
+  const [flowVersions, setFlowVersions] = useState<FlowVersion[]>([]);
+  const [runRetention, setRunRetention] = useState<RunRetention>(loadRunRetention);
+  const [runBudget, setRunBudget] = useState<RunBudget>(DEFAULT_RUN_BUDGET);
+  const [modelPricing, setModelPricing] = useState<ModelPricing[]>(loadModelPricing);
+  const [customEvaluators, setCustomEvaluators] = useState<CustomEvaluatorDefinition[]>([]);
+  const [pausedRuns, setPausedRuns] = useState<PausedRun[]>(loadPausedRuns);
+
+  // Debugger state: breakpoints by node id and the node a run is held before
+  const [breakpoints, setBreakpoints] = useState<string[]>([]);
+  const [breakOnStart, setBreakOnStart] = useState(false);
+  const [debugPause, setDebugPause] = useState<DebugPause | null>(null);
+  const breakpointsRef = useRef<string[]>([]);
+  const stepRef = useRef(false);
+  const debugResumeRef = useRef<{ resolve: (input: Record<string, unknown>) => void; controller: AbortController } | null>(null);
   const [recentTestInputs, setRecentTestInputs] = useState<TestInput[]>([]);
 
   // Sync status for bidirectional editing (CGIS Architecture)
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('synced');
+  const [codeDraft, setCodeDraft] = useState<string | null>(null);
+
+  // Sidecar state: identity registry and layout fields the canvas does not track
+  const [nodeIdentities, setNodeIdentities] = useState<Record<string, NodeIdentity>>({});
+  const [visualMetadata, setVisualMetadata] = useState<Record<string, VisualMetadata>>({});
 
   // Pattern editor state
   const [patternEditorNode, setPatternEditorNode] = useState<AgentNode | null>(null);
 
-  // Determine sync status based on node states
+  // Compilation Success Contract for hand-edited Python (Code → Visual)
+  const codeContract = useMemo(() => {
+    if (codeDraft === null) return null;
+    return validateCompilationContract(codeDraft, { nodes: nodes as AgentNode[], edges });
+  }, [codeDraft, nodes, edges]);
+
+  // Determine sync status from the contract and node states
   const computedSyncStatus = useMemo<SyncStatus>(() => {
-    const hasCodeOnlyRegions = nodes.some((n) => (n.data as AgentNodeData).hasCodeOverride);
-    if (hasCodeOnlyRegions) return 'code_only';
-    return syncStatus;
-  }, [nodes, syncStatus]);
+    if (syncStatus === 'parsing') return syncStatus;
+    return determineSyncStatus(nodes as AgentNode[], codeDraft, codeContract);
+  }, [nodes, codeDraft, codeContract, syncStatus]);
+
+  // Evaluations run data points with the same provider and budget as test runs
+  const evaluationRunOptions = useMemo(() => ({
+    provider: createModelProvider(providerSettings),
+    budget: hasBudgetLimits(runBudget) ? runBudget : undefined,
+    pricing: modelPricing,
+  }), [providerSettings, runBudget, modelPricing]);
 
   // Count changes for source control
   const changesCount = useMemo(() => {
     return nodes.length + edges.length;
   }, [nodes, edges]);
 
-  // Force sync handler
-  const handleForceSync = useCallback(() => {
+  // Re-hydrate the canvas from edited code once it passes the contract
+  const handleApplyCode = useCallback(() => {
+    if (!codeContract?.passed || !codeContract.flow) return;
     setSyncStatus('parsing');
+    setNodes(codeContract.flow.nodes as Node<AgentNodeData>[]);
+    setEdges(codeContract.flow.edges);
+    setCodeDraft(null);
     setTimeout(() => {
       setSyncStatus('synced');
     }, 500);
-  }, []);
+  }, [codeContract, setNodes, setEdges]);
+
+  // Autofix results may rewrite the graph, the edited code, or both
+  const handleApplyFix = useCallback(
+    (output: AutofixInput) => {
+      setNodes(output.nodes as Node<AgentNodeData>[]);
+      setEdges(output.edges);
+      setCodeDraft(output.code);
+    },
+    [setNodes, setEdges]
+  );
+
+  // Force sync handler
+  const handleForceSync = useCallback(() => {
+    if (codeContract && !codeContract.passed) {
+      // Show the contract diagnostics instead of syncing
+      setViewMode((mode) => (mode === 'visual' ? 'split' : mode));
+      return;
+    }
+    handleApplyCode();
+  }, [codeContract, handleApplyCode]);
 
   const onConnect = useCallback(
     (connection: Connection) => {
-      setEdges((eds) => addEdge({ ...connection, animated: true }, eds));
+      setEdges((eds) => {
+        if (!closesCycle(connection.source, connection.target, eds)) {
+          return addEdge({ ...connection, animated: true }, eds);
+        }
+        // Edges back to an upstream node become bounded loops instead of cycles
+        const find = (id: string) => nodes.find((n) => n.id === id) as AgentNode | undefined;
+        const loop = defaultLoopConfig(find(connection.source), find(connection.target));
+        const edge = { ...connection, id: `loop-${connection.source}-${connection.target}`, animated: true };
+        return addEdge(withLoop(edge, loop), eds);
+      });
     },
-    [setEdges]
+    [nodes, setEdges]
   );
 
   const onDragOver = useCallback((event: React.DragEvent) => {
@@ -293,6 +442,20 @@ function FlowDesigner() {
     [setNodes, fitView]
   );
 
+  const handleEdgeConditionChange = useCallback(
+    (edgeId: string, condition: string | undefined) => {
+      setEdges((eds) => eds.map((e) => (e.id === edgeId ? withEdgeCondition(e, condition) : e)));
+    },
+    [setEdges]
+  );
+
+  const handleLoopChange = useCallback(
+    (edgeId: string, loop: LoopConfig) => {
+      setEdges((eds) => eds.map((e) => (e.id === edgeId ? withLoop(e, loop) : e)));
+    },
+    [setEdges]
+  );
+
   const handleSetEdges = useCallback(
     (newEdges: Edge[]) => {
       setEdges(newEdges);
@@ -322,25 +485,191 @@ function FlowDesigner() {
     setTimeout(() => fitView({ padding: 0.2 }), 50);
   }, [nodes, setNodes, fitView]);
 
+  // Snapshots the canvas as an immutable flow version and returns its hash
+  const recordFlowVersion = useCallback(async (source: FlowVersionSource) => {
+    const settings = { budget: runBudget, evaluators: customEvaluators };
+    const version = await saveFlowVersion(
+      await createFlowVersion(nodes as AgentNode[], edges, visualMetadata, settings, source)
+    );
+    setFlowVersions(versions => versions.some(v => v.hash === version.hash) ? versions : [version, ...versions]);
+    return version.hash;
+  }, [nodes, edges, visualMetadata, runBudget, customEvaluators]);
+
+  // Runs still start when the version cannot be stored, just without one
+  const recordRunVersion = useCallback(
+    () => recordFlowVersion('run').catch((error) => {
+      console.error('Failed to record flow version:', error);
+      return undefined;
+    }),
+    [recordFlowVersion]
+  );
+
+  // Logic and layout are written to separate files so moving nodes only touches the layout
   const handleSave = useCallback(() => {
-    const flow = { nodes, edges };
-    const json = JSON.stringify(flow, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'workflow.json';
-    a.click();
-    URL.revokeObjectURL(url);
-  }, [nodes, edges]);
+    const flowNodes = nodes as AgentNode[];
+    const identities = updateNodeIdentities(flowNodes, nodeIdentities);
+    const layout = extractVisualMetadata(flowNodes, visualMetadata);
+    setNodeIdentities(identities);
+    setVisualMetadata(layout);
+
+    createProjectFiles('workflow', flowNodes, edges, identities, layout, {
+      budget: runBudget,
+      evaluators: customEvaluators,
+    }).forEach((file) => {
+      downloadFile(file.name, file.content, file.name.endsWith('.py') ? 'text/x-python' : 'application/json');
+    });
+    recordFlowVersion('save').catch((error) => console.error('Failed to record flow version:', error));
+  }, [nodes, edges, nodeIdentities, visualMetadata, runBudget, customEvaluators, recordFlowVersion]);
+
+  // Loads a version onto the canvas; node identities carry over for the nodes it shares
+  const handleRestoreVersion = useCallback((version: FlowVersion) => {
+    if (!confirm(`Replace the canvas with version ${formatVersionHash(version.hash)}? Unsaved changes are lost.`)) return;
+    const project = openFlowVersion(version);
+    setNodes(project.nodes as Node<AgentNodeData>[]);
+    setEdges(project.edges);
+    setVisualMetadata(project.visualMetadata);
+    setRunBudget(project.budget ?? DEFAULT_RUN_BUDGET);
+    setCustomEvaluators(project.evaluators ?? []);
+    setCodeDraft(null);
+    setSelectedNode(null);
+    setTimeout(() => fitView({ padding: 0.2 }), 100);
+  }, [setNodes, setEdges, fitView]);
+
+  const handleOpen = useCallback(
+    async (files: File[]) => {
+      const project = loadProjectFiles(
+        await Promise.all(files.map(async (file) => ({ name: file.name, content: await file.text() })))
+      );
+      const { report } = project;
+      const hasFindings =
+        report.dropped.length + report.migrated.length + report.warnings.length > 0 ||
+        report.constraints.some((c) => c.severity !== 'info');
+      if (project.nodes.length === 0 || hasFindings) setImportReport(report);
+      if (project.nodes.length === 0) return;
+
+      setNodes(project.nodes as Node<AgentNodeData>[]);
+      setEdges(project.edges);
+      setNodeIdentities(project.identities);
+      setVisualMetadata(project.visualMetadata);
+      setRunBudget(project.budget ?? DEFAULT_RUN_BUDGET);
+      setCustomEvaluators(project.evaluators ?? []);
+      setCodeDraft(null);
+      setSelectedNode(null);
+      setTimeout(() => fitView({ padding: 0.2 }), 100);
+    },
+    [setNodes, setEdges, fitView]
+  );
 
   const handleRun = useCallback(() => {
     setIsTestInputModalOpen(true);
   }, []);
 
+  // Lets a run held at a breakpoint go on with the given input; a step holds it again before the next node
+  const resumeDebug = useCallback((input: Record<string, unknown>, step: boolean) => {
+    const held = debugResumeRef.current;
+    debugResumeRef.current = null;
+    stepRef.current = step;
+    setDebugPause(null);
+    held?.resolve(input);
+  }, []);
+
+  // Stops a run held at a breakpoint
+  const releaseDebugPause = useCallback(() => {
+    const held = debugResumeRef.current;
+    if (!held) return;
+    held.controller.abort();
+    resumeDebug({}, false);
+  }, [resumeDebug]);
+
+  const handleToggleBreakpoint = useCallback((nodeId: string) => {
+    setBreakpoints(prev => (prev.includes(nodeId) ? prev.filter(id => id !== nodeId) : [...prev, nodeId]));
+  }, []);
+
+  // Runs a flow snapshot, or resumes a paused run; pauses land in the approval inbox
+  const startRun = useCallback((
+    run: ExecutionRun,
+    flow: { nodes: AgentNode[]; edges: Edge[] },
+    {
+      resume,
+      pinned,
+    }: {
+      resume?: { checkpoint: RunCheckpoint; approvals: Record<string, ApprovalVote[]>; request: ApprovalRequest };
+      pinned?: Record<string, Record<string, unknown>>;
+    } = {}
+  ) => {
+    setCurrentRun(run);
+    setIsExecutionPanelOpen(true);
+
+    // A new run replaces the active one; resumed runs continue alongside it
+    if (!resume) {
+      runAbortRef.current?.abort();
+      releaseDebugPause();
+      stepRef.current = breakOnStart;
+    }
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+    const approvals = resume?.approvals ?? {};
+
+    runFlow(flow.nodes, flow.edges, run.input, {
+      provider: createModelProvider(providerSettings),
+      signal: controller.signal,
+      approvals,
+      checkpoint: resume?.checkpoint,
+      pinned,
+      budget: hasBudgetLimits(runBudget) ? runBudget : undefined,
+      pricing: modelPricing,
+      beforeNode: (node, input, iteration) => {
+        if (!stepRef.current && !breakpointsRef.current.includes(node.id)) return input;
+        stepRef.current = false;
+        return new Promise((resolve) => {
+          debugResumeRef.current = { resolve, controller };
+          setDebugPause({ runId: run.id, nodeId: node.id, nodeName: node.data.label, iteration, input });
+          setActiveView('debug');
+        });
+      },
+      onUpdate: (traces) => setCurrentRun(prev => prev?.id === run.id ? {
+        ...prev,
+        traces,
+        summary: summarizeTraces(flow.nodes.length, traces),
+      } : prev),
+    }).then((result) => {
+      const finishedRun: ExecutionRun = {
+        ...run,
+        status: result.status,
+        completedAt: result.status === 'paused' ? undefined : new Date().toISOString(),
+        output: result.output,
+        error: result.error,
+        traces: result.traces,
+        summary: result.summary,
+      };
+      setCurrentRun(prev => prev?.id === run.id ? finishedRun : prev);
+      setRunHistory(history => [finishedRun, ...history.filter(r => r.id !== run.id)]);
+      saveRun(finishedRun)
+        .then(() => pruneRuns(runRetention))
+        .then((expired) => {
+          if (expired.length > 0) {
+            setRunHistory(history => history.filter(r => !expired.includes(r.id)));
+          }
+        })
+        .catch((error) => console.error('Failed to store run history:', error));
+
+      if (result.pending && result.checkpoint) {
+        const previous = resume?.request.key === result.pending.key ? resume.request : undefined;
+        const paused: PausedRun = {
+          run: finishedRun,
+          nodes: flow.nodes,
+          edges: flow.edges,
+          checkpoint: result.checkpoint,
+          approvals,
+          request: createApprovalRequest(run.id, run.name, result.pending, previous),
+        };
+        setPausedRuns(runs => [...runs.filter(p => p.run.id !== run.id), paused]);
+      }
+    });
+  }, [providerSettings, breakOnStart, releaseDebugPause, runRetention, runBudget, modelPricing]);
+
   const handleExecuteFlow = useCallback((input: Record<string, unknown>) => {
     setIsTestInputModalOpen(false);
-    setIsExecutionPanelOpen(true);
 
     const runId = `run-${Date.now()}`;
     const newRun: ExecutionRun = {
@@ -358,72 +687,97 @@ function FlowDesigner() {
       },
     };
 
-    setCurrentRun(newRun);
-
-    const simulateExecution = async () => {
-      const traces: ExecutionTrace[] = [];
-      let completedNodes = 0;
-
-      for (const node of nodes) {
-        const nodeData = node.data as AgentNodeData;
-        const trace = createExecutionTrace(node.id, nodeData.label, nodeData.type, input);
-        trace.status = 'running';
-        trace.llmExplanation = `Processing ${nodeData.label}...`;
-
-        traces.push(trace);
-        setCurrentRun(prev => prev ? {
-          ...prev,
-          traces: [...traces],
-        } : null);
-
-        await new Promise(r => setTimeout(r, 500 + Math.random() * 1000));
-
-        trace.status = 'completed';
-        trace.completedAt = new Date().toISOString();
-        trace.durationMs = Math.floor(500 + Math.random() * 1000);
-        trace.output = { result: `Output from ${nodeData.label}` };
-        trace.llmExplanation = `Completed processing ${nodeData.label}`;
-        trace.reasoning = nodeData.type === 'llm' ? 'Analyzed the input and generated a response based on the context provided.' : undefined;
-        trace.metadata = {
-          model: nodeData.type === 'llm' ? 'gpt-4' : undefined,
-          tokensInput: nodeData.type === 'llm' ? Math.floor(Math.random() * 500) : undefined,
-          tokensOutput: nodeData.type === 'llm' ? Math.floor(Math.random() * 300) : undefined,
-          latencyMs: trace.durationMs,
-        };
-
-        completedNodes++;
-
-        setCurrentRun(prev => prev ? {
-          ...prev,
-          traces: [...traces],
-          summary: {
-            ...prev.summary,
-            completedNodes,
-            totalDurationMs: traces.reduce((acc, t) => acc + t.durationMs, 0),
-          },
-        } : null);
+    const flow = { nodes: nodes as AgentNode[], edges };
+    recordRunVersion().then((flowVersion) => startRun({ ...newRun, flowVersion }, flow));
+  }, [nodes, edges, runHistory.length, startRun, recordRunVersion]);
+
+  // Records a reviewer's vote and resumes the run from its checkpoint
+  const handleApprovalDecision = useCallback((requestId: string, vote: ApprovalVote) => {
+    const paused = pausedRuns.find(p => p.request.id === requestId);
+    if (!paused) return;
+
+    const { key } = paused.request;
+    setPausedRuns(runs => runs.filter(p => p.request.id !== requestId));
+    startRun(
+      { ...paused.run, status: 'running' },
+      { nodes: paused.nodes, edges: paused.edges },
+      {
+        resume: {
+          checkpoint: paused.checkpoint,
+          approvals: { ...paused.approvals, [key]: [...(paused.approvals[key] ?? []), vote] },
+          request: paused.request,
+        },
       }
+    );
+  }, [pausedRuns, startRun]);
+
+  // Paused runs survive reloads
+  useEffect(() => {
+    savePausedRuns(pausedRuns);
+  }, [pausedRuns]);
+
+  // Escalate requests whose SLA passed, including ones that expired while the app was closed
+  useEffect(() => {
+    const timer = setInterval(() => {
+      pausedRuns
+        .filter(p => isOverdue(p.request))
+        .forEach(p => handleApprovalDecision(p.request.id, createEscalationVote(p.request)));
+    }, 15_000);
+    return () => clearInterval(timer);
+  }, [pausedRuns, handleApprovalDecision]);
+
+  const handleProviderSettingsChange = useCallback((settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  }, []);
 
-      setCurrentRun(prev => {
-        if (!prev) return null;
-        const completedRun: ExecutionRun = {
-          ...prev,
-          status: 'completed',
-          completedAt: new Date().toISOString(),
-          output: { response: 'Workflow completed successfully' },
-        };
-        setRunHistory(history => [completedRun, ...history]);
-        return completedRun;
-      });
-    };
-
-    simulateExecution();
-  }, [nodes, runHistory.length]);
+  const handleModelPricingChange = useCallback((pricing: ModelPricing[]) => {
+    setModelPricing(pricing);
+    saveModelPricing(pricing);
+  }, []);
 
   const handleSaveTestInput = useCallback((input: TestInput) => {
     setRecentTestInputs(prev => [input, ...prev.slice(0, 9)]);
+    saveTestInput(input).catch((error) => console.error('Failed to store test input:', error));
+  }, []);
+
+  // Restore stored runs, test inputs and flow versions; runs started before they load are kept on top
+  useEffect(() => {
+    loadRuns()
+      .then((stored) => setRunHistory(history => [
+        ...history,
+        ...stored.filter(run => !history.some(r => r.id === run.id)),
+      ]))
+      .catch((error) => console.error('Failed to load run history:', error));
+    loadTestInputs()
+      .then((stored) => setRecentTestInputs(prev => [...prev, ...stored].slice(0, 10)))
+      .catch((error) => console.error('Failed to load test inputs:', error));
+    loadFlowVersions()
+      .then((stored) => setFlowVersions(versions => [
+        ...versions,
+        ...stored.filter(version => !versions.some(v => v.hash === version.hash)),
+      ]))
+      .catch((error) => console.error('Failed to load flow versions:', error));
   }, []);
 
+  const handleRunRetentionChange = useCallback((retention: RunRetention) => {
+    setRunRetention(retention);
+    saveRunRetention(retention);
+    pruneRuns(retention)
+      .then((expired) => setRunHistory(history => history.filter(r => !expired.includes(r.id))))
+      .catch((error) => console.error('Failed to prune run history:', error));
+  }, []);
+
+  const handleClearRunHistory = useCallback(() => {
+    if (!confirm('Delete all stored runs?')) return;
+    // Runs still waiting for approval stay so they can resume
+    const kept = runHistory.filter(r => r.status === 'paused');
+    setRunHistory(kept);
+    clearRuns()
+      .then(() => Promise.all(kept.map(saveRun)))
+      .catch((error) => console.error('Failed to clear run history:', error));
+  }, [runHistory]);
+
   const handleSelectRun = useCallback((runId: string) => {
     const run = runHistory.find(r => r.id === runId);
     if (run) {
@@ -437,14 +791,95 @@ function FlowDesigner() {
     }
   }, [currentRun, handleExecuteFlow]);
 
-  const handleCancelRun = useCallback(() => {
-    setCurrentRun(prev => prev ? {
-      ...prev,
-      status: 'cancelled',
-      completedAt: new Date().toISOString(),
-    } : null);
+  // Re-runs the current flow from one node of the shown run, pinning the recorded outputs before it
+  const handleReplayFrom = useCallback((nodeId: string) => {
+    if (!currentRun) return;
+    const label = (nodes.find(n => n.id === nodeId)?.data as AgentNodeData | undefined)?.label ?? nodeId;
+
+    const replayRun: ExecutionRun = {
+      id: `run-${Date.now()}`,
+      name: `${currentRun.name} from ${label}`,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      input: currentRun.input,
+      traces: [],
+      summary: { totalNodes: nodes.length, completedNodes: 0, failedNodes: 0, totalDurationMs: 0 },
+    };
+    const flow = { nodes: nodes as AgentNode[], edges };
+    const pinned = getPinnedOutputs(currentRun.traces, nodeId, edges);
+    recordRunVersion().then((flowVersion) => startRun({ ...replayRun, flowVersion }, flow, { pinned }));
+  }, [currentRun, nodes, edges, startRun, recordRunVersion]);
+
+  const handleExportFixtures = useCallback(() => {
+    if (!currentRun) return;
+    const fixtures = createMockFixtures(currentRun.traces);
+    const name = currentRun.name.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+    downloadFile(`${name}_mock_responses.json`, JSON.stringify(fixtures, null, 2), 'application/json');
+  }, [currentRun]);
+
+  const handleExportOtlp = useCallback(() => {
+    if (!currentRun) return;
+    const name = currentRun.name.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+    downloadFile(`${name}.otlp.json`, JSON.stringify(exportRunToOtlp(currentRun), null, 2), 'application/json');
+  }, [currentRun]);
+
+  // Imported traces join the run history like test runs, newest import on top
+  const handleImportOtlp = useCallback(async (file: File) => {
+    let runs: ExecutionRun[];
+    try {
+      runs = importOtlpRuns(await file.text());
+    } catch (e) {
+      alert(`Import failed:\n${(e as Error).message}`);
+      return;
+    }
+    if (runs.length === 0) {
+      alert('The file contains no spans');
+      return;
+    }
+
+    setRunHistory(history => [...runs, ...history.filter(r => !runs.some(run => run.id === r.id))]);
+    runs.forEach(run => saveRun(run).catch((error) => console.error('Failed to store run history:', error)));
+    setCurrentRun(runs[0]);
+    setIsExecutionPanelOpen(true);
   }, []);
 
+  const handleCancelRun = useCallback(() => {
+    // The interpreter stops before its next node and records the run as cancelled
+    runAbortRef.current?.abort();
+    releaseDebugPause();
+  }, [releaseDebugPause]);
+
+  // The interpreter reads breakpoints as it reaches each node, so changes apply to the active run
+  useEffect(() => {
+    breakpointsRef.current = breakpoints;
+  }, [breakpoints]);
+
+  // F9 toggles a breakpoint on the selected node, as in code editors
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'F9' || !selectedNode) return;
+      e.preventDefault();
+      handleToggleBreakpoint(selectedNode);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selectedNode, handleToggleBreakpoint]);
+
+  // Breakpoints and the active node are overlaid for rendering only, so they never reach saved files
+  const activeNodeId =
+    debugPause?.nodeId ??
+    (currentRun?.status === 'running'
+      ? [...currentRun.traces].reverse().find(t => t.status === 'running')?.nodeId
+      : undefined);
+  const displayNodes = useMemo(() => {
+    if (breakpoints.length === 0 && !activeNodeId) return nodes;
+    return nodes.map((n) => {
+      const breakpoint = breakpoints.includes(n.id);
+      const debugState = n.id === activeNodeId ? (debugPause ? 'paused' as const : 'running' as const) : undefined;
+      return breakpoint || debugState ? { ...n, data: { ...n.data, breakpoint, debugState } } : n;
+    });
+  }, [nodes, breakpoints, activeNodeId, debugPause]);
+
   const handleFileSelect = useCallback((file: GeneratedFile) => {
     setSelectedFile(file);
     setActiveView('explorer');
@@ -478,6 +913,14 @@ function FlowDesigner() {
             currentBranch="main"
           />
         );
+      case 'versions':
+        return (
+          <VersionTimeline
+            versions={flowVersions}
+            runs={runHistory}
+            onRestore={handleRestoreVersion}
+          />
+        );
       case 'nodes':
         return (
           <Sidebar
@@ -491,18 +934,27 @@ function FlowDesigner() {
           />
         );
       case 'run':
+        return (
+          <ApprovalInbox
+            requests={pausedRuns.map(p => p.request)}
+            onDecide={handleApprovalDecision}
+          />
+        );
       case 'debug':
         return (
-          <div className="h-full flex flex-col bg-[#181825] p-4">
-            <h3 className="text-sm font-semibold text-[#cdd6f4] mb-4">
-              {activeView === 'run' ? 'Run & Debug' : 'Debug Console'}
-            </h3>
-            <p className="text-xs text-[#6c7086]">
-              {activeView === 'run'
-                ? 'Click the Run button in the toolbar to execute the flow.'
-                : 'Debug output will appear here during execution.'}
-            </p>
-          </div>
+          <DebugPanel
+            pause={debugPause}
+            breakpoints={nodes
+              .filter(n => breakpoints.includes(n.id))
+              .map(n => ({ id: n.id, label: (n.data as AgentNodeData).label }))}
+            selectedNodeId={selectedNode}
+            breakOnStart={breakOnStart}
+            onBreakOnStartChange={setBreakOnStart}
+            onToggleBreakpoint={handleToggleBreakpoint}
+            onContinue={(input) => resumeDebug(input, false)}
+            onStep={(input) => resumeDebug(input, true)}
+            onStop={releaseDebugPause}
+          />
         );
       case 'search':
         return (
@@ -517,9 +969,14 @@ function FlowDesigner() {
         );
       case 'settings':
         return (
-          <div className="h-full flex flex-col bg-[#181825] p-4">
-            <h3 className="text-sm font-semibold text-[#cdd6f4] mb-4">Settings</h3>
-            <p className="text-xs text-[#6c7086]">Flow and editor settings.</p>
+          <div className="h-full overflow-y-auto bg-[#181825]">
+            <ProviderSettingsPanel settings={providerSettings} onChange={handleProviderSettingsChange} />
+            <BudgetPanel
+              budget={runBudget}
+              onBudgetChange={setRunBudget}
+              pricing={modelPricing}
+              onPricingChange={handleModelPricingChange}
+            />
           </div>
         );
       default:
@@ -538,9 +995,11 @@ function FlowDesigner() {
         onFitView={() => fitView({ padding: 0.2 })}
         onAutoLayout={handleAutoLayout}
         onSave={handleSave}
+        onOpen={handleOpen}
         onRun={handleRun}
         onEvaluate={() => setIsEvalPanelOpen(true)}
         syncStatus={computedSyncStatus}
+        syncIssueCount={codeContract?.constraints.filter((c) => c.severity !== 'info').length}
         onForceSync={handleForceSync}
       />
 
@@ -552,6 +1011,7 @@ function FlowDesigner() {
           onViewChange={setActiveView}
           hasChanges={computedSyncStatus !== 'synced'}
           changesCount={changesCount}
+          pendingApprovals={pausedRuns.length}
         />
 
         {/* Sidebar - Dynamic content based on active view */}
@@ -607,7 +1067,7 @@ function FlowDesigner() {
               className={`${viewMode === 'split' ? 'w-1/2' : 'flex-1'} h-full`}
             >
               <ReactFlow
-                nodes={nodes}
+                nodes={displayNodes}
                 edges={edges}
                 onNodesChange={onNodesChange}
                 onEdgesChange={onEdgesChange}
@@ -648,7 +1108,16 @@ function FlowDesigner() {
                 viewMode === 'split' ? 'w-1/2 border-l border-[#313244]' : 'flex-1'
               } h-full`}
             >
-              <CodePanel nodes={agentNodes} edges={edges} />
+              <CodePanel
+                nodes={agentNodes}
+                edges={edges}
+                codeDraft={codeDraft}
+                contract={codeContract}
+                onCodeChange={setCodeDraft}
+                onApplyCode={handleApplyCode}
+                onDiscardCode={() => setCodeDraft(null)}
+                onApplyFix={handleApplyFix}
+              />
             </div>
           )}
         </div>
@@ -657,7 +1126,11 @@ function FlowDesigner() {
         {selectedNode && viewMode !== 'code' && !selectedFile && (
           <PropertiesPanel
             node={selectedNodeData}
+            nodes={agentNodes}
+            edges={edges}
             onUpdate={handleNodeUpdate}
+            onEdgeConditionChange={handleEdgeConditionChange}
+            onLoopChange={handleLoopChange}
             onClose={() => setSelectedNode(null)}
           />
         )}
@@ -684,6 +1157,11 @@ function FlowDesigner() {
         edges={edges}
         selectedNodeIds={selectedNodeIds}
         onSelectNodes={setSelectedNodeIds}
+        runOptions={evaluationRunOptions}
+        customEvaluators={customEvaluators}
+        onCustomEvaluatorsChange={setCustomEvaluators}
+        flowVersions={flowVersions}
+        onRecordFlowVersion={() => recordFlowVersion('evaluation')}
         isOpen={isEvalPanelOpen}
         onClose={() => setIsEvalPanelOpen(false)}
       />
@@ -698,6 +1176,9 @@ function FlowDesigner() {
         onSaveInput={handleSaveTestInput}
       />
 
+      {/* Import Report Modal */}
+      <ImportReportModal report={importReport} onClose={() => setImportReport(null)} />
+
       {/* Execution Panel */}
       <ExecutionPanel
         isOpen={isExecutionPanelOpen}
@@ -707,7 +1188,14 @@ function FlowDesigner() {
         runHistory={runHistory}
         onSelectRun={handleSelectRun}
         onRerun={handleRerun}
+        onReplayFrom={handleReplayFrom}
+        onExportFixtures={handleExportFixtures}
+        onExportOtlp={handleExportOtlp}
+        onImportOtlp={handleImportOtlp}
         onCancel={handleCancelRun}
+        retention={runRetention}
+        onRetentionChange={handleRunRetentionChange}
+        onClearHistory={handleClearRunHistory}
       />
 
       {/* Pattern Editor Modals */}
@@ -7,16 +7,26 @@ import {
   Settings,
   Play,
   Bug,
+  History,
   type LucideIcon,
 } from 'lucide-react';
 
-export type ActivityView = 'explorer' | 'search' | 'sourceControl' | 'nodes' | 'run' | 'debug' | 'settings';
+export type ActivityView =
+  | 'explorer'
+  | 'search'
+  | 'sourceControl'
+  | 'versions'
+  | 'nodes'
+  | 'run'
+  | 'debug'
+  | 'settings';
 
 interface ActivityBarProps {
   activeView: ActivityView;
   onViewChange: (view: ActivityView) => void;
   hasChanges?: boolean;
   changesCount?: number;
+  pendingApprovals?: number;
 }
 
 interface ActivityItem {
@@ -31,6 +41,7 @@ export default function ActivityBar({
   onViewChange,
   hasChanges = false,
   changesCount = 0,
+  pendingApprovals = 0,
 }: ActivityBarProps) {
   const [hoveredItem, setHoveredItem] = useState<ActivityView | null>(null);
 
@@ -38,8 +49,9 @@ export default function ActivityBar({
     { id: 'explorer', icon: Files, label: 'Explorer' },
     { id: 'search', icon: Search, label: 'Search' },
     { id: 'sourceControl', icon: GitBranch, label: 'Source Control', badge: hasChanges ? changesCount : undefined },
+    { id: 'versions', icon: History, label: 'Flow Versions' },
     { id: 'nodes', icon: Box, label: 'Node Palette' },
-    { id: 'run', icon: Play, label: 'Run & Debug' },
+    { id: 'run', icon: Play, label: 'Run & Debug', badge: pendingApprovals || undefined },
     { id: 'debug', icon: Bug, label: 'Debug Console' },
   ];
 
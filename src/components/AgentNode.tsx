@@ -28,6 +28,7 @@ import {
   FileEdit,
   Stethoscope,
   MessageCircle,
+  Merge,
   Puzzle,
   Trash2,
   Copy,
@@ -77,6 +78,7 @@ const iconMap: Record<string, React.FC<LucideProps>> = {
   FileEdit,
   Stethoscope,
   MessageCircle,
+  Merge,
 };
 
 // Connection point configuration for Agent nodes (removed Error)
@@ -161,6 +163,20 @@ function AgentNodeComponent({ data, selected }: NodeProps<AgentNode>) {
   const contextSources: ContextSourceConfig[] = (nodeData.config?.contextSources as ContextSourceConfig[]) || [];
   const tools: ToolConfig[] = (nodeData.config?.tools as ToolConfig[]) || [];
 
+  // Debugger overlay: breakpoint marker and the node the run is on
+  const debugRing =
+    nodeData.debugState === 'paused'
+      ? 'ring-2 ring-amber-400 ring-offset-2 ring-offset-[#11111b]'
+      : nodeData.debugState === 'running'
+        ? 'ring-2 ring-blue-400 ring-offset-2 ring-offset-[#11111b] animate-pulse'
+        : '';
+  const breakpointMarker = nodeData.breakpoint && (
+    <div
+      className="absolute -left-1.5 -top-1.5 w-3 h-3 rounded-full bg-red-500 border-2 border-[#11111b] z-10"
+      title="Breakpoint"
+    />
+  );
+
   const handleConnectionClick = useCallback((connectionId: ConnectionPoint['id']) => {
     setActivePanel(connectionId);
   }, []);
@@ -191,12 +207,13 @@ function AgentNodeComponent({ data, selected }: NodeProps<AgentNode>) {
         <div
           className={`
             relative rounded-xl transition-all duration-200
-            ${selected ? 'ring-2 ring-blue-500 ring-offset-2 ring-offset-[#11111b]' : ''}
+            ${debugRing || (selected ? 'ring-2 ring-blue-500 ring-offset-2 ring-offset-[#11111b]' : '')}
           `}
           onMouseEnter={() => setIsHovered(true)}
           onMouseLeave={() => setIsHovered(false)}
           style={{ padding: '24px' }} // Extra padding for sub-nodes
         >
+          {breakpointMarker}
           {/* Action buttons - shown on hover */}
           {isHovered && (
             <div className="absolute -top-2 left-1/2 -translate-x-1/2 flex items-center gap-1 px-2 py-1 bg-[#1e1e2e] border border-[#313244] rounded-lg shadow-lg z-10">
@@ -445,12 +462,13 @@ function AgentNodeComponent({ data, selected }: NodeProps<AgentNode>) {
       className={`
         relative min-w-[180px] rounded-lg border-2 bg-[#1e1e2e] shadow-lg transition-all
         ${selected ? 'border-blue-500 shadow-blue-500/20' : 'border-[#313244] hover:border-[#45475a]'}
-        ${nodeData.hasCodeOverride ? 'ring-2 ring-amber-500/50 ring-offset-2 ring-offset-[#1e1e2e]' : ''}
+        ${debugRing || (nodeData.hasCodeOverride ? 'ring-2 ring-amber-500/50 ring-offset-2 ring-offset-[#1e1e2e]' : '')}
         ${isPatternNode ? 'border-dashed' : ''}
       `}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
+      {breakpointMarker}
       {/* Category Badge */}
       {getCategoryBadge()}
 
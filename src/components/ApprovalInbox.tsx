@@ -0,0 +1,226 @@
+import { useEffect, useState } from 'react';
+import { UserCheck, Check, X, ArrowUpRight, Clock, AlertCircle } from 'lucide-react';
+import type { HITLPattern } from '../types';
+import type { ApprovalDecision, ApprovalRequest, ApprovalVote } from '../types/execution';
+import { isOverdue } from '../utils/approvals';
+
+interface ApprovalInboxProps {
+  requests: ApprovalRequest[];
+  onDecide: (requestId: string, vote: ApprovalVote) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#1e1e2e] border border-[#313244] rounded-md text-sm text-[#cdd6f4] placeholder-[#45475a] focus:outline-none focus:border-blue-500';
+
+const PATTERN_LABELS: Record<HITLPattern, string> = {
+  approval_gate: 'Approval gate',
+  editing_workflow: 'Editing workflow',
+  confidence_routing: 'Confidence routing',
+  return_of_control: 'Return of control',
+};
+
+const DECISION_COLORS: Record<ApprovalDecision, string> = {
+  approved: 'text-green-400',
+  rejected: 'text-red-400',
+  escalated: 'text-amber-400',
+};
+
+function formatDue(request: ApprovalRequest, now: number): string {
+  if (request.slaMinutes <= 0) return 'No SLA';
+  const minutes = Math.round(Math.abs(Date.parse(request.dueAt) - now) / 60_000);
+  return isOverdue(request, now) ? `Overdue by ${minutes}m` : `Due in ${minutes}m`;
+}
+
+export default function ApprovalInbox({ requests, onDecide }: ApprovalInboxProps) {
+  // Re-render periodically so SLA countdowns stay current
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className="h-full flex flex-col bg-[#181825] p-4 overflow-y-auto">
+      <h3 className="text-sm font-semibold text-[#cdd6f4] mb-4">Run & Debug</h3>
+      <p className="text-xs text-[#6c7086] mb-4">Click the Run button in the toolbar to execute the flow.</p>
+
+      <div className="flex items-center gap-2 mb-3">
+        <UserCheck className="w-4 h-4 text-red-400" />
+        <span className="text-xs font-semibold uppercase tracking-wide text-[#a6adc8]">Pending Approvals</span>
+        {requests.length > 0 && <span className="text-xs text-[#6c7086]">({requests.length})</span>}
+      </div>
+
+      {requests.length === 0 ? (
+        <p className="text-xs text-[#6c7086]">Runs that reach a Human-in-the-Loop node wait here for a decision.</p>
+      ) : (
+        <div className="space-y-3">
+          {requests.map((request) => (
+            // Keyed by vote count so the form resets when the next approver is due
+            <ApprovalCard
+              key={`${request.id}:${request.votes.length}`}
+              request={request}
+              now={now}
+              onDecide={onDecide}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ApprovalCardProps {
+  request: ApprovalRequest;
+  now: number;
+  onDecide: (requestId: string, vote: ApprovalVote) => void;
+}
+
+function ApprovalCard({ request, now, onDecide }: ApprovalCardProps) {
+  const editable = request.pattern === 'editing_workflow' || request.pattern === 'return_of_control';
+  const originalJson = JSON.stringify(request.payload, null, 2);
+
+  const [approver, setApprover] = useState('');
+  const [role, setRole] = useState(request.awaitingRoles[0] ?? '');
+  const [comment, setComment] = useState('');
+  const [payloadJson, setPayloadJson] = useState(originalJson);
+  const [error, setError] = useState<string | null>(null);
+
+  const decide = (decision: ApprovalDecision) => {
+    let edits: Record<string, unknown> | undefined;
+    if (editable && decision === 'approved' && payloadJson !== originalJson) {
+      try {
+        const parsed = JSON.parse(payloadJson);
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+          throw new Error('Parameters must be a JSON object');
+        }
+        edits = parsed;
+      } catch (e) {
+        setError((e as Error).message);
+        return;
+      }
+    }
+
+    onDecide(request.id, {
+      decision,
+      approver: approver.trim() || 'reviewer',
+      role: role || undefined,
+      comment: comment.trim() || undefined,
+      edits,
+      decidedAt: new Date().toISOString(),
+    });
+  };
+
+  return (
+    <div className="p-3 bg-[#1e1e2e] border border-[#313244] rounded-lg space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="text-sm font-medium text-[#cdd6f4]">{request.nodeName}</div>
+          <div className="text-xs text-[#6c7086]">
+            {request.runName}
+            {request.iteration ? ` · iteration ${request.iteration}` : ''}
+          </div>
+        </div>
+        <span
+          className={`flex items-center gap-1 text-xs whitespace-nowrap ${
+            isOverdue(request, now) ? 'text-red-400' : 'text-[#a6adc8]'
+          }`}
+        >
+          <Clock className="w-3 h-3" />
+          {formatDue(request, now)}
+        </span>
+      </div>
+
+      <div className="text-xs text-[#6c7086]">
+        {PATTERN_LABELS[request.pattern] ?? request.pattern} · {request.approvalType} approval
+        {request.escalationPath && ` · escalates to ${request.escalationPath}`}
+      </div>
+
+      {request.votes.length > 0 && (
+        <ul className="text-xs space-y-0.5">
+          {request.votes.map((vote, i) => (
+            <li key={i} className="text-[#a6adc8]">
+              <span className={DECISION_COLORS[vote.decision]}>{vote.decision}</span> by {vote.approver}
+              {vote.role && ` (${vote.role})`}
+              {vote.comment && `: ${vote.comment}`}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div>
+        <label className="block text-xs text-[#6c7086] mb-1">{editable ? 'Parameters (editable)' : 'Parameters'}</label>
+        {editable ? (
+          <textarea
+            value={payloadJson}
+            onChange={(e) => {
+              setPayloadJson(e.target.value);
+              setError(null);
+            }}
+            rows={6}
+            className={`${inputClass} font-mono text-xs resize-y`}
+          />
+        ) : (
+          <pre className="p-2 bg-[#181825] rounded text-xs font-mono text-[#a6adc8] max-h-32 overflow-auto">
+            {originalJson}
+          </pre>
+        )}
+        {error && (
+          <p className="flex items-center gap-1 text-xs text-red-400 mt-1">
+            <AlertCircle className="w-3 h-3" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={approver}
+          onChange={(e) => setApprover(e.target.value)}
+          placeholder="Your name"
+          className={inputClass}
+        />
+        {request.awaitingRoles.length > 0 && (
+          <select value={role} onChange={(e) => setRole(e.target.value)} className={inputClass}>
+            {request.awaitingRoles.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      <input
+        type="text"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Comment (optional)"
+        className={inputClass}
+      />
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => decide('approved')}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 text-xs rounded-md bg-green-600 hover:bg-green-700 text-white"
+        >
+          <Check className="w-3 h-3" />
+          Approve
+        </button>
+        <button
+          onClick={() => decide('rejected')}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 text-xs rounded-md bg-red-600 hover:bg-red-700 text-white"
+        >
+          <X className="w-3 h-3" />
+          Reject
+        </button>
+        <button
+          onClick={() => decide('escalated')}
+          className="flex items-center justify-center gap-1 px-2 py-1.5 text-xs rounded-md bg-[#313244] hover:bg-[#45475a] text-amber-400"
+          title="Escalate now"
+        >
+          <ArrowUpRight className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+}
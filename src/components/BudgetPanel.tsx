@@ -0,0 +1,196 @@
+import { Wallet, Tag, Plus, X, RotateCcw } from 'lucide-react';
+import type { BudgetAction, ModelPricing, RunBudget } from '../types/execution';
+import { DEFAULT_MODEL_PRICING } from '../utils/budgets';
+
+interface BudgetPanelProps {
+  budget: RunBudget;
+  onBudgetChange: (budget: RunBudget) => void;
+  pricing: ModelPricing[];
+  onPricingChange: (pricing: ModelPricing[]) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#1e1e2e] border border-[#313244] rounded-md text-sm text-[#cdd6f4] placeholder-[#45475a] focus:outline-none focus:border-blue-500';
+
+const cellClass =
+  'w-full px-2 py-1 bg-[#1e1e2e] border border-[#313244] rounded text-xs text-[#cdd6f4] focus:outline-none focus:border-blue-500';
+
+// Empty inputs clear a limit
+const toLimit = (value: string) => (value === '' || Number(value) <= 0 ? undefined : Number(value));
+
+export default function BudgetPanel({ budget, onBudgetChange, pricing, onPricingChange }: BudgetPanelProps) {
+  const update = (patch: Partial<RunBudget>) => onBudgetChange({ ...budget, ...patch });
+  const updatePrice = (index: number, patch: Partial<ModelPricing>) =>
+    onPricingChange(pricing.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+
+  return (
+    <div className="flex flex-col bg-[#181825] p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Wallet className="w-4 h-4 text-green-400" />
+        <span className="text-xs font-semibold uppercase tracking-wide text-[#a6adc8]">Run Budget</span>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <label className="block text-xs text-[#6c7086] mb-1">Max Tokens</label>
+            <input
+              type="number"
+              min={0}
+              value={budget.maxTokens ?? ''}
+              onChange={(e) => update({ maxTokens: toLimit(e.target.value) })}
+              placeholder="No limit"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-xs text-[#6c7086] mb-1">Max Cost (USD)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={budget.maxCost ?? ''}
+              onChange={(e) => update({ maxCost: toLimit(e.target.value) })}
+              placeholder="No limit"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-xs text-[#6c7086] mb-1">When the Budget Runs Low</label>
+          <select
+            value={budget.action}
+            onChange={(e) => update({ action: e.target.value as BudgetAction })}
+            className={inputClass}
+          >
+            <option value="abort">Abort at the limit</option>
+            <option value="degrade">Degrade, then abort at the limit</option>
+          </select>
+        </div>
+
+        {budget.action === 'degrade' && (
+          <>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="block text-xs text-[#6c7086] mb-1">Degrade At (%)</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={budget.degradeAtPercent}
+                  onChange={(e) => update({ degradeAtPercent: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-[#6c7086] mb-1">Prompt Tokens</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={budget.maxPromptTokens}
+                  onChange={(e) => update({ maxPromptTokens: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs text-[#6c7086] mb-1">Fallback Model</label>
+              <input
+                type="text"
+                list="budget-fallback-models"
+                value={budget.fallbackModel}
+                onChange={(e) => update({ fallbackModel: e.target.value })}
+                className={inputClass}
+              />
+              <datalist id="budget-fallback-models">
+                {pricing.map((p, i) => (
+                  <option key={i} value={p.model} />
+                ))}
+              </datalist>
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-[#6c7086]">
+          Saved with the flow. Limits are checked before each node, and model calls never ask for more tokens than remain.
+          Models without a price count toward the token limit only.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-2 mt-6 mb-3">
+        <Tag className="w-4 h-4 text-yellow-400" />
+        <span className="text-xs font-semibold uppercase tracking-wide text-[#a6adc8]">Model Pricing</span>
+        <button
+          onClick={() => onPricingChange(DEFAULT_MODEL_PRICING)}
+          className="ml-auto text-[#6c7086] hover:text-[#cdd6f4]"
+          title="Reset to list prices"
+        >
+          <RotateCcw className="w-3 h-3" />
+        </button>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead className="text-[#6c7086]">
+          <tr>
+            <th className="text-left font-medium pb-1">Model</th>
+            <th className="text-left font-medium pb-1 w-16">In $/1M</th>
+            <th className="text-left font-medium pb-1 w-16">Out $/1M</th>
+            <th className="w-5" />
+          </tr>
+        </thead>
+        <tbody>
+          {pricing.map((price, index) => (
+            <tr key={index} className="group">
+              <td className="pr-1 py-0.5">
+                <input
+                  type="text"
+                  value={price.model}
+                  onChange={(e) => updatePrice(index, { model: e.target.value })}
+                  className={cellClass}
+                />
+              </td>
+              <td className="pr-1 py-0.5">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={price.inputPerMillion}
+                  onChange={(e) => updatePrice(index, { inputPerMillion: Number(e.target.value) })}
+                  className={cellClass}
+                />
+              </td>
+              <td className="pr-1 py-0.5">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={price.outputPerMillion}
+                  onChange={(e) => updatePrice(index, { outputPerMillion: Number(e.target.value) })}
+                  className={cellClass}
+                />
+              </td>
+              <td>
+                <button
+                  onClick={() => onPricingChange(pricing.filter((_, i) => i !== index))}
+                  className="opacity-0 group-hover:opacity-100 text-[#6c7086] hover:text-red-400"
+                  title="Remove price"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        onClick={() => onPricingChange([...pricing, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])}
+        className="flex items-center gap-1 mt-2 text-xs text-blue-400 hover:text-blue-300"
+      >
+        <Plus className="w-3 h-3" />
+        Add model
+      </button>
+      <p className="text-xs text-[#6c7086] mt-2">A name also prices dated versions, e.g. gpt-4o covers gpt-4o-2024-08-06</p>
+    </div>
+  );
+}
@@ -1,36 +1,130 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Code,
   FileJson,
   Copy,
   Check,
   AlertTriangle,
-  RefreshCw,
+  AlertCircle,
+  Info,
   Download,
+  ArrowLeftRight,
+  ArrowRight,
+  Undo2,
+  Wand2,
+  X,
 } from 'lucide-react';
-import Editor from '@monaco-editor/react';
-import type { AgentNode, GeneratedCode } from '../types';
+import Editor, { type OnMount } from '@monaco-editor/react';
+import type { AgentNode, CodeConstraint, CodeTargetId, TargetCode } from '../types';
 import type { Edge } from '@xyflow/react';
-import { generatePythonCode } from '../utils/codeGenerator';
+import { generatePythonCode, getRoundTripWarnings, validateCodeConstraints } from '../utils/codeGenerator';
+import { generateForTarget, getCodeTarget, getCodeTargets } from '../utils/codeTargets';
+import type { ContractResult } from '../utils/codeContract';
+import { applySafeFixes, countSafeFixes, getFixer, previewAutofix, type AutofixInput } from '../utils/autofix';
+import { trimDiffContext } from '../utils/textDiff';
+
+type MonacoEditor = Parameters<OnMount>[0];
+type Monaco = Parameters<OnMount>[1];
 
 interface CodePanelProps {
   nodes: AgentNode[];
   edges: Edge[];
-  onCodeChange?: (code: string) => void;
+  codeDraft?: string | null;
+  contract?: ContractResult | null;
+  onCodeChange?: (code: string | null) => void;
+  onApplyCode?: () => void;
+  onDiscardCode?: () => void;
+  onApplyFix?: (output: AutofixInput) => void;
 }
 
-export default function CodePanel({ nodes, edges, onCodeChange }: CodePanelProps) {
-  const [activeTab, setActiveTab] = useState<'python' | 'json'>('python');
+export default function CodePanel({
+  nodes,
+  edges,
+  codeDraft = null,
+  contract = null,
+  onCodeChange,
+  onApplyCode,
+  onDiscardCode,
+  onApplyFix,
+}: CodePanelProps) {
+  const [activeTab, setActiveTab] = useState<CodeTargetId | 'json'>('python');
   const [copied, setCopied] = useState(false);
-  const [generatedCode, setGeneratedCode] = useState<GeneratedCode | null>(null);
+  const [fixPreview, setFixPreview] = useState<CodeConstraint | null>(null);
+  const editorRef = useRef<MonacoEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+
+  // The JSON tab reports the sync state of the Visual-Safe Python target
+  const target = getCodeTarget(activeTab === 'json' ? 'python' : activeTab)!;
+  const generatedCode = useMemo<TargetCode>(() => generateForTarget(target.id, nodes, edges), [target.id, nodes, edges]);
+  // Reading the code back is costly, so only the Python tab checks that every field round-trips
+  const roundTripWarnings = useMemo(() => (activeTab === 'python' ? getRoundTripWarnings(nodes) : []), [activeTab, nodes]);
+  const warnings = [...generatedCode.warnings, ...roundTripWarnings];
+  const flowJson = useMemo(
+    () => (activeTab === 'json' ? generatePythonCode(nodes, edges).json : ''),
+    [activeTab, nodes, edges]
+  );
+  // Only the Visual-Safe Python target is editable; the others are one-way exports
+  const source = activeTab === 'json' ? flowJson : activeTab === 'python' ? codeDraft ?? generatedCode.code : generatedCode.code;
 
+  // Fixes target the edited code when there is a draft, otherwise the graph
+  const graphConstraints = useMemo(() => validateCodeConstraints(nodes, edges), [nodes, edges]);
+  const fixableConstraints = codeDraft !== null ? contract?.constraints ?? [] : graphConstraints;
+  const safeFixCount = countSafeFixes(fixableConstraints);
+  const fixInput: AutofixInput = { code: codeDraft, nodes, edges };
+  const preview = fixPreview ? previewAutofix(fixPreview, fixInput) : null;
+
+  const handleApplyAllSafeFixes = () => {
+    const { output, applied } = applySafeFixes(fixableConstraints, fixInput);
+    setFixPreview(null);
+    if (applied.length > 0) onApplyFix?.(output);
+  };
+
+  const handleApplyPreview = () => {
+    if (preview) onApplyFix?.(preview.output);
+    setFixPreview(null);
+  };
+
+  // Surface Compilation Success Contract diagnostics as editor markers
   useEffect(() => {
-    const code = generatePythonCode(nodes, edges);
-    setGeneratedCode(code);
-  }, [nodes, edges]);
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    const constraints = activeTab === 'python' ? contract?.constraints ?? [] : [];
+    monaco.editor.setModelMarkers(
+      model,
+      'csc',
+      constraints
+        .filter((c) => c.line !== undefined)
+        .map((c) => ({
+          severity:
+            c.severity === 'error'
+              ? monaco.MarkerSeverity.Error
+              : c.severity === 'warning'
+                ? monaco.MarkerSeverity.Warning
+                : monaco.MarkerSeverity.Info,
+          message: `${c.message} (${c.rule})`,
+          startLineNumber: c.line!,
+          startColumn: 1,
+          endLineNumber: c.line!,
+          endColumn: model.getLineMaxColumn(Math.min(c.line!, model.getLineCount())),
+        }))
+    );
+  }, [contract, activeTab, source]);
+
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+  };
+
+  const handleEditorChange = (value: string | undefined) => {
+    if (activeTab !== 'python') return;
+    const code = value || '';
+    onCodeChange?.(code === generatedCode.code ? null : code);
+  };
 
   const handleCopy = async () => {
-    const text = activeTab === 'python' ? generatedCode?.python : generatedCode?.json;
+    const text = source;
     if (text) {
       await navigator.clipboard.writeText(text);
       setCopied(true);
@@ -39,8 +133,8 @@ export default function CodePanel({ nodes, edges, onCodeChange }: CodePanelProps
   };
 
   const handleDownload = () => {
-    const text = activeTab === 'python' ? generatedCode?.python : generatedCode?.json;
-    const ext = activeTab === 'python' ? 'py' : 'json';
+    const text = source;
+    const ext = activeTab === 'json' ? 'json' : target.fileExtension;
     const filename = `workflow.${ext}`;
 
     if (text) {
@@ -54,31 +148,28 @@ export default function CodePanel({ nodes, edges, onCodeChange }: CodePanelProps
     }
   };
 
-  if (!generatedCode) {
-    return (
-      <div className="h-full flex items-center justify-center bg-[#1e1e2e]">
-        <RefreshCw className="w-6 h-6 text-[#45475a] animate-spin" />
-      </div>
-    );
-  }
+  const errorCount = contract?.constraints.filter((c) => c.severity === 'error').length ?? 0;
 
   return (
     <div className="h-full flex flex-col bg-[#1e1e2e]">
       {/* Header */}
       <div className="flex items-center justify-between px-4 py-2 border-b border-[#313244]">
         <div className="flex items-center gap-2">
-          {/* Tabs */}
-          <button
-            onClick={() => setActiveTab('python')}
-            className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors flex items-center gap-1.5 ${
-              activeTab === 'python'
-                ? 'bg-[#313244] text-[#cdd6f4]'
-                : 'text-[#6c7086] hover:text-[#a6adc8]'
-            }`}
-          >
-            <Code className="w-4 h-4" />
-            Python
-          </button>
+          {/* Tabs - one per registered code target */}
+          {getCodeTargets().map((t) => (
+            <button
+              key={t.id}
+              onClick={() => setActiveTab(t.id)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors flex items-center gap-1.5 ${
+                activeTab === t.id
+                  ? 'bg-[#313244] text-[#cdd6f4]'
+                  : 'text-[#6c7086] hover:text-[#a6adc8]'
+              }`}
+            >
+              <Code className="w-4 h-4" />
+              {t.label}
+            </button>
+          ))}
           <button
             onClick={() => setActiveTab('json')}
             className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors flex items-center gap-1.5 ${
@@ -94,12 +185,48 @@ export default function CodePanel({ nodes, edges, onCodeChange }: CodePanelProps
 
         {/* Actions */}
         <div className="flex items-center gap-2">
+          {activeTab === 'python' && safeFixCount > 0 && (
+            <button
+              onClick={handleApplyAllSafeFixes}
+              className="flex items-center gap-1.5 px-2 py-1 rounded text-xs bg-purple-500/20 text-purple-300 hover:bg-purple-500/30 transition-colors"
+              title="Apply every fix that does not discard your changes"
+            >
+              <Wand2 className="w-3 h-3" />
+              Apply all safe fixes ({safeFixCount})
+            </button>
+          )}
+
+          {/* Code → Visual actions for edited Python */}
+          {codeDraft !== null && activeTab === 'python' && (
+            <>
+              <button
+                onClick={onDiscardCode}
+                className="flex items-center gap-1.5 px-2 py-1 rounded text-xs text-[#a6adc8] hover:bg-[#313244] transition-colors"
+                title="Discard code edits"
+              >
+                <Undo2 className="w-3 h-3" />
+                Discard
+              </button>
+              <button
+                onClick={onApplyCode}
+                disabled={!contract?.passed}
+                className="flex items-center gap-1.5 px-2 py-1 rounded text-xs bg-blue-500/20 text-blue-300 hover:bg-blue-500/30 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title={contract?.passed ? 'Apply code changes to the canvas' : 'Fix contract errors before applying'}
+              >
+                <ArrowLeftRight className="w-3 h-3" />
+                Apply to Canvas
+              </button>
+            </>
+          )}
+
           {/* Round-trip indicator */}
           <div
             className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs ${
               generatedCode.canRoundTrip
                 ? 'bg-green-500/10 text-green-400'
-                : 'bg-amber-500/10 text-amber-400'
+                : target.id !== 'python'
+                  ? 'bg-blue-500/10 text-blue-400'
+                  : 'bg-amber-500/10 text-amber-400'
             }`}
           >
             {generatedCode.canRoundTrip ? (
@@ -107,6 +234,11 @@ export default function CodePanel({ nodes, edges, onCodeChange }: CodePanelProps
                 <Check className="w-3 h-3" />
                 Bi-directional
               </>
+            ) : target.id !== 'python' ? (
+              <>
+                <ArrowRight className="w-3 h-3" />
+                One-way export
+              </>
             ) : (
               <>
                 <AlertTriangle className="w-3 h-3" />
@@ -138,34 +270,142 @@ export default function CodePanel({ nodes, edges, onCodeChange }: CodePanelProps
       </div>
 
       {/* Warnings */}
-      {generatedCode.warnings.length > 0 && (
+      {warnings.length > 0 && (
         <div className="px-4 py-2 bg-amber-500/10 border-b border-amber-500/30">
           <div className="flex items-start gap-2">
             <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
             <div className="text-xs text-amber-200">
               <p className="font-medium mb-1">
-                {generatedCode.warnings.length} warning(s)
+                {warnings.length} warning(s)
               </p>
               <ul className="space-y-0.5 text-amber-300/70">
-                {generatedCode.warnings.map((warning, i) => (
-                  <li key={i}>• {warning}</li>
-                ))}
+                {warnings.map((warning, i) => {
+                  const fixable = codeDraft === null
+                    ? graphConstraints.find((c) => c.message === warning && getFixer(c))
+                    : undefined;
+                  return (
+                    <li key={i}>
+                      • {warning}
+                      {fixable && (
+                        <button
+                          onClick={() => setFixPreview(fixable)}
+                          className="ml-2 text-purple-300 hover:text-purple-200 underline"
+                        >
+                          Fix
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
               </ul>
             </div>
           </div>
         </div>
       )}
 
+      {/* Compilation Success Contract diagnostics */}
+      {activeTab === 'python' && contract && contract.constraints.length > 0 && (
+        <div className="px-4 py-2 border-b border-[#313244] max-h-40 overflow-y-auto">
+          <p className="text-xs font-medium text-[#cdd6f4] mb-1">
+            Compilation Success Contract: {errorCount > 0 ? `${errorCount} error(s)` : 'passed with warnings'}
+          </p>
+          <ul className="space-y-0.5">
+            {contract.constraints.map((c, i) => (
+              <li key={i} className="flex items-start gap-1.5 text-xs">
+                {c.severity === 'error' ? (
+                  <AlertCircle className="w-3 h-3 text-red-400 flex-shrink-0 mt-0.5" />
+                ) : c.severity === 'warning' ? (
+                  <AlertTriangle className="w-3 h-3 text-amber-400 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <Info className="w-3 h-3 text-blue-400 flex-shrink-0 mt-0.5" />
+                )}
+                <button
+                  onClick={() => {
+                    if (c.line === undefined) return;
+                    editorRef.current?.revealLineInCenter(c.line);
+                    editorRef.current?.setPosition({ lineNumber: c.line, column: 1 });
+                  }}
+                  className="text-left text-[#a6adc8] hover:text-[#cdd6f4]"
+                >
+                  {c.line !== undefined && <span className="text-[#6c7086]">Ln {c.line} · </span>}
+                  {c.message}
+                  <span className="text-[#45475a]"> ({c.rule})</span>
+                </button>
+                {getFixer(c) && (
+                  <button
+                    onClick={() => setFixPreview(c)}
+                    className="ml-auto flex-shrink-0 text-purple-300 hover:text-purple-200"
+                    title={c.autofixDescription}
+                  >
+                    Fix
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Autofix preview */}
+      {preview && fixPreview && (
+        <div className="border-b border-[#313244] bg-[#181825]">
+          <div className="flex items-center justify-between px-4 py-2">
+            <span className="flex items-center gap-1.5 text-xs font-medium text-[#cdd6f4]">
+              <Wand2 className="w-3 h-3 text-purple-400" />
+              {fixPreview.autofixDescription}
+              {!getFixer(fixPreview)?.safe && (
+                <span className="text-amber-400 font-normal">· review before applying</span>
+              )}
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleApplyPreview}
+                className="px-2 py-1 rounded text-xs bg-purple-500/20 text-purple-300 hover:bg-purple-500/30 transition-colors"
+              >
+                Apply
+              </button>
+              <button
+                onClick={() => setFixPreview(null)}
+                className="p-1 rounded hover:bg-[#313244] transition-colors"
+                title="Cancel"
+              >
+                <X className="w-3 h-3 text-[#6c7086]" />
+              </button>
+            </div>
+          </div>
+          <pre className="px-4 pb-2 max-h-48 overflow-auto text-xs font-mono">
+            {trimDiffContext(preview.diff).map((line, i) => (
+              <div
+                key={i}
+                className={
+                  line.type === 'added'
+                    ? 'text-green-400 bg-green-500/10'
+                    : line.type === 'removed'
+                      ? 'text-red-400 bg-red-500/10'
+                      : line.type === 'skipped'
+                        ? 'text-[#45475a] italic'
+                        : 'text-[#6c7086]'
+                }
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+
       {/* Code Editor */}
       <div className="flex-1">
         <Editor
           height="100%"
-          language={activeTab === 'python' ? 'python' : 'json'}
+          language={activeTab === 'json' ? 'json' : target.language}
           theme="vs-dark"
-          value={activeTab === 'python' ? generatedCode.python : generatedCode.json}
-          onChange={(value) => onCodeChange?.(value || '')}
+          value={source}
+          onChange={handleEditorChange}
+          onMount={handleEditorMount}
           options={{
-            readOnly: false,
+            readOnly: activeTab !== 'python',
             minimap: { enabled: true },
             fontSize: 13,
             lineNumbers: 'on',
@@ -185,10 +425,7 @@ export default function CodePanel({ nodes, edges, onCodeChange }: CodePanelProps
           {edges.length} connection{edges.length !== 1 ? 's' : ''}
         </span>
         <span>
-          {activeTab === 'python'
-            ? generatedCode.python.split('\n').length
-            : generatedCode.json.split('\n').length}{' '}
-          lines
+          {source.split('\n').length} lines
         </span>
       </div>
     </div>
@@ -0,0 +1,178 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bug, Play, StepForward, Square, Circle, X, AlertCircle } from 'lucide-react';
+import type { DebugPause } from '../types/execution';
+
+interface DebugPanelProps {
+  pause: DebugPause | null;
+  breakpoints: { id: string; label: string }[];
+  selectedNodeId: string | null;
+  breakOnStart: boolean;
+  onBreakOnStartChange: (value: boolean) => void;
+  onToggleBreakpoint: (nodeId: string) => void;
+  onContinue: (input: Record<string, unknown>) => void;
+  onStep: (input: Record<string, unknown>) => void;
+  onStop: () => void;
+}
+
+export default function DebugPanel({
+  pause,
+  breakpoints,
+  selectedNodeId,
+  breakOnStart,
+  onBreakOnStartChange,
+  onToggleBreakpoint,
+  onContinue,
+  onStep,
+  onStop,
+}: DebugPanelProps) {
+  const selectedHasBreakpoint = breakpoints.some((b) => b.id === selectedNodeId);
+
+  return (
+    <div className="h-full flex flex-col bg-[#181825] p-4 overflow-y-auto">
+      <h3 className="text-sm font-semibold text-[#cdd6f4] mb-4">Debug Console</h3>
+
+      {pause ? (
+        // Keyed so edits reset when the run moves to the next node
+        <PausedNode
+          key={`${pause.runId}:${pause.nodeId}:${pause.iteration ?? 0}`}
+          pause={pause}
+          onContinue={onContinue}
+          onStep={onStep}
+          onStop={onStop}
+        />
+      ) : (
+        <p className="text-xs text-[#6c7086] mb-4">
+          Runs stop before nodes with a breakpoint. Select a node and press F9 to toggle one.
+        </p>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-[#a6adc8] mb-4 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={breakOnStart}
+          onChange={(e) => onBreakOnStartChange(e.target.checked)}
+          className="accent-blue-500"
+        />
+        Pause before the first node
+      </label>
+
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-[#a6adc8]">Breakpoints</span>
+        {selectedNodeId && (
+          <button
+            onClick={() => onToggleBreakpoint(selectedNodeId)}
+            className="text-xs text-blue-400 hover:text-blue-300"
+          >
+            {selectedHasBreakpoint ? 'Remove from selected' : 'Add to selected'}
+          </button>
+        )}
+      </div>
+      {breakpoints.length === 0 ? (
+        <p className="text-xs text-[#6c7086]">No breakpoints set</p>
+      ) : (
+        <ul className="space-y-1">
+          {breakpoints.map((b) => (
+            <li key={b.id} className="flex items-center gap-2 text-sm text-[#cdd6f4] group">
+              <Circle className="w-3 h-3 fill-red-500 text-red-500" />
+              <span className="flex-1 truncate">{b.label}</span>
+              <button
+                onClick={() => onToggleBreakpoint(b.id)}
+                className="opacity-0 group-hover:opacity-100 text-[#6c7086] hover:text-red-400"
+                title="Remove breakpoint"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface PausedNodeProps {
+  pause: DebugPause;
+  onContinue: (input: Record<string, unknown>) => void;
+  onStep: (input: Record<string, unknown>) => void;
+  onStop: () => void;
+}
+
+function PausedNode({ pause, onContinue, onStep, onStop }: PausedNodeProps) {
+  const [inputJson, setInputJson] = useState(() => JSON.stringify(pause.input, null, 2));
+
+  const { parsed, error } = useMemo(() => {
+    try {
+      const value = JSON.parse(inputJson);
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('Input must be a JSON object');
+      }
+      return { parsed: value as Record<string, unknown>, error: null };
+    } catch (e) {
+      return { parsed: null, error: (e as Error).message };
+    }
+  }, [inputJson]);
+
+  // Same keys as code debuggers: F5 continues, F10 steps to the next node
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.key !== 'F5' && e.key !== 'F10') || !parsed) return;
+      e.preventDefault();
+      if (e.key === 'F5') onContinue(parsed);
+      else onStep(parsed);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [parsed, onContinue, onStep]);
+
+  return (
+    <div className="p-3 mb-4 bg-[#1e1e2e] border border-amber-500/40 rounded-lg space-y-2">
+      <div className="flex items-center gap-2">
+        <Bug className="w-4 h-4 text-amber-400" />
+        <span className="text-sm font-medium text-[#cdd6f4]">Paused before {pause.nodeName}</span>
+        {pause.iteration && <span className="text-xs text-[#6c7086]">iteration {pause.iteration}</span>}
+      </div>
+
+      <label className="block text-xs text-[#6c7086]">Pending input</label>
+      <textarea
+        value={inputJson}
+        onChange={(e) => setInputJson(e.target.value)}
+        rows={8}
+        className="w-full px-3 py-2 bg-[#181825] border border-[#313244] rounded-md text-xs font-mono text-[#cdd6f4] focus:outline-none focus:border-blue-500 resize-y"
+      />
+      {error && (
+        <p className="flex items-center gap-1 text-xs text-red-400">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => parsed && onContinue(parsed)}
+          disabled={!parsed}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 text-xs rounded-md bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+          title="Continue (F5)"
+        >
+          <Play className="w-3 h-3" />
+          Continue
+        </button>
+        <button
+          onClick={() => parsed && onStep(parsed)}
+          disabled={!parsed}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 text-xs rounded-md bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+          title="Step to next node (F10)"
+        >
+          <StepForward className="w-3 h-3" />
+          Step
+        </button>
+        <button
+          onClick={onStop}
+          className="flex items-center justify-center gap-1 px-2 py-1.5 text-xs rounded-md bg-[#313244] hover:bg-[#45475a] text-red-400"
+          title="Stop the run"
+        >
+          <Square className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+}
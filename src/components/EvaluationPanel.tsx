@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   FlaskConical,
   Database,
@@ -19,16 +19,30 @@ import {
   AlertTriangle,
   Loader2,
   RefreshCw,
+  Pencil,
+  Code2,
+  GitCompare,
+  ChevronDown,
+  ChevronRight,
 } from 'lucide-react';
 import type { AgentNode } from '../types';
+import type { FlowVersion } from '../types/execution';
 import type { Edge } from '@xyflow/react';
 import type {
+  CustomEvaluatorDefinition,
+  CustomEvaluatorKind,
+  AssertionOperator,
   Dataset,
   EvaluatorType,
   EvaluationRun,
   EvaluationScope,
+  JudgeSettings,
+  OfflineEvaluationConfig,
+  TestCaseChange,
+  TestCaseComparison,
   TriggerType,
 } from '../types/evaluation';
+import { DEFAULT_EVALUATORS } from '../types/evaluation';
 import {
   createDataset,
   createDataPoint,
@@ -44,19 +58,61 @@ import {
   saveEvaluationRun,
   generateId,
 } from '../utils/datasetManager';
-import { runEvaluation, calculateSummary } from '../utils/evaluators';
+import { calculateSummary } from '../utils/evaluators';
+import { runOfflineEvaluation, type EvaluationProgress } from '../utils/evaluationRunner';
+import type { InterpreterOptions } from '../utils/flowInterpreter';
+import { createJudgeProvider, loadJudgeSettings, saveJudgeSettings } from '../utils/llmJudge';
+import { formatCost } from '../utils/budgets';
+import {
+  createCustomEvaluator,
+  getCustomEvaluatorType,
+  registerCustomEvaluators,
+  validateCustomEvaluator,
+} from '../utils/customEvaluators';
+import { compareEvaluationRuns, findBaselineRun } from '../utils/runComparison';
+import { diffLines, hasChanges, trimDiffContext } from '../utils/textDiff';
+import { diffFlowVersions, formatVersionHash, summarizeFlowVersionDiff } from '../utils/flowVersions';
 
 interface EvaluationPanelProps {
   nodes: AgentNode[];
   edges: Edge[];
   selectedNodeIds: string[];
   onSelectNodes: (nodeIds: string[]) => void;
+  runOptions: InterpreterOptions; // Provider and budget the data point runs use
+  customEvaluators: CustomEvaluatorDefinition[]; // Saved with the project
+  onCustomEvaluatorsChange: (evaluators: CustomEvaluatorDefinition[]) => void;
+  flowVersions: FlowVersion[];
+  onRecordFlowVersion: () => Promise<string>; // Snapshots the flow an evaluation runs
   isOpen: boolean;
   onClose: () => void;
 }
 
 type TabType = 'datasets' | 'configure' | 'results' | 'online';
 
+const JUDGE_EVALUATORS: EvaluatorType[] = ['llm_judge_output', 'llm_judge_trajectory'];
+
+const CUSTOM_EVALUATOR_KINDS: { kind: CustomEvaluatorKind; label: string; description: string }[] = [
+  { kind: 'javascript', label: 'JavaScript', description: 'Function scored in a sandboxed worker' },
+  { kind: 'assertion', label: 'Assertion', description: 'JSONPath selection checked by regex or expected value' },
+  { kind: 'json_schema', label: 'JSON Schema', description: 'Output conforms to a schema' },
+];
+
+const inputClass = 'w-full px-3 py-2 bg-[#181825] border border-[#313244] rounded-lg text-[#cdd6f4] text-sm';
+
+const CHANGE_STYLES: Record<TestCaseChange, { label: string; className: string }> = {
+  regression: { label: 'Regression', className: 'text-red-400 bg-red-500/10' },
+  improvement: { label: 'Improvement', className: 'text-green-400 bg-green-500/10' },
+  unchanged: { label: 'Unchanged', className: 'text-[#6c7086] bg-[#313244]' },
+  added: { label: 'New', className: 'text-blue-400 bg-blue-500/10' },
+  removed: { label: 'Removed', className: 'text-[#6c7086] bg-[#313244]' },
+};
+
+// Regressions first, then improvements, so the report leads with what changed
+const CHANGE_ORDER: TestCaseChange[] = ['regression', 'improvement', 'added', 'removed', 'unchanged'];
+
+// Signed percentage points, e.g. "+4.0" or "-12.5"
+const formatDelta = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+
 const EVALUATOR_OPTIONS: { type: EvaluatorType; name: string; description: string }[] = [
   { type: 'exact_match', name: 'Exact Match', description: 'Output exactly matches expected' },
   { type: 'contains', name: 'Contains', description: 'Output contains keywords' },
@@ -69,25 +125,51 @@ const EVALUATOR_OPTIONS: { type: EvaluatorType; name: string; description: strin
 
 export default function EvaluationPanel({
   nodes,
-  edges: _edges,
+  edges,
   selectedNodeIds,
   onSelectNodes: _onSelectNodes,
+  runOptions,
+  customEvaluators,
+  onCustomEvaluatorsChange,
+  flowVersions,
+  onRecordFlowVersion,
   isOpen,
   onClose,
 }: EvaluationPanelProps) {
-  // Note: edges and onSelectNodes are available for future subgraph selection features
-  void _edges;
+  // Note: onSelectNodes is available for future subgraph selection features
   void _onSelectNodes;
   const [activeTab, setActiveTab] = useState<TabType>('datasets');
   const [datasets, setDatasets] = useState<Dataset[]>([]);
   const [selectedDatasetId, setSelectedDatasetId] = useState<string | null>(null);
   const [evaluationRuns, setEvaluationRuns] = useState<EvaluationRun[]>([]);
   const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [baselineRunId, setBaselineRunId] = useState(''); // '' picks the previous run on the dataset, 'none' turns comparison off
+  const [expandedCaseId, setExpandedCaseId] = useState<string | null>(null);
   const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<EvaluationProgress | null>(null);
 
   // Configuration state
   const [evalScope, setEvalScope] = useState<EvaluationScope>('flow');
   const [selectedEvaluators, setSelectedEvaluators] = useState<EvaluatorType[]>(['exact_match', 'json_similarity']);
+  const [subgraphStartId, setSubgraphStartId] = useState('');
+  const [subgraphEndId, setSubgraphEndId] = useState('');
+  const [runCount, setRunCount] = useState(1);
+  const [judgeSettings, setJudgeSettings] = useState<JudgeSettings>(loadJudgeSettings);
+  const [judgeModel, setJudgeModel] = useState('gpt-4');
+  const [judgeCriteria, setJudgeCriteria] = useState('accuracy, relevance, completeness');
+  const [judgeRubric, setJudgeRubric] = useState('');
+  const [judgeScale, setJudgeScale] = useState(5);
+  const [editingEvaluatorId, setEditingEvaluatorId] = useState<string | null>(null);
+
+  // Built-ins first, then the project's own evaluators
+  const evaluatorOptions = useMemo(() => [
+    ...EVALUATOR_OPTIONS,
+    ...customEvaluators.map(definition => ({
+      type: getCustomEvaluatorType(definition),
+      name: definition.name,
+      description: definition.description || CUSTOM_EVALUATOR_KINDS.find(k => k.kind === definition.kind)!.description,
+    })),
+  ], [customEvaluators]);
 
   // Online evaluation state
   const [onlineTrigger, setOnlineTrigger] = useState<TriggerType>('on_run_complete');
@@ -204,6 +286,31 @@ export default function EvaluationPanel({
     URL.revokeObjectURL(url);
   }, [datasets, selectedDatasetId]);
 
+  const handleJudgeSettingsChange = useCallback((patch: Partial<JudgeSettings>) => {
+    setJudgeSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveJudgeSettings(next);
+      return next;
+    });
+  }, []);
+
+  const handleAddCustomEvaluator = useCallback((kind: CustomEvaluatorKind) => {
+    const definition = createCustomEvaluator(kind);
+    onCustomEvaluatorsChange([...customEvaluators, definition]);
+    setEditingEvaluatorId(definition.id);
+  }, [customEvaluators, onCustomEvaluatorsChange]);
+
+  const handleUpdateCustomEvaluator = useCallback((definition: CustomEvaluatorDefinition) => {
+    onCustomEvaluatorsChange(customEvaluators.map(d => (d.id === definition.id ? definition : d)));
+  }, [customEvaluators, onCustomEvaluatorsChange]);
+
+  const handleDeleteCustomEvaluator = useCallback((definition: CustomEvaluatorDefinition) => {
+    if (!confirm(`Delete the "${definition.name}" evaluator?`)) return;
+    onCustomEvaluatorsChange(customEvaluators.filter(d => d.id !== definition.id));
+    setSelectedEvaluators(prev => prev.filter(type => type !== getCustomEvaluatorType(definition)));
+    setEditingEvaluatorId(null);
+  }, [customEvaluators, onCustomEvaluatorsChange]);
+
   // Run evaluation
   const handleRunEvaluation = useCallback(async () => {
     const dataset = datasets.find(d => d.id === selectedDatasetId);
@@ -217,28 +324,54 @@ export default function EvaluationPanel({
       return;
     }
 
+    const invalid = customEvaluators
+      .filter(d => selectedEvaluators.includes(getCustomEvaluatorType(d)))
+      .map(d => ({ name: d.name, errors: validateCustomEvaluator(d) }))
+      .filter(d => d.errors.length > 0);
+    if (invalid.length > 0) {
+      alert(`Fix these evaluators first:\n${invalid.map(d => `${d.name}: ${d.errors.join('; ')}`).join('\n')}`);
+      return;
+    }
+    registerCustomEvaluators(customEvaluators);
+
     setIsRunning(true);
 
+    const config: OfflineEvaluationConfig = {
+      mode: 'offline',
+      datasetId: dataset.id,
+      evaluators: selectedEvaluators.map(type => ({
+        type,
+        name: evaluatorOptions.find(e => e.type === type)?.name || type,
+        description: '',
+        weight: 1,
+        // Criteria apply to the output judge; the trajectory judge grades path and reasoning
+        config: JUDGE_EVALUATORS.includes(type)
+          ? {
+              ...DEFAULT_EVALUATORS[type].config,
+              model: judgeModel,
+              rubric: judgeRubric,
+              scoreScale: judgeScale,
+              ...(type === 'llm_judge_output'
+                ? { criteria: judgeCriteria.split(',').map(c => c.trim()).filter(Boolean) }
+                : {}),
+            }
+          : {},
+      })),
+      target: {
+        scope: evalScope,
+        nodeIds: evalScope !== 'flow' ? selectedNodeIds : undefined,
+        startNodeId: evalScope === 'subgraph' ? subgraphStartId || undefined : undefined,
+        endNodeId: evalScope === 'subgraph' ? subgraphEndId || undefined : undefined,
+      },
+      runCount,
+    };
+
     const run: EvaluationRun = {
       id: generateId(),
       name: `${dataset.name} - ${new Date().toLocaleString()}`,
       mode: 'offline',
       status: 'running',
-      config: {
-        mode: 'offline',
-        datasetId: dataset.id,
-        evaluators: selectedEvaluators.map(type => ({
-          type,
-          name: EVALUATOR_OPTIONS.find(e => e.type === type)?.name || type,
-          description: '',
-          weight: 1,
-          config: {},
-        })),
-        target: {
-          scope: evalScope,
-          nodeIds: evalScope === 'node' ? selectedNodeIds : undefined,
-        },
-      },
+      config,
       startedAt: new Date().toISOString(),
       results: [],
       summary: {
@@ -252,48 +385,91 @@ export default function EvaluationPanel({
       },
     };
 
-    try {
-      // Simulate running evaluation on each data point
-      for (const dataPoint of dataset.dataPoints) {
-        // Simulate execution
-        await new Promise(r => setTimeout(r, 100 + Math.random() * 200));
-
-        // Simulate actual output
-        const simulatedOutput = {
-          response: `Simulated response for: ${JSON.stringify(dataPoint.input).substring(0, 50)}`,
-          timestamp: new Date().toISOString(),
-        };
-
-        // Simulate trajectory
-        const simulatedTrajectory = nodes.map(n => n.id);
-
-        const result = await runEvaluation(
-          dataPoint,
-          simulatedOutput,
-          simulatedTrajectory,
-          run.config.evaluators
-        );
-
-        run.results.push(result);
-      }
+    // The evaluation still runs when the version cannot be stored, just without one
+    run.flowVersion = await onRecordFlowVersion().catch((error) => {
+      console.error('Failed to record flow version:', error);
+      return undefined;
+    });
 
+    try {
+      run.results = await runOfflineEvaluation(
+        nodes,
+        edges,
+        dataset.dataPoints,
+        config,
+        {
+          ...runOptions,
+          judge: { provider: createJudgeProvider(judgeSettings), pricing: runOptions.pricing },
+          onProgress: setProgress,
+        }
+      );
       run.summary = calculateSummary(run.results);
       run.status = 'completed';
       run.completedAt = new Date().toISOString();
+      const baseline = findBaselineRun(loadEvaluationRuns(), run);
+      if (baseline) run.summary.regressionDetected = compareEvaluationRuns(run, baseline).regressionDetected;
     } catch (error) {
       run.status = 'failed';
       run.completedAt = new Date().toISOString();
+      alert(`Evaluation failed: ${(error as Error).message}`);
     }
 
     saveEvaluationRun(run);
     setEvaluationRuns(loadEvaluationRuns());
     setSelectedRunId(run.id);
+    setBaselineRunId('');
     setActiveTab('results');
     setIsRunning(false);
-  }, [datasets, selectedDatasetId, selectedEvaluators, evalScope, selectedNodeIds, nodes]);
+    setProgress(null);
+  }, [
+    datasets,
+    selectedDatasetId,
+    selectedEvaluators,
+    evalScope,
+    selectedNodeIds,
+    subgraphStartId,
+    subgraphEndId,
+    runCount,
+    customEvaluators,
+    evaluatorOptions,
+    judgeSettings,
+    judgeModel,
+    judgeCriteria,
+    judgeRubric,
+    judgeScale,
+    nodes,
+    edges,
+    runOptions,
+    onRecordFlowVersion,
+  ]);
 
   const selectedDataset = datasets.find(d => d.id === selectedDatasetId);
   const selectedRun = evaluationRuns.find(r => r.id === selectedRunId);
+  const baselineRun = !selectedRun || baselineRunId === 'none'
+    ? undefined
+    : baselineRunId
+      ? evaluationRuns.find(r => r.id === baselineRunId)
+      : findBaselineRun(evaluationRuns, selectedRun);
+  const comparison = useMemo(
+    () => (selectedRun && baselineRun ? compareEvaluationRuns(selectedRun, baselineRun) : null),
+    [selectedRun, baselineRun]
+  );
+  const flowChange = useMemo(() => {
+    const currentHash = selectedRun?.flowVersion;
+    const baselineHash = baselineRun?.flowVersion;
+    if (!currentHash || !baselineHash) return null;
+    if (currentHash === baselineHash) return `Both runs used flow version ${formatVersionHash(currentHash)}`;
+
+    const current = flowVersions.find(v => v.hash === currentHash);
+    const baseline = flowVersions.find(v => v.hash === baselineHash);
+    const change = `Flow ${formatVersionHash(baselineHash)} → ${formatVersionHash(currentHash)}`;
+    return current && baseline ? `${change}: ${summarizeFlowVersionDiff(diffFlowVersions(baseline, current))}` : change;
+  }, [selectedRun, baselineRun, flowVersions]);
+  const comparedCases = comparison
+    ? [...comparison.cases].sort((a, b) => CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change))
+    : [];
+  const evaluatorLabel = (type: string) =>
+    customEvaluators.find(d => getCustomEvaluatorType(d) === type)?.name ?? type;
 
   if (!isOpen) return null;
 
@@ -497,6 +673,51 @@ export default function EvaluationPanel({
                     Select nodes on the canvas to evaluate: {selectedNodeIds.length > 0 ? selectedNodeIds.join(', ') : 'None selected'}
                   </p>
                 )}
+                {evalScope === 'subgraph' && (
+                  <div className="mt-2 space-y-2">
+                    <div className="flex gap-2">
+                      {[
+                        { label: 'Start node', value: subgraphStartId, onChange: setSubgraphStartId },
+                        { label: 'End node', value: subgraphEndId, onChange: setSubgraphEndId },
+                      ].map(field => (
+                        <select
+                          key={field.label}
+                          value={field.value}
+                          onChange={(e) => field.onChange(e.target.value)}
+                          className="flex-1 px-3 py-2 bg-[#181825] border border-[#313244] rounded-lg text-[#cdd6f4] text-sm"
+                        >
+                          <option value="">{field.label}...</option>
+                          {nodes.map(n => (
+                            <option key={n.id} value={n.id}>{n.data.label}</option>
+                          ))}
+                        </select>
+                      ))}
+                    </div>
+                    <p className="text-xs text-[#6c7086]">
+                      {subgraphStartId && subgraphEndId
+                        ? 'Runs every node on a path from the start node to the end node'
+                        : `Pick a start and end node, or select nodes on the canvas: ${selectedNodeIds.length > 0 ? selectedNodeIds.join(', ') : 'None selected'}`}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {/* Trials */}
+              <div>
+                <label className="block text-sm font-medium text-[#cdd6f4] mb-2">
+                  Runs per Data Point
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={runCount}
+                  onChange={(e) => setRunCount(Math.max(1, Number(e.target.value) || 1))}
+                  className="w-24 px-3 py-2 bg-[#181825] border border-[#313244] rounded-lg text-[#cdd6f4] text-sm"
+                />
+                <p className="text-xs text-[#6c7086] mt-1">
+                  Repeated trials show whether model-backed nodes answer consistently
+                </p>
               </div>
 
               {/* Dataset Selection */}
@@ -524,7 +745,7 @@ export default function EvaluationPanel({
                   Evaluators
                 </label>
                 <div className="grid grid-cols-2 gap-2">
-                  {EVALUATOR_OPTIONS.map(evaluator => (
+                  {evaluatorOptions.map(evaluator => (
                     <button
                       key={evaluator.type}
                       onClick={() => {
@@ -558,6 +779,146 @@ export default function EvaluationPanel({
                 </div>
               </div>
 
+              {/* Custom Evaluators */}
+              <div className="p-4 bg-[#181825] rounded-lg border border-[#313244] space-y-3">
+                <div className="flex items-center gap-2">
+                  <Code2 className="w-4 h-4 text-purple-400" />
+                  <h3 className="text-sm font-medium text-[#cdd6f4]">Custom Evaluators</h3>
+                  <div className="ml-auto flex gap-1">
+                    {CUSTOM_EVALUATOR_KINDS.map(k => (
+                      <button
+                        key={k.kind}
+                        onClick={() => handleAddCustomEvaluator(k.kind)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-[#313244] text-[#cdd6f4] hover:bg-[#45475a]"
+                        title={k.description}
+                      >
+                        <Plus className="w-3 h-3" />
+                        {k.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {customEvaluators.length === 0 ? (
+                  <p className="text-xs text-[#6c7086]">
+                    Domain checks the built-ins cannot express, e.g. an invoice total that equals the sum of its lines. Saved with the project.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {customEvaluators.map(definition => (
+                      <div key={definition.id}>
+                        <div className="flex items-center gap-2 text-sm text-[#cdd6f4] group">
+                          <span className="flex-1 truncate">{definition.name}</span>
+                          <span className="text-xs text-[#6c7086]">
+                            {CUSTOM_EVALUATOR_KINDS.find(k => k.kind === definition.kind)?.label}
+                          </span>
+                          <button
+                            onClick={() => setEditingEvaluatorId(editingEvaluatorId === definition.id ? null : definition.id)}
+                            className="p-1 rounded hover:bg-[#313244] text-[#6c7086] hover:text-[#cdd6f4]"
+                            title="Edit evaluator"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => handleDeleteCustomEvaluator(definition)}
+                            className="p-1 rounded hover:bg-[#313244] text-[#6c7086] hover:text-red-400"
+                            title="Delete evaluator"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                        {editingEvaluatorId === definition.id && (
+                          <CustomEvaluatorEditor definition={definition} onChange={handleUpdateCustomEvaluator} />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Judge Model */}
+              {selectedEvaluators.some(type => JUDGE_EVALUATORS.includes(type)) && (
+                <div className="p-4 bg-[#181825] rounded-lg border border-[#313244] space-y-3">
+                  <h3 className="text-sm font-medium text-[#cdd6f4]">Judge Model</h3>
+                  <div className="flex gap-2">
+                    <select
+                      value={judgeSettings.providerId}
+                      onChange={(e) => handleJudgeSettingsChange({ providerId: e.target.value as JudgeSettings['providerId'] })}
+                      className={inputClass}
+                    >
+                      <option value="stub">Local stub (deterministic, offline)</option>
+                      <option value="openai">OpenAI-compatible endpoint</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={judgeModel}
+                      onChange={(e) => setJudgeModel(e.target.value)}
+                      placeholder="Model"
+                      className={inputClass}
+                    />
+                  </div>
+                  {judgeSettings.providerId === 'openai' && (
+                    <div>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={judgeSettings.baseUrl}
+                          onChange={(e) => handleJudgeSettingsChange({ baseUrl: e.target.value })}
+                          placeholder="https://api.openai.com/v1"
+                          className={inputClass}
+                        />
+                        <input
+                          type="password"
+                          value={judgeSettings.apiKey}
+                          onChange={(e) => handleJudgeSettingsChange({ apiKey: e.target.value })}
+                          placeholder="API key"
+                          className={inputClass}
+                        />
+                      </div>
+                      <p className="flex items-start gap-1 text-xs text-amber-400 mt-1">
+                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                        The key is saved in plain text in this browser's localStorage, where any script on this page can
+                        read it. Prefer a restricted or short-lived key.
+                      </p>
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    <div className="flex-1">
+                      <label className="block text-xs text-[#6c7086] mb-1">Output Criteria (comma separated)</label>
+                      <input
+                        type="text"
+                        value={judgeCriteria}
+                        onChange={(e) => setJudgeCriteria(e.target.value)}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div className="w-24">
+                      <label className="block text-xs text-[#6c7086] mb-1">Score Scale</label>
+                      <input
+                        type="number"
+                        min={2}
+                        max={10}
+                        value={judgeScale}
+                        onChange={(e) => setJudgeScale(Math.max(2, Number(e.target.value) || 5))}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-[#6c7086] mb-1">Rubric</label>
+                    <textarea
+                      value={judgeRubric}
+                      onChange={(e) => setJudgeRubric(e.target.value)}
+                      rows={3}
+                      placeholder="e.g. 5: fully answers with correct figures; 3: partially correct; 1: wrong or off-topic"
+                      className={`${inputClass} resize-y`}
+                    />
+                  </div>
+                  <p className="text-xs text-[#6c7086]">
+                    The judge scores each criterion from 1 to the scale and explains why. The stub judge scores by overlap with the expected output, so CI runs stay deterministic.
+                  </p>
+                </div>
+              )}
+
               {/* Run Button */}
               <button
                 onClick={handleRunEvaluation}
@@ -567,7 +928,7 @@ export default function EvaluationPanel({
                 {isRunning ? (
                   <>
                     <Loader2 className="w-5 h-5 animate-spin" />
-                    Running Evaluation...
+                    {progress ? `Running ${Math.min(progress.completed + 1, progress.total)} of ${progress.total}...` : 'Running Evaluation...'}
                   </>
                 ) : (
                   <>
@@ -586,13 +947,19 @@ export default function EvaluationPanel({
               <div className="flex items-center gap-4">
                 <select
                   value={selectedRunId || ''}
-                  onChange={(e) => setSelectedRunId(e.target.value || null)}
+                  onChange={(e) => {
+                    setSelectedRunId(e.target.value || null);
+                    setBaselineRunId('');
+                    setExpandedCaseId(null);
+                  }}
                   className="flex-1 px-3 py-2 bg-[#181825] border border-[#313244] rounded-lg text-[#cdd6f4] text-sm"
                 >
                   <option value="">Select an evaluation run...</option>
                   {evaluationRuns.map(run => (
                     <option key={run.id} value={run.id}>
                       {run.name} - {run.status}
+                      {run.flowVersion ? ` - ${formatVersionHash(run.flowVersion)}` : ''}
+                      {run.summary.regressionDetected ? ' - regression' : ''}
                     </option>
                   ))}
                 </select>
@@ -642,7 +1009,9 @@ export default function EvaluationPanel({
                     <div className="space-y-2">
                       {Object.entries(selectedRun.summary.scoreByEvaluator).map(([evaluator, score]) => (
                         <div key={evaluator} className="flex items-center gap-3">
-                          <span className="text-xs text-[#6c7086] w-32">{evaluator}</span>
+                          <span className="text-xs text-[#6c7086] w-32 truncate">
+                            {evaluatorLabel(evaluator)}
+                          </span>
                           <div className="flex-1 h-2 bg-[#313244] rounded-full overflow-hidden">
                             <div
                               className={`h-full rounded-full ${
@@ -658,6 +1027,101 @@ export default function EvaluationPanel({
                         </div>
                       ))}
                     </div>
+                    {selectedRun.summary.judgeTokens && (
+                      <p className="text-xs text-[#6c7086] mt-3">
+                        LLM judge used {selectedRun.summary.judgeTokens.toLocaleString()} tokens
+                        {selectedRun.summary.judgeCost ? ` (${formatCost(selectedRun.summary.judgeCost)})` : ''}
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Comparison with a Baseline Run */}
+                  <div className="p-4 bg-[#181825] rounded-lg border border-[#313244]">
+                    <div className="flex items-center gap-3 mb-3">
+                      <GitCompare className="w-4 h-4 text-blue-400" />
+                      <h3 className="text-sm font-medium text-[#cdd6f4]">Compare with</h3>
+                      <select
+                        value={baselineRunId}
+                        onChange={(e) => {
+                          setBaselineRunId(e.target.value);
+                          setExpandedCaseId(null);
+                        }}
+                        className="flex-1 px-2 py-1 bg-[#1e1e2e] border border-[#313244] rounded text-[#cdd6f4] text-xs"
+                      >
+                        <option value="">Previous run on this dataset</option>
+                        <option value="none">No comparison</option>
+                        {evaluationRuns
+                          .filter(r => r.id !== selectedRun.id && r.status === 'completed')
+                          .map(r => (
+                            <option key={r.id} value={r.id}>{r.name}</option>
+                          ))}
+                      </select>
+                      {comparison && (
+                        <span className={`px-2 py-0.5 rounded text-xs ${
+                          comparison.regressionDetected ? 'text-red-400 bg-red-500/10' : 'text-green-400 bg-green-500/10'
+                        }`}>
+                          {comparison.regressionDetected ? 'Regression detected' : 'No regression'}
+                        </span>
+                      )}
+                    </div>
+
+                    {!comparison && baselineRunId !== 'none' && (
+                      <p className="text-xs text-[#6c7086]">No earlier completed run on this dataset to compare with.</p>
+                    )}
+
+                    {comparison && (
+                      <div className="space-y-3">
+                        {flowChange && <p className="text-xs text-[#a6adc8]">{flowChange}</p>}
+                        <div className="grid grid-cols-3 gap-3 text-xs">
+                          <div>
+                            <p className="text-[#6c7086]">Avg Score</p>
+                            <p className={comparison.scoreDelta < 0 ? 'text-red-400' : 'text-green-400'}>
+                              {formatDelta(comparison.scoreDelta)} pts
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-[#6c7086]">Pass Rate</p>
+                            <p className={comparison.passRateDelta < 0 ? 'text-red-400' : 'text-green-400'}>
+                              {formatDelta(comparison.passRateDelta)} pts
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-[#6c7086]">Avg Latency</p>
+                            <p className={comparison.latencyDelta > 0 ? 'text-yellow-400' : 'text-green-400'}>
+                              {comparison.latencyDelta >= 0 ? '+' : ''}{comparison.latencyDelta.toFixed(0)}ms
+                            </p>
+                          </div>
+                        </div>
+
+                        {Object.keys(comparison.evaluatorDeltas).length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {Object.entries(comparison.evaluatorDeltas).map(([evaluator, delta]) => (
+                              <span key={evaluator} className="px-2 py-0.5 rounded bg-[#313244] text-xs text-[#a6adc8]">
+                                {evaluatorLabel(evaluator)}{' '}
+                                <span className={delta < 0 ? 'text-red-400' : 'text-green-400'}>{formatDelta(delta)}</span>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+
+                        <p className="text-xs text-[#6c7086]">
+                          {comparison.regressions.length} regression(s) and {comparison.improvements.length} improvement(s)
+                          beyond trial noise
+                        </p>
+
+                        <div className="max-h-72 overflow-y-auto space-y-1">
+                          {comparedCases.map(c => (
+                            <ComparedCase
+                              key={c.dataPointId}
+                              comparison={c}
+                              expanded={expandedCaseId === c.dataPointId}
+                              onToggle={() => setExpandedCaseId(expandedCaseId === c.dataPointId ? null : c.dataPointId)}
+                              evaluatorLabel={evaluatorLabel}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {/* Individual Results */}
@@ -666,7 +1130,7 @@ export default function EvaluationPanel({
                     <div className="max-h-64 overflow-y-auto space-y-2">
                       {selectedRun.results.map((result, i) => (
                         <div
-                          key={result.dataPointId}
+                          key={i}
                           className={`p-3 rounded-lg border ${
                             result.passed
                               ? 'border-green-500/30 bg-green-500/5'
@@ -681,6 +1145,9 @@ export default function EvaluationPanel({
                                 <X className="w-4 h-4 text-red-400" />
                               )}
                               <span className="text-sm text-[#cdd6f4]">Test #{i + 1}</span>
+                              {result.trial && (
+                                <span className="text-xs text-[#6c7086]">trial {result.trial}</span>
+                              )}
                             </div>
                             <span className="text-xs text-[#6c7086]">
                               Score: {(result.aggregateScore * 100).toFixed(1)}%
@@ -689,6 +1156,26 @@ export default function EvaluationPanel({
                           <p className="text-xs text-[#6c7086] mt-1 truncate">
                             Input: {JSON.stringify(result.input).substring(0, 80)}...
                           </p>
+                          {result.actualTrajectory.length > 0 && (
+                            <p className="text-xs text-[#6c7086] mt-1 truncate">
+                              Path: {result.actualTrajectory
+                                .map(id => nodes.find(n => n.id === id)?.data.label ?? id)
+                                .join(' → ')}
+                            </p>
+                          )}
+                          {result.evaluatorResults
+                            .filter(e => JUDGE_EVALUATORS.includes(e.evaluatorType) && e.details.reasoning)
+                            .map(e => (
+                              <p key={e.evaluatorType} className="text-xs text-[#a6adc8] mt-1 line-clamp-2" title={e.details.reasoning}>
+                                {e.evaluatorName}: {e.details.reasoning}
+                              </p>
+                            ))}
+                          {result.error && (
+                            <p className="flex items-center gap-1 text-xs text-red-400 mt-1">
+                              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                              <span className="truncate">{result.error}</span>
+                            </p>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -831,7 +1318,7 @@ export default function EvaluationPanel({
                       Online Evaluators
                     </label>
                     <div className="flex flex-wrap gap-2">
-                      {EVALUATOR_OPTIONS.map(evaluator => (
+                      {evaluatorOptions.map(evaluator => (
                         <button
                           key={evaluator.type}
                           onClick={() => {
@@ -875,3 +1362,196 @@ export default function EvaluationPanel({
     </div>
   );
 }
+
+interface CustomEvaluatorEditorProps {
+  definition: CustomEvaluatorDefinition;
+  onChange: (definition: CustomEvaluatorDefinition) => void;
+}
+
+function CustomEvaluatorEditor({ definition, onChange }: CustomEvaluatorEditorProps) {
+  const update = (patch: Partial<CustomEvaluatorDefinition>) => onChange({ ...definition, ...patch });
+  const errors = validateCustomEvaluator(definition);
+
+  return (
+    <div className="mt-2 p-3 bg-[#1e1e2e] border border-[#313244] rounded-lg space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={definition.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="Name"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={definition.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="Description"
+          className={inputClass}
+        />
+      </div>
+
+      {definition.kind === 'javascript' && (
+        <>
+          <label className="block text-xs text-[#6c7086]">
+            Function (actual, expected, config, context) returning a 0-1 score, a boolean or {'{ score, passed, reasoning }'}
+          </label>
+          <textarea
+            value={definition.code}
+            onChange={(e) => update({ code: e.target.value })}
+            rows={8}
+            spellCheck={false}
+            className={`${inputClass} font-mono text-xs resize-y`}
+          />
+        </>
+      )}
+
+      {definition.kind === 'assertion' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={definition.path}
+            onChange={(e) => update({ path: e.target.value })}
+            placeholder="$.lines[*].amount"
+            className={`${inputClass} font-mono`}
+          />
+          <select
+            value={definition.operator}
+            onChange={(e) => update({ operator: e.target.value as AssertionOperator })}
+            className={inputClass}
+          >
+            <option value="matches">matches pattern</option>
+            <option value="equals_expected">equals expected output</option>
+            <option value="exists">exists</option>
+          </select>
+          {definition.operator === 'matches' && (
+            <input
+              type="text"
+              value={definition.pattern}
+              onChange={(e) => update({ pattern: e.target.value })}
+              placeholder="/^INV-\d+$/i"
+              className={`${inputClass} font-mono`}
+            />
+          )}
+        </div>
+      )}
+
+      {definition.kind === 'json_schema' && (
+        <textarea
+          value={definition.schema}
+          onChange={(e) => update({ schema: e.target.value })}
+          rows={8}
+          spellCheck={false}
+          className={`${inputClass} font-mono text-xs resize-y`}
+        />
+      )}
+
+      {definition.kind === 'javascript' && (
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-[#6c7086]">Pass at score</label>
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={definition.threshold}
+            onChange={(e) => update({ threshold: Number(e.target.value) })}
+            className="w-20 px-2 py-1 bg-[#181825] border border-[#313244] rounded text-[#cdd6f4] text-xs"
+          />
+        </div>
+      )}
+
+      {errors.map(error => (
+        <p key={error} className="flex items-center gap-1 text-xs text-red-400">
+          <AlertTriangle className="w-3 h-3" />
+          {error}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+interface ComparedCaseProps {
+  comparison: TestCaseComparison;
+  expanded: boolean;
+  onToggle: () => void;
+  evaluatorLabel: (type: string) => string;
+}
+
+function ComparedCase({ comparison, expanded, onToggle, evaluatorLabel }: ComparedCaseProps) {
+  const style = CHANGE_STYLES[comparison.change];
+  const formatScore = (score?: number) => (score === undefined ? '-' : `${(score * 100).toFixed(1)}%`);
+  const formatPassRate = (rate?: number) => (rate === undefined ? '-' : `${(rate * 100).toFixed(0)}% passed`);
+  const diff = diffLines(
+    comparison.previousOutput ? JSON.stringify(comparison.previousOutput, null, 2) : '',
+    comparison.currentOutput ? JSON.stringify(comparison.currentOutput, null, 2) : ''
+  );
+
+  return (
+    <div className="rounded-lg border border-[#313244]">
+      <button onClick={onToggle} className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-[#1e1e2e]">
+        {expanded ? (
+          <ChevronDown className="w-3 h-3 text-[#6c7086] flex-shrink-0" />
+        ) : (
+          <ChevronRight className="w-3 h-3 text-[#6c7086] flex-shrink-0" />
+        )}
+        <span className={`px-1.5 py-0.5 rounded text-xs flex-shrink-0 ${style.className}`}>{style.label}</span>
+        <span className="flex-1 text-xs text-[#a6adc8] truncate">{JSON.stringify(comparison.input)}</span>
+        <span className="text-xs text-[#6c7086] flex-shrink-0">
+          {formatScore(comparison.previousScore)} → {formatScore(comparison.currentScore)}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div className="p-2 rounded bg-[#1e1e2e]">
+              <p className="text-[#6c7086]">Baseline</p>
+              <p className="text-[#cdd6f4]">{formatScore(comparison.previousScore)}</p>
+              <p className="text-[#6c7086]">{formatPassRate(comparison.previousPassRate)}</p>
+            </div>
+            <div className="p-2 rounded bg-[#1e1e2e]">
+              <p className="text-[#6c7086]">Current</p>
+              <p className="text-[#cdd6f4]">{formatScore(comparison.currentScore)}</p>
+              <p className="text-[#6c7086]">{formatPassRate(comparison.currentPassRate)}</p>
+            </div>
+          </div>
+
+          {Object.keys(comparison.evaluatorDeltas).length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(comparison.evaluatorDeltas).map(([evaluator, delta]) => (
+                <span key={evaluator} className="text-xs text-[#6c7086]">
+                  {evaluatorLabel(evaluator)}{' '}
+                  <span className={delta < 0 ? 'text-red-400' : delta > 0 ? 'text-green-400' : ''}>{formatDelta(delta)}</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {!hasChanges(diff) && <p className="text-xs text-[#6c7086]">The outputs are identical.</p>}
+          {hasChanges(diff) && (
+            <pre className="p-2 max-h-48 overflow-auto rounded bg-[#1e1e2e] text-xs font-mono">
+              {trimDiffContext(diff).map((line, i) => (
+                <div
+                  key={i}
+                  className={
+                    line.type === 'added'
+                      ? 'text-green-400 bg-green-500/10'
+                      : line.type === 'removed'
+                        ? 'text-red-400 bg-red-500/10'
+                        : line.type === 'skipped'
+                          ? 'text-[#45475a] italic'
+                          : 'text-[#6c7086]'
+                  }
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                  {line.text}
+                </div>
+              ))}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -23,13 +23,28 @@ import {
   Copy,
   Check,
   Sparkles,
+  Pin,
+  Download,
+  SkipForward,
+  History,
+  Trash2,
+  Radio,
+  Share2,
+  Upload,
+  Tags,
+  Wallet,
 } from 'lucide-react';
 import type {
   ExecutionRun,
   ExecutionTrace,
+  RunFilter,
+  RunRetention,
   TraceViewConfig,
 } from '../types/execution';
-import { DEFAULT_TRACE_VIEW_CONFIG } from '../types/execution';
+import { DEFAULT_RUN_FILTER, DEFAULT_TRACE_VIEW_CONFIG } from '../types/execution';
+import { filterRuns, getRunDurationMs } from '../utils/runHistory';
+import { formatCost, getUsageByNode } from '../utils/budgets';
+import { formatVersionHash } from '../utils/flowVersions';
 
 interface ExecutionPanelProps {
   isOpen: boolean;
@@ -39,12 +54,20 @@ interface ExecutionPanelProps {
   runHistory: ExecutionRun[];
   onSelectRun: (runId: string) => void;
   onRerun: () => void;
+  onReplayFrom: (nodeId: string) => void; // Re-run from a node with the recorded outputs before it pinned
+  onExportFixtures: () => void; // Download the run's model calls as mock provider responses
+  onExportOtlp: () => void;
+  onImportOtlp: (file: File) => void;
   onCancel: () => void;
+  retention: RunRetention;
+  onRetentionChange: (retention: RunRetention) => void;
+  onClearHistory: () => void;
 }
 
 const STATUS_ICONS = {
   pending: <Clock className="w-4 h-4 text-[#6c7086]" />,
   running: <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />,
+  paused: <Pause className="w-4 h-4 text-amber-400" />,
   completed: <CheckCircle2 className="w-4 h-4 text-green-400" />,
   failed: <XCircle className="w-4 h-4 text-red-400" />,
   cancelled: <AlertCircle className="w-4 h-4 text-yellow-400" />,
@@ -53,6 +76,7 @@ const STATUS_ICONS = {
 const STATUS_COLORS = {
   pending: 'text-[#6c7086]',
   running: 'text-blue-400',
+  paused: 'text-amber-400',
   completed: 'text-green-400',
   failed: 'text-red-400',
   cancelled: 'text-yellow-400',
@@ -63,18 +87,27 @@ export default function ExecutionPanel({
   onClose,
   onToggle,
   currentRun,
-  runHistory: _runHistory,
-  onSelectRun: _onSelectRun,
+  runHistory,
+  onSelectRun,
   onRerun,
+  onReplayFrom,
+  onExportFixtures,
+  onExportOtlp,
+  onImportOtlp,
   onCancel,
+  retention,
+  onRetentionChange,
+  onClearHistory,
 }: ExecutionPanelProps) {
   const [viewConfig, setViewConfig] = useState<TraceViewConfig>(DEFAULT_TRACE_VIEW_CONFIG);
+  const [showHistory, setShowHistory] = useState(false);
   const [selectedTraceId, setSelectedTraceId] = useState<string | null>(null);
   const [panelHeight, setPanelHeight] = useState(350);
   const [isResizing, setIsResizing] = useState(false);
   const [isMaximized, setIsMaximized] = useState(false);
   const [copied, setCopied] = useState(false);
   const panelRef = useRef<HTMLDivElement>(null);
+  const otlpInputRef = useRef<HTMLInputElement>(null);
 
   // Handle resize
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -120,6 +153,10 @@ export default function ExecutionPanel({
   }, []);
 
   const selectedTrace = currentRun?.traces.find(t => t.id === selectedTraceId);
+  // Loop iterations of the selected node, summed
+  const selectedNodeUsage = selectedTrace && currentRun
+    ? getUsageByNode(currentRun.traces).find(u => u.nodeId === selectedTrace.nodeId)
+    : undefined;
 
   // Calculate timeline metrics
   const timelineStart = currentRun?.traces[0]?.startedAt
@@ -174,14 +211,22 @@ export default function ExecutionPanel({
                 {currentRun.status}
               </span>
             )}
+            {currentRun?.error && (
+              <span className="text-xs text-red-400 truncate max-w-xs" title={currentRun.error}>
+                {currentRun.error}
+              </span>
+            )}
           </div>
 
           {/* View Mode Toggle */}
           <div className="flex items-center gap-1 bg-[#1e1e2e] p-0.5 rounded-md">
             <button
-              onClick={() => setViewConfig(prev => ({ ...prev, mode: 'waterfall' }))}
+              onClick={() => {
+                setViewConfig(prev => ({ ...prev, mode: 'waterfall' }));
+                setShowHistory(false);
+              }}
               className={`flex items-center gap-1 px-2 py-1 text-xs rounded transition-colors ${
-                viewConfig.mode === 'waterfall'
+                !showHistory && viewConfig.mode === 'waterfall'
                   ? 'bg-[#313244] text-[#cdd6f4]'
                   : 'text-[#6c7086] hover:text-[#a6adc8]'
               }`}
@@ -190,9 +235,12 @@ export default function ExecutionPanel({
               Waterfall
             </button>
             <button
-              onClick={() => setViewConfig(prev => ({ ...prev, mode: 'span' }))}
+              onClick={() => {
+                setViewConfig(prev => ({ ...prev, mode: 'span' }));
+                setShowHistory(false);
+              }}
               className={`flex items-center gap-1 px-2 py-1 text-xs rounded transition-colors ${
-                viewConfig.mode === 'span'
+                !showHistory && viewConfig.mode === 'span'
                   ? 'bg-[#313244] text-[#cdd6f4]'
                   : 'text-[#6c7086] hover:text-[#a6adc8]'
               }`}
@@ -200,6 +248,17 @@ export default function ExecutionPanel({
               <GitBranch className="w-3 h-3" />
               Trace Spans
             </button>
+            <button
+              onClick={() => setShowHistory(true)}
+              className={`flex items-center gap-1 px-2 py-1 text-xs rounded transition-colors ${
+                showHistory
+                  ? 'bg-[#313244] text-[#cdd6f4]'
+                  : 'text-[#6c7086] hover:text-[#a6adc8]'
+              }`}
+            >
+              <History className="w-3 h-3" />
+              History
+            </button>
           </div>
         </div>
 
@@ -221,6 +280,12 @@ export default function ExecutionPanel({
                   {currentRun.summary.tokensUsed} tokens
                 </span>
               )}
+              {currentRun.summary.cost !== undefined && (
+                <span className="flex items-center gap-1">
+                  <Wallet className="w-3 h-3" />
+                  {formatCost(currentRun.summary.cost)}
+                </span>
+              )}
             </div>
           )}
 
@@ -241,6 +306,42 @@ export default function ExecutionPanel({
           >
             <RotateCcw className="w-4 h-4" />
           </button>
+          {currentRun?.traces.some(t => t.metadata.prompt) && (
+            <button
+              onClick={onExportFixtures}
+              className="p-1.5 rounded hover:bg-[#313244] text-[#6c7086]"
+              title="Export model calls as mock responses"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+          )}
+          {currentRun && (
+            <button
+              onClick={onExportOtlp}
+              className="p-1.5 rounded hover:bg-[#313244] text-[#6c7086]"
+              title="Export run as OpenTelemetry spans (OTLP/JSON)"
+            >
+              <Share2 className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => otlpInputRef.current?.click()}
+            className="p-1.5 rounded hover:bg-[#313244] text-[#6c7086]"
+            title="Import OpenTelemetry traces (OTLP/JSON)"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <input
+            ref={otlpInputRef}
+            type="file"
+            accept=".json,.jsonl"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportOtlp(file);
+              e.target.value = '';
+            }}
+          />
           <button
             onClick={() => setIsMaximized(!isMaximized)}
             className="p-1.5 rounded hover:bg-[#313244] text-[#6c7086]"
@@ -267,8 +368,23 @@ export default function ExecutionPanel({
 
       {/* Content */}
       <div className="flex-1 flex overflow-hidden">
+        {showHistory && (
+          <RunHistoryView
+            runs={runHistory}
+            currentRunId={currentRun?.id}
+            onSelectRun={(runId) => {
+              onSelectRun(runId);
+              setSelectedTraceId(null);
+              setShowHistory(false);
+            }}
+            retention={retention}
+            onRetentionChange={onRetentionChange}
+            onClearHistory={onClearHistory}
+          />
+        )}
+
         {/* Trace List */}
-        <div className="w-80 border-r border-[#313244] overflow-y-auto">
+        <div className={`w-80 border-r border-[#313244] overflow-y-auto ${showHistory ? 'hidden' : ''}`}>
           {!currentRun ? (
             <div className="flex flex-col items-center justify-center h-full text-[#6c7086]">
               <Play className="w-8 h-8 mb-2 opacity-50" />
@@ -305,7 +421,19 @@ export default function ExecutionPanel({
                       <span className="text-sm font-medium text-[#cdd6f4] truncate">
                         {trace.nodeName}
                       </span>
+                      {trace.metadata.pinned && (
+                        <Pin className="w-3 h-3 text-[#6c7086] flex-shrink-0" aria-label="Pinned output" />
+                      )}
+                      {trace.metadata.budgetAction && (
+                        <Wallet
+                          className={`w-3 h-3 flex-shrink-0 ${
+                            trace.metadata.budgetAction === 'aborted' ? 'text-red-400' : 'text-amber-400'
+                          }`}
+                          aria-label={trace.metadata.budgetReason}
+                        />
+                      )}
                       <span className="text-xs text-[#45475a] ml-auto">
+                        {trace.metadata.cost !== undefined && `${formatCost(trace.metadata.cost)} · `}
                         {trace.durationMs}ms
                       </span>
                     </div>
@@ -317,6 +445,7 @@ export default function ExecutionPanel({
                           trace.status === 'completed' ? 'bg-green-500' :
                           trace.status === 'failed' ? 'bg-red-500' :
                           trace.status === 'running' ? 'bg-blue-500 animate-pulse' :
+                          trace.status === 'paused' ? 'bg-amber-500' :
                           'bg-[#45475a]'
                         }`}
                         style={{
@@ -326,8 +455,10 @@ export default function ExecutionPanel({
                       />
                     </div>
 
-                    {/* LLM Explanation Preview */}
-                    {trace.llmExplanation && (
+                    {/* Live tokens while the node streams, otherwise the LLM Explanation Preview */}
+                    {trace.status === 'running' && trace.streamedOutput ? (
+                      <StreamPreview text={trace.streamedOutput} />
+                    ) : trace.llmExplanation && (
                       <p className="text-xs text-[#6c7086] mt-1 truncate">
                         <Sparkles className="w-3 h-3 inline mr-1 text-purple-400" />
                         {trace.llmExplanation}
@@ -356,7 +487,7 @@ export default function ExecutionPanel({
         </div>
 
         {/* Trace Details */}
-        <div className="flex-1 overflow-y-auto p-4">
+        <div className={`flex-1 overflow-y-auto p-4 ${showHistory ? 'hidden' : ''}`}>
           {selectedTrace ? (
             <div className="space-y-4">
               {/* Header */}
@@ -370,7 +501,19 @@ export default function ExecutionPanel({
                     {selectedTrace.nodeType} • {selectedTrace.durationMs}ms
                   </p>
                 </div>
-                <span className="text-xs text-[#45475a]">{selectedTrace.id}</span>
+                <div className="flex items-center gap-3">
+                  {currentRun && currentRun.status !== 'running' && (
+                    <button
+                      onClick={() => onReplayFrom(selectedTrace.nodeId)}
+                      className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-[#313244] hover:bg-[#45475a] text-[#cdd6f4]"
+                      title="Run again from this node, reusing the recorded outputs before it"
+                    >
+                      <SkipForward className="w-3 h-3" />
+                      Replay from here
+                    </button>
+                  )}
+                  <span className="text-xs text-[#45475a]">{selectedTrace.id}</span>
+                </div>
               </div>
 
               {/* LLM Explanation */}
@@ -384,6 +527,25 @@ export default function ExecutionPanel({
                 </div>
               )}
 
+              {/* Budget */}
+              {selectedTrace.metadata.budgetReason && (
+                <div
+                  className={`p-3 rounded-lg border ${
+                    selectedTrace.metadata.budgetAction === 'aborted'
+                      ? 'bg-red-500/10 border-red-500/30'
+                      : 'bg-amber-500/10 border-amber-500/30'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <Wallet className="w-4 h-4 text-amber-400" />
+                    <span className="text-sm font-medium text-[#cdd6f4]">
+                      {selectedTrace.metadata.budgetAction === 'aborted' ? 'Stopped by Budget' : 'Degraded by Budget'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-[#a6adc8]">{selectedTrace.metadata.budgetReason}</p>
+                </div>
+              )}
+
               {/* Reasoning */}
               {selectedTrace.reasoning && (
                 <div className="p-3 bg-[#181825] border border-[#313244] rounded-lg">
@@ -395,6 +557,22 @@ export default function ExecutionPanel({
                 </div>
               )}
 
+              {/* Streamed Output */}
+              {selectedTrace.streamedOutput && (
+                <div className="p-3 bg-[#181825] border border-[#313244] rounded-lg">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Radio className="w-4 h-4 text-blue-400" />
+                    <span className="text-sm font-medium text-[#cdd6f4]">
+                      {selectedTrace.status === 'running' ? 'Streaming' : 'Partial Output'}
+                    </span>
+                  </div>
+                  <p className="text-sm text-[#a6adc8] whitespace-pre-wrap">
+                    {selectedTrace.streamedOutput}
+                    {selectedTrace.status === 'running' && <span className="animate-pulse text-blue-400">▍</span>}
+                  </p>
+                </div>
+              )}
+
               {/* Input */}
               {viewConfig.showInput && (
                 <div className="p-3 bg-[#181825] border border-[#313244] rounded-lg">
@@ -450,6 +628,27 @@ export default function ExecutionPanel({
                 </div>
               )}
 
+              {/* Span Attributes */}
+              {selectedTrace.attributes && (
+                <div className="p-3 bg-[#181825] border border-[#313244] rounded-lg">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Tags className="w-4 h-4 text-[#6c7086]" />
+                    <span className="text-sm font-medium text-[#cdd6f4]">Span Attributes</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-xs">
+                    {Object.entries(selectedTrace.attributes).map(([key, value]) => {
+                      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+                      return (
+                        <div key={key} className="truncate" title={text}>
+                          <span className="text-[#6c7086]">{key}:</span>
+                          <span className="text-[#a6adc8] ml-2">{text}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Tool Calls */}
               {selectedTrace.toolCalls && selectedTrace.toolCalls.length > 0 && (
                 <div className="p-3 bg-[#181825] border border-[#313244] rounded-lg">
@@ -463,9 +662,13 @@ export default function ExecutionPanel({
                         <div className="flex items-center justify-between">
                           <span className="text-sm text-[#cdd6f4]">{tool.toolName}</span>
                           <span className={`text-xs ${STATUS_COLORS[tool.status]}`}>
+                            {tool.attempts && tool.attempts > 1 ? `${tool.attempts} attempts · ` : ''}
                             {tool.durationMs}ms
                           </span>
                         </div>
+                        {tool.error && (
+                          <p className="text-xs text-red-400 mt-1">{tool.error}</p>
+                        )}
                         {tool.toolOutput !== undefined && (
                           <pre className="text-xs font-mono text-[#6c7086] mt-1 truncate">
                             {String(JSON.stringify(tool.toolOutput)).substring(0, 100)}
@@ -509,18 +712,44 @@ export default function ExecutionPanel({
                         <span className="text-[#a6adc8] ml-2">{selectedTrace.metadata.tokensOutput}</span>
                       </div>
                     )}
+                    {selectedTrace.metadata.cost !== undefined && (
+                      <div>
+                        <span className="text-[#6c7086]">Cost:</span>
+                        <span className="text-[#a6adc8] ml-2">{formatCost(selectedTrace.metadata.cost)}</span>
+                      </div>
+                    )}
+                    {selectedNodeUsage && selectedNodeUsage.runs > 1 && (
+                      <div>
+                        <span className="text-[#6c7086]">All {selectedNodeUsage.runs} Runs:</span>
+                        <span className="text-[#a6adc8] ml-2">
+                          {selectedNodeUsage.usage.tokens} tokens · {formatCost(selectedNodeUsage.usage.cost)}
+                        </span>
+                      </div>
+                    )}
                     {selectedTrace.metadata.latencyMs !== undefined && (
                       <div>
                         <span className="text-[#6c7086]">Latency:</span>
                         <span className="text-[#a6adc8] ml-2">{selectedTrace.metadata.latencyMs}ms</span>
                       </div>
                     )}
+                    {selectedTrace.metadata.timeToFirstTokenMs !== undefined && (
+                      <div>
+                        <span className="text-[#6c7086]">First Token:</span>
+                        <span className="text-[#a6adc8] ml-2">{selectedTrace.metadata.timeToFirstTokenMs}ms</span>
+                      </div>
+                    )}
                     {selectedTrace.metadata.cacheHit !== undefined && (
                       <div>
                         <span className="text-[#6c7086]">Cache Hit:</span>
                         <span className="text-[#a6adc8] ml-2">{selectedTrace.metadata.cacheHit ? 'Yes' : 'No'}</span>
                       </div>
                     )}
+                    {selectedTrace.metadata.iteration !== undefined && (
+                      <div>
+                        <span className="text-[#6c7086]">Iteration:</span>
+                        <span className="text-[#a6adc8] ml-2">{selectedTrace.metadata.iteration}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -590,6 +819,12 @@ function TraceSpanItem({
         </span>
       </div>
 
+      {trace.status === 'running' && trace.streamedOutput && (
+        <div className="pl-10 pr-2">
+          <StreamPreview text={trace.streamedOutput} />
+        </div>
+      )}
+
       {isExpanded && hasChildren && (
         <div className="mt-1">
           {trace.children!.map(child => (
@@ -608,3 +843,207 @@ function TraceSpanItem({
     </div>
   );
 }
+
+// Tail of a streaming completion; overflow is clipped on the left so the newest tokens stay visible
+function StreamPreview({ text }: { text: string }) {
+  return (
+    <p className="flex justify-end overflow-hidden whitespace-nowrap text-xs font-mono text-[#a6adc8] mt-1">
+      <span>{text.slice(-160).replace(/\s+/g, ' ')}</span>
+      <span className="animate-pulse text-blue-400">▍</span>
+    </p>
+  );
+}
+
+const filterInputClass =
+  'px-2 py-1 bg-[#1e1e2e] border border-[#313244] rounded text-xs text-[#cdd6f4] placeholder-[#45475a] focus:outline-none focus:border-blue-500';
+
+const toOptionalNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+// Stored runs with filters, newest first
+function RunHistoryView({
+  runs,
+  currentRunId,
+  onSelectRun,
+  retention,
+  onRetentionChange,
+  onClearHistory,
+}: {
+  runs: ExecutionRun[];
+  currentRunId?: string;
+  onSelectRun: (runId: string) => void;
+  retention: RunRetention;
+  onRetentionChange: (retention: RunRetention) => void;
+  onClearHistory: () => void;
+}) {
+  const [filter, setFilter] = useState<RunFilter>(DEFAULT_RUN_FILTER);
+  const visible = filterRuns(runs, filter);
+  const update = (patch: Partial<RunFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-[#313244]">
+        <select
+          value={filter.status}
+          onChange={(e) => update({ status: e.target.value as RunFilter['status'] })}
+          className={filterInputClass}
+        >
+          <option value="all">All statuses</option>
+          {Object.keys(STATUS_COLORS).map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+        <input
+          value={filter.node}
+          onChange={(e) => update({ node: e.target.value })}
+          placeholder="Node"
+          className={`${filterInputClass} w-28`}
+        />
+        <input
+          value={filter.errorText}
+          onChange={(e) => update({ errorText: e.target.value })}
+          placeholder="Error text"
+          className={`${filterInputClass} w-32`}
+        />
+        <input
+          value={filter.inputText}
+          onChange={(e) => update({ inputText: e.target.value })}
+          placeholder="Input value"
+          className={`${filterInputClass} w-32`}
+        />
+        <span className="text-xs text-[#6c7086]">Duration (ms)</span>
+        <input
+          type="number"
+          min={0}
+          value={filter.minDurationMs ?? ''}
+          onChange={(e) => update({ minDurationMs: toOptionalNumber(e.target.value) })}
+          placeholder="min"
+          className={`${filterInputClass} w-20`}
+        />
+        <input
+          type="number"
+          min={0}
+          value={filter.maxDurationMs ?? ''}
+          onChange={(e) => update({ maxDurationMs: toOptionalNumber(e.target.value) })}
+          placeholder="max"
+          className={`${filterInputClass} w-20`}
+        />
+        <span className="text-xs text-[#6c7086]">Cost ($)</span>
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={filter.minCost ?? ''}
+          onChange={(e) => update({ minCost: toOptionalNumber(e.target.value) })}
+          placeholder="min"
+          className={`${filterInputClass} w-20`}
+        />
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={filter.maxCost ?? ''}
+          onChange={(e) => update({ maxCost: toOptionalNumber(e.target.value) })}
+          placeholder="max"
+          className={`${filterInputClass} w-20`}
+        />
+        <button
+          onClick={() => setFilter(DEFAULT_RUN_FILTER)}
+          className="text-xs text-[#6c7086] hover:text-[#cdd6f4]"
+        >
+          Reset
+        </button>
+      </div>
+
+      {/* Runs */}
+      <div className="flex-1 overflow-y-auto">
+        {visible.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-full text-[#6c7086]">
+            <History className="w-8 h-8 mb-2 opacity-50" />
+            <p className="text-sm">{runs.length === 0 ? 'No stored runs yet' : 'No runs match the filters'}</p>
+          </div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-[#181825] text-[#6c7086]">
+              <tr>
+                <th className="text-left font-medium px-4 py-1.5">Run</th>
+                <th className="text-left font-medium px-2 py-1.5">Started</th>
+                <th className="text-left font-medium px-2 py-1.5">Version</th>
+                <th className="text-right font-medium px-2 py-1.5">Duration</th>
+                <th className="text-right font-medium px-2 py-1.5">Nodes</th>
+                <th className="text-right font-medium px-2 py-1.5">Tokens</th>
+                <th className="text-right font-medium px-2 py-1.5">Cost</th>
+                <th className="text-left font-medium px-4 py-1.5">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(run => (
+                <tr
+                  key={run.id}
+                  onClick={() => onSelectRun(run.id)}
+                  className={`cursor-pointer border-t border-[#313244] hover:bg-[#313244] ${
+                    run.id === currentRunId ? 'bg-purple-500/10' : ''
+                  }`}
+                >
+                  <td className="px-4 py-1.5">
+                    <div className="flex items-center gap-2 text-[#cdd6f4]">
+                      {STATUS_ICONS[run.status]}
+                      <span className="truncate">{run.name}</span>
+                    </div>
+                  </td>
+                  <td className="px-2 py-1.5 text-[#a6adc8] whitespace-nowrap">
+                    {new Date(run.startedAt).toLocaleString()}
+                  </td>
+                  <td className="px-2 py-1.5 font-mono text-[#a6adc8]">
+                    {run.flowVersion ? formatVersionHash(run.flowVersion) : '-'}
+                  </td>
+                  <td className="px-2 py-1.5 text-right text-[#a6adc8]">{getRunDurationMs(run)}ms</td>
+                  <td className="px-2 py-1.5 text-right text-[#a6adc8]">
+                    {run.summary.completedNodes}/{run.summary.totalNodes}
+                  </td>
+                  <td className="px-2 py-1.5 text-right text-[#a6adc8]">{run.summary.tokensUsed ?? '-'}</td>
+                  <td className="px-2 py-1.5 text-right text-[#a6adc8]">
+                    {run.summary.cost !== undefined ? `$${run.summary.cost.toFixed(4)}` : '-'}
+                  </td>
+                  <td className="px-4 py-1.5 text-red-400 truncate max-w-xs" title={run.error}>
+                    {run.error}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Retention */}
+      <div className="flex items-center gap-2 px-4 py-2 border-t border-[#313244] text-xs text-[#6c7086]">
+        <span>{visible.length} of {runs.length} run(s) · keep the last</span>
+        <input
+          type="number"
+          min={0}
+          value={retention.maxRuns}
+          onChange={(e) => onRetentionChange({ ...retention, maxRuns: Math.max(0, Number(e.target.value)) })}
+          className={`${filterInputClass} w-16`}
+          title="0 keeps every run"
+        />
+        <span>runs for</span>
+        <input
+          type="number"
+          min={0}
+          value={retention.maxAgeDays}
+          onChange={(e) => onRetentionChange({ ...retention, maxAgeDays: Math.max(0, Number(e.target.value)) })}
+          className={`${filterInputClass} w-16`}
+          title="0 keeps runs of any age"
+        />
+        <span>days</span>
+        <button
+          onClick={onClearHistory}
+          className="ml-auto flex items-center gap-1 text-[#6c7086] hover:text-red-400"
+        >
+          <Trash2 className="w-3 h-3" />
+          Clear history
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { FolderOpen, X, AlertCircle, AlertTriangle, Info, Trash2, Wand2 } from 'lucide-react';
+import type { ImportFormat, ImportReport } from '../utils/projectFile';
+
+interface ImportReportModalProps {
+  report: ImportReport | null;
+  onClose: () => void;
+}
+
+const formatLabels: Record<ImportFormat, string> = {
+  project: 'Project files',
+  flowExport: 'Flow JSON export',
+  canvas: 'Canvas save (older format)',
+  fileExplorer: 'config/flow.json',
+  python: 'Visual-Safe Python',
+};
+
+function Section({ title, icon, items }: { title: string; icon: React.ReactNode; items: string[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium text-[#cdd6f4]">
+        {icon}
+        {title}
+        <span className="text-xs text-[#6c7086]">({items.length})</span>
+      </div>
+      <ul className="space-y-1">
+        {items.map((item, i) => (
+          <li key={i} className="text-xs text-[#a6adc8] bg-[#181825] border border-[#313244] rounded-md px-3 py-1.5">
+            {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ImportReportModal({ report, onClose }: ImportReportModalProps) {
+  if (!report) return null;
+
+  const issues = report.constraints.filter((c) => c.severity !== 'info');
+  const errors = issues.filter((c) => c.severity === 'error').map((c) => c.message);
+  const warnings = [...report.warnings, ...issues.filter((c) => c.severity === 'warning').map((c) => c.message)];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="w-[600px] max-h-[80vh] bg-[#1e1e2e] rounded-xl shadow-2xl border border-[#313244] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-[#313244]">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-gradient-to-br from-blue-500/20 to-cyan-500/20">
+              <FolderOpen className="w-5 h-5 text-blue-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-[#cdd6f4]">Import Report</h2>
+              <p className="text-xs text-[#6c7086]">
+                {report.format ? formatLabels[report.format] : 'Nothing imported'} · {report.files.join(', ')}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-[#313244] transition-colors"
+          >
+            <X className="w-5 h-5 text-[#6c7086]" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <Section title="Dropped" icon={<Trash2 className="w-4 h-4 text-red-400" />} items={report.dropped} />
+          <Section title="Errors" icon={<AlertCircle className="w-4 h-4 text-red-400" />} items={errors} />
+          <Section title="Warnings" icon={<AlertTriangle className="w-4 h-4 text-yellow-400" />} items={warnings} />
+          <Section title="Migrated" icon={<Wand2 className="w-4 h-4 text-purple-400" />} items={report.migrated} />
+          {report.format && report.dropped.length + errors.length + warnings.length + report.migrated.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-[#a6adc8]">
+              <Info className="w-4 h-4 text-blue-400" />
+              Imported without changes.
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end px-6 py-4 border-t border-[#313244]">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {report.format ? 'Continue' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,21 +8,34 @@ import {
   AlertTriangle,
   Check,
   Puzzle,
+  GitBranch,
+  Repeat,
 } from 'lucide-react';
-import type { AgentNode, AgentPatternType, ConfigField, DeepRAGConfig, BatchTransformConfig } from '../types';
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, AgentPatternType, ConfigField, DeepRAGConfig, BatchTransformConfig, LoopConfig } from '../types';
 import { nodeConfigs } from '../utils/nodeConfig';
+import { getBranchOptions, getEdgeCondition, isBranchingNode } from '../utils/branching';
+import { getLoopConfig, isLoopEdge } from '../utils/loops';
 import Editor from '@monaco-editor/react';
 import { DeepRAGEditor, BatchTransformEditor } from './PatternEditors';
 
 interface PropertiesPanelProps {
   node: AgentNode | null;
+  nodes?: AgentNode[];
+  edges?: Edge[];
   onUpdate: (nodeId: string, data: Partial<AgentNode['data']>) => void;
+  onEdgeConditionChange?: (edgeId: string, condition: string | undefined) => void;
+  onLoopChange?: (edgeId: string, loop: LoopConfig) => void;
   onClose: () => void;
 }
 
 export default function PropertiesPanel({
   node,
+  nodes = [],
+  edges = [],
   onUpdate,
+  onEdgeConditionChange,
+  onLoopChange,
   onClose,
 }: PropertiesPanelProps) {
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -35,6 +48,9 @@ export default function PropertiesPanel({
   const advancedFields = config.configSchema.filter((f) => f.advanced);
   const isPatternNode = config.isPattern;
   const nodeType = node.data.type as AgentPatternType;
+  const outgoingEdges = isBranchingNode(node) ? edges.filter((e) => e.source === node.id && !isLoopEdge(e)) : [];
+  const loopEdges = edges.filter((e) => e.source === node.id && isLoopEdge(e));
+  const branchOptions = getBranchOptions(node);
 
   const handleConfigChange = (key: string, value: unknown) => {
     onUpdate(node.id, {
@@ -203,6 +219,92 @@ export default function PropertiesPanel({
               </>
             )}
 
+            {/* Branches - bind outgoing edges to the values this node routes on */}
+            {outgoingEdges.length > 0 && (
+              <div>
+                <label className="block text-xs font-medium text-[#a6adc8] mb-1">
+                  Branches
+                </label>
+                <p className="text-xs text-[#6c7086] mb-2">
+                  Only the edge matching this node's branch runs. Edges without a branch are the fallback.
+                </p>
+                <div className="space-y-2">
+                  {outgoingEdges.map((edge) => {
+                    const condition = getEdgeCondition(edge);
+                    const target = nodes.find((n) => n.id === edge.target);
+                    return (
+                      <div key={edge.id} className="flex items-center gap-2">
+                        <GitBranch className="w-3.5 h-3.5 text-[#6c7086] flex-shrink-0" />
+                        <span className="flex-1 text-xs text-[#cdd6f4] truncate">
+                          → {target?.data.label ?? edge.target}
+                        </span>
+                        <select
+                          value={condition ?? ''}
+                          onChange={(e) => onEdgeConditionChange?.(edge.id, e.target.value || undefined)}
+                          className="w-32 px-2 py-1 bg-[#1e1e2e] border border-[#313244] rounded-md text-xs text-[#cdd6f4] focus:outline-none focus:border-blue-500"
+                        >
+                          <option value="">Fallback</option>
+                          {branchOptions.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                          {condition && !branchOptions.includes(condition) && (
+                            <option value={condition}>{condition}</option>
+                          )}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Loops - edges from this node back to an upstream node */}
+            {loopEdges.length > 0 && (
+              <div>
+                <label className="block text-xs font-medium text-[#a6adc8] mb-1">
+                  Loops
+                </label>
+                <p className="text-xs text-[#6c7086] mb-2">
+                  Re-runs the nodes back to the loop's target until the exit field of this node's result is true.
+                </p>
+                <div className="space-y-3">
+                  {loopEdges.map((edge) => {
+                    const loop = getLoopConfig(edge)!;
+                    const target = nodes.find((n) => n.id === edge.target);
+                    return (
+                      <div key={edge.id} className="space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Repeat className="w-3.5 h-3.5 text-[#6c7086] flex-shrink-0" />
+                          <span className="flex-1 text-xs text-[#cdd6f4] truncate">
+                            → {target?.data.label ?? edge.target}
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2 pl-5">
+                          <input
+                            type="number"
+                            min={1}
+                            value={loop.maxIterations}
+                            onChange={(e) => onLoopChange?.(edge.id, { ...loop, maxIterations: Number(e.target.value) })}
+                            title="Max iterations"
+                            className="w-16 px-2 py-1 bg-[#1e1e2e] border border-[#313244] rounded-md text-xs text-[#cdd6f4] focus:outline-none focus:border-blue-500"
+                          />
+                          <input
+                            type="text"
+                            value={loop.exitWhen ?? ''}
+                            onChange={(e) => onLoopChange?.(edge.id, { ...loop, exitWhen: e.target.value || undefined })}
+                            placeholder="Exit field, e.g. passed"
+                            className="flex-1 min-w-0 px-2 py-1 bg-[#1e1e2e] border border-[#313244] rounded-md text-xs text-[#cdd6f4] placeholder-[#45475a] focus:outline-none focus:border-blue-500"
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Validation Errors */}
             {node.data.validationErrors && node.data.validationErrors.length > 0 && (
               <div className="p-3 rounded-md bg-red-500/10 border border-red-500/30">
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Bot, AlertCircle } from 'lucide-react';
+import type { MockResponse, ModelProviderId, ProviderSettings } from '../types/providers';
+import { getModelProviders } from '../utils/modelProviders';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#1e1e2e] border border-[#313244] rounded-md text-sm text-[#cdd6f4] placeholder-[#45475a] focus:outline-none focus:border-blue-500';
+
+const MOCK_PLACEHOLDER = `[
+  { "match": "refund", "response": "Refunds take 5 days." },
+  { "match": "/order #\\\\d+/i", "response": "Order found." }
+]`;
+
+export default function ProviderSettingsPanel({ settings, onChange }: ProviderSettingsPanelProps) {
+  const [mockJson, setMockJson] = useState(() =>
+    settings.mockResponses.length > 0 ? JSON.stringify(settings.mockResponses, null, 2) : ''
+  );
+  const [mockError, setMockError] = useState<string | null>(null);
+
+  const providers = getModelProviders();
+  const update = (patch: Partial<ProviderSettings>) => onChange({ ...settings, ...patch });
+
+  const handleMockChange = (json: string) => {
+    setMockJson(json);
+    try {
+      const parsed = json.trim() ? JSON.parse(json) : [];
+      if (!Array.isArray(parsed) || parsed.some((r) => typeof r?.match !== 'string' || typeof r?.response !== 'string')) {
+        throw new Error('Expected an array of { "match": string, "response": string }');
+      }
+      setMockError(null);
+      update({ mockResponses: parsed as MockResponse[] });
+    } catch (e) {
+      setMockError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col bg-[#181825] p-4">
+      <h3 className="text-sm font-semibold text-[#cdd6f4] mb-4">Settings</h3>
+
+      <div className="flex items-center gap-2 mb-3">
+        <Bot className="w-4 h-4 text-purple-400" />
+        <span className="text-xs font-semibold uppercase tracking-wide text-[#a6adc8]">Model Provider</span>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-xs text-[#6c7086] mb-1">Provider</label>
+          <select
+            value={settings.providerId}
+            onChange={(e) => update({ providerId: e.target.value as ModelProviderId })}
+            className={inputClass}
+          >
+            {providers.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-[#6c7086] mt-1">
+            {providers.find((p) => p.id === settings.providerId)?.description}
+          </p>
+        </div>
+
+        {settings.providerId === 'openai' && (
+          <>
+            <div>
+              <label className="block text-xs text-[#6c7086] mb-1">Base URL</label>
+              <input
+                type="text"
+                value={settings.baseUrl}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder="https://api.openai.com/v1"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-[#6c7086] mb-1">API Key</label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                placeholder="sk-..."
+                className={inputClass}
+              />
+              <p className="flex items-start gap-1 text-xs text-amber-400 mt-1">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                Saved in plain text in this browser's localStorage, where any script on this page can read it. Prefer a
+                restricted or short-lived key.
+              </p>
+            </div>
+          </>
+        )}
+
+        <div>
+          <label className="block text-xs text-[#6c7086] mb-1">Model Override</label>
+          <input
+            type="text"
+            value={settings.modelOverride}
+            onChange={(e) => update({ modelOverride: e.target.value })}
+            placeholder="Use each node's model"
+            className={inputClass}
+          />
+        </div>
+
+        {settings.providerId === 'mock' && (
+          <div>
+            <label className="block text-xs text-[#6c7086] mb-1">Canned Responses</label>
+            <textarea
+              value={mockJson}
+              onChange={(e) => handleMockChange(e.target.value)}
+              placeholder={MOCK_PLACEHOLDER}
+              rows={10}
+              className={`${inputClass} font-mono text-xs resize-y`}
+            />
+            {mockError ? (
+              <p className="flex items-center gap-1 text-xs text-red-400 mt-1">
+                <AlertCircle className="w-3 h-3" />
+                {mockError}
+              </p>
+            ) : (
+              <p className="text-xs text-[#6c7086] mt-1">
+                Matched against the prompt as a substring or /regex/; unmatched prompts are echoed
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -36,6 +36,7 @@ import {
   FileEdit,
   Stethoscope,
   MessageCircle,
+  Merge,
   type LucideProps,
 } from 'lucide-react';
 import type { AgentPatternType, SyncStatus } from '../types';
@@ -72,6 +73,8 @@ const iconMap: Record<string, React.FC<LucideProps>> = {
   FileEdit,
   Stethoscope,
   MessageCircle,
+  // Control flow nodes
+  Merge,
 };
 
 type SidebarTab = 'nodes' | 'arguments';
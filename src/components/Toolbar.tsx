@@ -1,6 +1,8 @@
+import { useRef } from 'react';
 import {
   Play,
   Save,
+  FolderOpen,
   Undo,
   Redo,
   ZoomIn,
@@ -29,6 +31,7 @@ interface ToolbarProps {
   onFitView: () => void;
   onAutoLayout: () => void;
   onSave: () => void;
+  onOpen?: (files: File[]) => void;
   onRun: () => void;
   onEvaluate: () => void;
   canUndo?: boolean;
@@ -36,6 +39,7 @@ interface ToolbarProps {
   onUndo?: () => void;
   onRedo?: () => void;
   syncStatus?: SyncStatus;
+  syncIssueCount?: number;
   onForceSync?: () => void;
 }
 
@@ -66,14 +70,14 @@ const SYNC_STATUS_CONFIG: Record<SyncStatus, {
     icon: <ArrowLeftRight className="w-3.5 h-3.5" />,
     color: 'text-amber-400',
     bgColor: 'bg-amber-500/10 border-amber-500/30',
-    description: 'Code has changes not in visual',
+    description: 'Code has changes not in visual - click to apply',
   },
   conflict: {
     label: 'Conflict',
     icon: <AlertCircle className="w-3.5 h-3.5" />,
     color: 'text-red-400',
     bgColor: 'bg-red-500/10 border-red-500/30',
-    description: 'Conflicting changes detected',
+    description: 'Edited code violates the Compilation Success Contract',
   },
   code_only: {
     label: 'Code Only',
@@ -99,6 +103,7 @@ export default function Toolbar({
   onFitView,
   onAutoLayout,
   onSave,
+  onOpen,
   onRun,
   onEvaluate,
   canUndo,
@@ -106,9 +111,11 @@ export default function Toolbar({
   onUndo,
   onRedo,
   syncStatus = 'synced',
+  syncIssueCount,
   onForceSync,
 }: ToolbarProps) {
   const statusConfig = SYNC_STATUS_CONFIG[syncStatus];
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   return (
     <div className="h-12 bg-[#181825] border-b border-[#313244] flex items-center justify-between px-4">
@@ -121,6 +128,28 @@ export default function Toolbar({
           <Save className="w-4 h-4" />
           Save
         </button>
+        {onOpen && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-2 rounded hover:bg-[#313244] transition-colors"
+              title="Open project (select the .flow.json, .layout.json and/or .py files)"
+            >
+              <FolderOpen className="w-4 h-4 text-[#6c7086]" />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.py"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                onOpen(Array.from(e.target.files ?? []));
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
 
         {/* Sync Status Indicator */}
         <div className="w-px h-6 bg-[#313244] mx-2" />
@@ -131,6 +160,9 @@ export default function Toolbar({
         >
           {statusConfig.icon}
           <span>{statusConfig.label}</span>
+          {syncIssueCount ? (
+            <span className="px-1.5 rounded-full bg-current/20 text-[10px]">{syncIssueCount}</span>
+          ) : null}
         </div>
 
         <div className="w-px h-6 bg-[#313244] mx-2" />
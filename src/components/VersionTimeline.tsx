@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { GitCommit, History, RotateCcw, AlertTriangle, RefreshCw } from 'lucide-react';
+import type { ExecutionRun, FlowVersion, FlowVersionSource } from '../types/execution';
+import { loadEvaluationRuns } from '../utils/datasetManager';
+import { diffFlowVersions, formatVersionHash, summarizeFlowVersionDiff } from '../utils/flowVersions';
+import { hasChanges, trimDiffContext } from '../utils/textDiff';
+
+interface VersionTimelineProps {
+  versions: FlowVersion[]; // Newest first
+  runs: ExecutionRun[];
+  onRestore: (version: FlowVersion) => void;
+}
+
+const SOURCE_STYLES: Record<FlowVersionSource, { label: string; className: string }> = {
+  save: { label: 'Save', className: 'text-blue-400 bg-blue-500/10' },
+  run: { label: 'Run', className: 'text-green-400 bg-green-500/10' },
+  evaluation: { label: 'Eval', className: 'text-purple-400 bg-purple-500/10' },
+};
+
+export default function VersionTimeline({ versions, runs, onRestore }: VersionTimelineProps) {
+  const [expandedHash, setExpandedHash] = useState<string | null>(null);
+  const [compareHash, setCompareHash] = useState(''); // '' diffs against the previous version, 'none' shows the snapshot
+
+  // Evaluation runs live in local storage, read when the view opens and on refresh
+  const [evaluationRuns, setEvaluationRuns] = useState(loadEvaluationRuns);
+
+  const toggle = (hash: string) => {
+    setExpandedHash(expandedHash === hash ? null : hash);
+    setCompareHash('');
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-[#181825] p-4 overflow-y-auto">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-sm font-semibold text-[#cdd6f4]">Flow Versions</h3>
+        <button
+          onClick={() => setEvaluationRuns(loadEvaluationRuns())}
+          className="text-[#6c7086] hover:text-[#cdd6f4]"
+          title="Refresh evaluation results"
+        >
+          <RefreshCw className="w-3 h-3" />
+        </button>
+      </div>
+      <p className="text-xs text-[#6c7086] mb-4">
+        Saves, runs and evaluations record the version of the flow they used. Moving nodes keeps the version.
+      </p>
+
+      {versions.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-8 text-[#6c7086]">
+          <History className="w-8 h-8 mb-2 opacity-50" />
+          <p className="text-sm">No versions yet</p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {versions.map((version, index) => {
+          const style = SOURCE_STYLES[version.source];
+          const versionRuns = runs.filter(r => r.flowVersion === version.hash);
+          const evaluations = evaluationRuns.filter(r => r.flowVersion === version.hash && r.status === 'completed');
+          const latestEvaluation = evaluations[0];
+          const expanded = expandedHash === version.hash;
+
+          const previous = versions[index + 1];
+          const other = compareHash === 'none'
+            ? undefined
+            : compareHash
+              ? versions.find(v => v.hash === compareHash)
+              : previous;
+          const diff = expanded && other ? diffFlowVersions(other, version) : null;
+
+          return (
+            <div key={version.hash} className="rounded-lg border border-[#313244]">
+              <button
+                onClick={() => toggle(version.hash)}
+                className="w-full px-3 py-2 text-left hover:bg-[#1e1e2e] rounded-lg"
+              >
+                <div className="flex items-center gap-2">
+                  <GitCommit className="w-4 h-4 text-[#6c7086] flex-shrink-0" />
+                  <span className="font-mono text-xs text-[#cdd6f4]">{formatVersionHash(version.hash)}</span>
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] ${style.className}`}>{style.label}</span>
+                  <span className="ml-auto text-[10px] text-[#6c7086]">{new Date(version.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-xs text-[#6c7086] mt-1">
+                  {version.nodeCount} nodes · {version.edgeCount} edges · {versionRuns.length} runs · {evaluations.length} evaluations
+                </p>
+                {latestEvaluation && (
+                  <p className="flex items-center gap-1 text-xs text-[#a6adc8] mt-1">
+                    Latest eval: {(latestEvaluation.summary.averageScore * 100).toFixed(1)}% score,{' '}
+                    {(latestEvaluation.summary.passRate * 100).toFixed(0)}% passed
+                    {latestEvaluation.summary.regressionDetected && (
+                      <span className="flex items-center gap-1 text-red-400">
+                        <AlertTriangle className="w-3 h-3" />
+                        regression
+                      </span>
+                    )}
+                  </p>
+                )}
+              </button>
+
+              {expanded && (
+                <div className="px-3 pb-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={compareHash}
+                      onChange={(e) => setCompareHash(e.target.value)}
+                      className="flex-1 px-2 py-1 bg-[#1e1e2e] border border-[#313244] rounded text-[#cdd6f4] text-xs"
+                    >
+                      <option value="">
+                        {previous ? `Diff with previous (${formatVersionHash(previous.hash)})` : 'First version'}
+                      </option>
+                      <option value="none">Show snapshot</option>
+                      {versions
+                        .filter(v => v.hash !== version.hash && v.hash !== previous?.hash)
+                        .map(v => (
+                          <option key={v.hash} value={v.hash}>
+                            Diff with {formatVersionHash(v.hash)} ({new Date(v.createdAt).toLocaleString()})
+                          </option>
+                        ))}
+                    </select>
+                    <button
+                      onClick={() => onRestore(version)}
+                      className="flex items-center gap-1 px-2 py-1 rounded bg-[#313244] hover:bg-[#45475a] text-xs text-[#cdd6f4]"
+                      title="Replace the canvas with this version"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      Restore
+                    </button>
+                  </div>
+
+                  {diff && (
+                    <>
+                      <p className="text-xs text-[#a6adc8]">{summarizeFlowVersionDiff(diff)}</p>
+                      {[
+                        ...diff.addedNodes.map(label => `+ ${label}`),
+                        ...diff.removedNodes.map(label => `- ${label}`),
+                        ...diff.changedNodes.map(label => `~ ${label}`),
+                      ].map((line, i) => (
+                        <p key={i} className="text-xs text-[#6c7086] truncate">{line}</p>
+                      ))}
+                      {hasChanges(diff.lines) && (
+                        <pre className="p-2 max-h-64 overflow-auto rounded bg-[#1e1e2e] text-xs font-mono">
+                          {trimDiffContext(diff.lines).map((line, i) => (
+                            <div
+                              key={i}
+                              className={
+                                line.type === 'added'
+                                  ? 'text-green-400 bg-green-500/10'
+                                  : line.type === 'removed'
+                                    ? 'text-red-400 bg-red-500/10'
+                                    : line.type === 'skipped'
+                                      ? 'text-[#45475a] italic'
+                                      : 'text-[#6c7086]'
+                              }
+                            >
+                              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                              {line.text}
+                            </div>
+                          ))}
+                        </pre>
+                      )}
+                    </>
+                  )}
+
+                  {!other && (
+                    <pre className="p-2 max-h-64 overflow-auto rounded bg-[#1e1e2e] text-xs font-mono text-[#a6adc8]">
+                      {version.flow}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
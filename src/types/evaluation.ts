@@ -19,7 +19,11 @@ export type EvaluatorType =
   | 'context_precision'
   | 'llm_judge_output'
   | 'llm_judge_trajectory'
-  | 'trajectory_match';
+  | 'trajectory_match'
+  | CustomEvaluatorType;
+
+// User-defined evaluators are registered as `custom:<definition id>`
+export type CustomEvaluatorType = `custom:${string}`;
 
 export type EvaluationStatus = 'pending' | 'running' | 'completed' | 'failed';
 
@@ -95,9 +99,27 @@ export interface LLMJudgeTrajectoryConfig extends EvaluatorConfig {
     expectedSteps?: string[];
     allowExtraSteps: boolean;
     evaluateReasoning: boolean;
+    criteria?: string[]; // Replaces the path (and reasoning) criteria
+    rubric?: string;
+    scoreScale?: number;
   };
 }
 
+// Where LLM judge evaluators send their prompts
+export type JudgeProviderId = 'stub' | 'openai';
+
+export interface JudgeSettings {
+  providerId: JudgeProviderId;
+  baseUrl: string; // OpenAI-compatible endpoint for the judge model
+  apiKey: string;
+}
+
+export const DEFAULT_JUDGE_SETTINGS: JudgeSettings = {
+  providerId: 'stub',
+  baseUrl: 'https://api.openai.com/v1',
+  apiKey: '',
+};
+
 export interface TrajectoryMatchConfig extends EvaluatorConfig {
   type: 'trajectory_match';
   config: {
@@ -108,6 +130,35 @@ export interface TrajectoryMatchConfig extends EvaluatorConfig {
   };
 }
 
+// ============================================
+// Custom Evaluators
+// ============================================
+
+export type CustomEvaluatorKind = 'javascript' | 'assertion' | 'json_schema';
+
+export type AssertionOperator = 'matches' | 'equals_expected' | 'exists';
+
+// Saved with the project; fields not used by the kind keep their defaults
+export interface CustomEvaluatorDefinition {
+  id: string;
+  name: string;
+  description: string;
+  kind: CustomEvaluatorKind;
+  code: string; // javascript: function with the evaluator signature (actual, expected, config, context)
+  path: string; // assertion: JSONPath into the actual output, e.g. $.lines[*].amount
+  operator: AssertionOperator;
+  pattern: string; // assertion: regex the selected values must match, /pattern/flags or plain
+  schema: string; // json_schema: JSON Schema the actual output must conform to
+  threshold: number; // 0-1, the pass mark for scores without an explicit verdict
+}
+
+export const DEFAULT_CUSTOM_EVALUATOR_CODE = `async (actual, expected, config, context) => {
+  // Return a score from 0 to 1, true/false, or { score, passed, reasoning }
+  const total = actual.total ?? 0;
+  const lines = (actual.lines ?? []).reduce((sum, line) => sum + line.amount, 0);
+  return { score: Math.abs(total - lines) < 0.01 ? 1 : 0, reasoning: \`total \${total}, lines \${lines}\` };
+}`;
+
 // ============================================
 // Dataset Types
 // ============================================
@@ -208,10 +259,18 @@ export interface EvaluatorResult {
     diff?: unknown;
     reasoning?: string; // For LLM judge
     breakdown?: Record<string, number>; // Sub-scores
+    judge?: JudgeUsage; // For LLM judge
   };
   latencyMs: number;
 }
 
+export interface JudgeUsage {
+  model: string;
+  tokensInput: number;
+  tokensOutput: number;
+  cost?: number; // USD, when the judge model has a price
+}
+
 export interface TestCaseResult {
   dataPointId: string;
   input: Record<string, unknown>;
@@ -222,6 +281,7 @@ export interface TestCaseResult {
   passed: boolean;
   executionTimeMs: number;
   error?: string;
+  trial?: number; // 1-based, set when each data point runs several times
 }
 
 export interface EvaluationRun {
@@ -234,7 +294,7 @@ export interface EvaluationRun {
   completedAt?: string;
   results: TestCaseResult[];
   summary: EvaluationSummary;
-  flowVersion?: string; // For versioning
+  flowVersion?: string; // Hash of the flow version that was evaluated
 }
 
 export interface EvaluationSummary {
@@ -246,6 +306,8 @@ export interface EvaluationSummary {
   scoreByEvaluator: Record<string, number>;
   averageLatencyMs: number;
   trajectoryAccuracy?: number;
+  judgeTokens?: number; // Spent by LLM judge evaluators
+  judgeCost?: number;
   regressionDetected?: boolean;
   driftScore?: number; // Compared to baseline
 }
@@ -262,6 +324,26 @@ export interface RunComparison {
   latencyDelta: number;
   regressions: TestCaseRegression[];
   improvements: TestCaseImprovement[];
+  evaluatorDeltas: Record<string, number>; // Mean score change per evaluator in both runs
+  cases: TestCaseComparison[]; // Every data point of either run, for the side-by-side report
+  regressionDetected: boolean;
+}
+
+export type TestCaseChange = 'regression' | 'improvement' | 'unchanged' | 'added' | 'removed';
+
+// Scores are averaged over the trials of each data point
+export interface TestCaseComparison {
+  dataPointId: string;
+  input: Record<string, unknown>;
+  change: TestCaseChange;
+  previousScore?: number;
+  currentScore?: number;
+  delta: number;
+  previousPassRate?: number;
+  currentPassRate?: number;
+  previousOutput?: Record<string, unknown>;
+  currentOutput?: Record<string, unknown>;
+  evaluatorDeltas: Record<string, number>;
 }
 
 export interface TestCaseRegression {
@@ -332,7 +414,7 @@ export const DEFAULT_EVALUATORS: Record<EvaluatorType, Omit<EvaluatorConfig, 'ty
     name: 'LLM Judge (Trajectory)',
     description: 'Uses LLM to evaluate execution path and reasoning',
     weight: 1,
-    config: { model: 'gpt-4', allowExtraSteps: true, evaluateReasoning: true },
+    config: { model: 'gpt-4', allowExtraSteps: true, evaluateReasoning: true, scoreScale: 5 },
   },
   trajectory_match: {
     name: 'Trajectory Match',
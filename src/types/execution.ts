@@ -1,6 +1,9 @@
 // Execution Types for Flow Testing and Tracing
 // Supports input/output arguments, test execution, and trace visualization
 
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, HITLPattern } from './index';
+
 // ============================================
 // Flow Arguments
 // ============================================
@@ -52,7 +55,7 @@ export interface GenerateTestInputConfig {
 // Execution Types
 // ============================================
 
-export type ExecutionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type ExecutionStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
 
 export interface ExecutionRun {
   id: string;
@@ -65,6 +68,7 @@ export interface ExecutionRun {
   error?: string;
   traces: ExecutionTrace[];
   summary: ExecutionSummary;
+  flowVersion?: string; // Hash of the flow version that ran
 }
 
 export interface ExecutionSummary {
@@ -96,10 +100,12 @@ export interface ExecutionTrace {
   // LLM-specific fields
   llmExplanation?: string; // What the node is doing
   reasoning?: string; // LLM reasoning/thinking
+  streamedOutput?: string; // Completion tokens received so far; kept only if the node does not complete
   toolCalls?: ToolCallTrace[];
 
   // Metadata
   metadata: TraceMetadata;
+  attributes?: Record<string, unknown>; // Span attributes of imported OTLP spans that map to no trace field
 
   // Child traces (for nested calls)
   children?: ExecutionTrace[];
@@ -113,6 +119,7 @@ export interface ToolCallTrace {
   status: ExecutionStatus;
   durationMs: number;
   error?: string;
+  attempts?: number; // Including retries
 }
 
 export interface TraceMetadata {
@@ -123,8 +130,146 @@ export interface TraceMetadata {
   tokensTotal?: number;
   cost?: number;
   latencyMs?: number;
+  timeToFirstTokenMs?: number; // From node start to the first streamed token
   retryCount?: number;
   cacheHit?: boolean;
+  iteration?: number; // Pass number when the node runs inside a loop
+  pinned?: boolean; // Output taken from a recorded run instead of executing the node
+  prompt?: string; // User message sent to the model
+  completion?: string; // Final model answer
+  budgetAction?: 'degraded' | 'aborted'; // Set when the run budget changed or stopped this node
+  budgetReason?: string;
+}
+
+// ============================================
+// Cost & Budgets
+// ============================================
+
+// List prices in USD per million tokens
+export interface ModelPricing {
+  model: string; // Exact name or prefix: "gpt-4o" also prices "gpt-4o-2024-08-06"
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type BudgetAction = 'abort' | 'degrade';
+
+// Per-run limits checked before every node; 0 or unset disables a limit
+export interface RunBudget {
+  maxTokens?: number;
+  maxCost?: number; // USD
+  action: BudgetAction; // 'degrade' first switches model and trims prompts, then aborts at the limit
+  degradeAtPercent: number;
+  fallbackModel: string;
+  maxPromptTokens: number;
+}
+
+// ============================================
+// Run History
+// ============================================
+
+export interface RunFilter {
+  status: ExecutionStatus | 'all';
+  node: string; // Name or id of a node the run reached
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  minCost?: number;
+  maxCost?: number;
+  errorText: string; // Matched against the run and trace errors
+  inputText: string; // Matched against the input values
+}
+
+// Limits applied whenever a run is stored; 0 disables a limit
+export interface RunRetention {
+  maxRuns: number;
+  maxAgeDays: number;
+}
+
+// ============================================
+// Flow Versions
+// ============================================
+
+export type FlowVersionSource = 'save' | 'run' | 'evaluation';
+
+// Immutable snapshot of the flow, keyed by the SHA-256 of its logic file
+export interface FlowVersion {
+  hash: string;
+  createdAt: string; // When this content was first recorded
+  source: FlowVersionSource;
+  flow: string; // Logic file as written by Save, without node identities
+  layout: string; // Layout sidecar
+  nodeCount: number;
+  edgeCount: number;
+}
+
+// ============================================
+// Human-in-the-Loop Approvals
+// ============================================
+
+export type ApprovalType = 'single' | 'any' | 'all' | 'sequential';
+
+export type ApprovalDecision = 'approved' | 'rejected' | 'escalated';
+
+export interface ApprovalVote {
+  decision: ApprovalDecision;
+  approver: string;
+  role?: string; // One of the node's authorized roles
+  comment?: string;
+  edits?: Record<string, unknown>; // Parameters changed by the reviewer
+  decidedAt: string;
+}
+
+// What a humanInLoop node waits for when it pauses a run
+export interface PendingApproval {
+  key: string; // Node id, suffixed with the iteration inside loops
+  nodeId: string;
+  nodeName: string;
+  iteration?: number;
+  pattern: HITLPattern;
+  approvalType: ApprovalType;
+  roles: string[];
+  awaitingRoles: string[]; // Roles that can decide next; empty when anyone can
+  payload: Record<string, unknown>; // The node input shown to the reviewer
+  votes: ApprovalVote[];
+  slaMinutes: number;
+  escalationPath?: string;
+}
+
+export interface ApprovalRequest extends PendingApproval {
+  id: string;
+  runId: string;
+  runName: string;
+  requestedAt: string;
+  dueAt: string; // Escalated automatically once passed
+}
+
+// Completed node runs of a paused run, replayed instead of re-executed on resume
+export interface RunCheckpoint {
+  traces: ExecutionTrace[];
+  stores: Record<string, Record<string, unknown>>;
+}
+
+// Everything needed to resume a run after a reload
+export interface PausedRun {
+  run: ExecutionRun;
+  nodes: AgentNode[]; // Flow snapshot taken when the run started
+  edges: Edge[];
+  checkpoint: RunCheckpoint;
+  approvals: Record<string, ApprovalVote[]>; // Votes so far, by approval key
+  request: ApprovalRequest;
+}
+
+// ============================================
+// Debugger
+// ============================================
+
+// A run held before a node by a breakpoint or a step
+export interface DebugPause {
+  runId: string;
+  nodeId: string;
+  nodeName: string;
+  iteration?: number;
+  input: Record<string, unknown>; // Pending input of the node, editable before it runs
 }
 
 // ============================================
@@ -180,6 +325,25 @@ export const DEFAULT_FLOW_ARGUMENTS: FlowArgumentsConfig = {
   ],
 };
 
+export const DEFAULT_RUN_BUDGET: RunBudget = {
+  action: 'abort',
+  degradeAtPercent: 80,
+  fallbackModel: 'gpt-3.5-turbo',
+  maxPromptTokens: 2000,
+};
+
+export const DEFAULT_RUN_FILTER: RunFilter = {
+  status: 'all',
+  node: '',
+  errorText: '',
+  inputText: '',
+};
+
+export const DEFAULT_RUN_RETENTION: RunRetention = {
+  maxRuns: 200,
+  maxAgeDays: 30,
+};
+
 export const DEFAULT_TRACE_VIEW_CONFIG: TraceViewConfig = {
   mode: 'waterfall',
   showMetadata: true,
@@ -34,7 +34,9 @@ export type AgentPatternType =
   | 'synthesis'
   | 'contentCreation'
   | 'diagnosis'
-  | 'feedback';
+  | 'feedback'
+  // Control flow
+  | 'join';
 
 // Node categories - extended to support patterns
 export type NodeCategory =
@@ -79,10 +81,25 @@ export interface AgentNodeData extends Record<string, unknown> {
   codeOverride?: string;
   isValid?: boolean;
   validationErrors?: string[];
+  // Debugger overlay set while rendering; never saved
+  breakpoint?: boolean;
+  debugState?: 'running' | 'paused';
 }
 
 export type AgentNode = Node<AgentNodeData, 'agentNode'>;
 
+// Data carried on flow edges (React Flow `edge.data`)
+export interface FlowEdgeData extends Record<string, unknown> {
+  condition?: string; // Branch value of the source node that activates this edge
+  loop?: LoopConfig; // Set on loop edges, which point back to an upstream node
+}
+
+// Bounded loop carried by a loop edge
+export interface LoopConfig {
+  maxIterations: number;
+  exitWhen?: string; // Result field of the loop's source node that ends the loop when truthy
+}
+
 export interface FlowState {
   nodes: AgentNode[];
   edges: Edge[];
@@ -98,6 +115,16 @@ export interface GeneratedCode {
   warnings: string[];
 }
 
+// Languages/frameworks a flow can be exported to
+export type CodeTargetId = 'python' | 'langgraph' | 'typescript';
+
+export interface TargetCode {
+  target: CodeTargetId;
+  code: string;
+  canRoundTrip: boolean; // Only the Visual-Safe Python target parses back into the canvas
+  warnings: string[];
+}
+
 // ============================================
 // Bidirectional Sync Types (CGIS Architecture)
 // ============================================
@@ -174,7 +201,11 @@ export type ConstraintRule =
   | 'static_topology'     // No dynamic edge creation
   | 'identity_required'   // @agent_node decorator required
   | 'valid_connections'   // Edges reference valid node IDs
-  | 'no_circular_deps';   // Prevent circular dependencies
+  | 'no_circular_deps'    // Prevent circular dependencies
+  | 'bounded_loop'        // Loop edges need an iteration limit and must close a cycle
+  | 'schema_drift'        // Attributes must match the node type's config schema
+  | 'dynamic_tool_call'   // Tools must not be resolved by name at runtime
+  | 'invalid_syntax';     // Source must parse
 
 /**
  * Enhanced flow state with sync tracking
@@ -286,10 +317,13 @@ export interface AgentConfig {
   // Capabilities
   model: string;
   temperature: number;
+  systemPrompt: string;
   tools: AgentTool[];
-  // Memory & Context
+  // Memory & Context (side panel entries, shaped by AgentConfigPanels)
   memoryType: 'none' | 'conversation' | 'episodic' | 'semantic';
   contextWindow: number;
+  memories: Record<string, unknown>[];
+  contextSources: Record<string, unknown>[];
   // Behavior
   reasoningMode: 'react' | 'cot' | 'reflexion';
   maxIterations: number;
@@ -297,6 +331,7 @@ export interface AgentConfig {
   // Human-in-the-loop
   hitlMode: 'never' | 'on_low_confidence' | 'on_destructive' | 'always';
   approvalTimeout: number;
+  escalations: Record<string, unknown>[];
 }
 
 export interface AgentTool {
@@ -0,0 +1,87 @@
+// Model Provider Types
+// Chat completion requests and responses shared by every provider adapter
+
+// ============================================
+// Messages & Tools
+// ============================================
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  toolCalls?: ToolCall[]; // Assistant messages that requested tools
+  toolCallId?: string; // Tool messages answering a call
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// ============================================
+// Requests & Responses
+// ============================================
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  usage: TokenUsage;
+  model: string;
+}
+
+export interface ChatOptions {
+  signal?: AbortSignal;
+  onToken?: (delta: string) => void; // Streams the completion when given
+  onReasoning?: (delta: string) => void; // Reasoning deltas from models that stream their thinking
+}
+
+// ============================================
+// Provider Settings
+// ============================================
+
+export type ModelProviderId = 'mock' | 'openai';
+
+// One canned reply of the mock provider
+export interface MockResponse {
+  match: string; // Substring of the last user message, or /pattern/flags
+  response: string;
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+}
+
+export interface ProviderSettings {
+  providerId: ModelProviderId;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. https://api.openai.com/v1
+  apiKey: string;
+  modelOverride: string; // Replaces the node's model when set
+  mockResponses: MockResponse[];
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'mock',
+  baseUrl: 'https://api.openai.com/v1',
+  apiKey: '',
+  modelOverride: '',
+  mockResponses: [],
+};
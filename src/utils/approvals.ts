@@ -0,0 +1,120 @@
+// Approvals
+// Votes, SLA tracking and storage for runs paused at humanInLoop nodes.
+// A paused run keeps a flow snapshot and checkpoint so it can resume after a reload.
+
+import type {
+  ApprovalDecision,
+  ApprovalRequest,
+  ApprovalType,
+  ApprovalVote,
+  PausedRun,
+  PendingApproval,
+} from '../types/execution';
+
+// ============================================
+// Storage Keys
+// ============================================
+
+const PAUSED_RUNS_STORAGE_KEY = 'afd_paused_runs';
+
+// ============================================
+// Vote Resolution
+// ============================================
+
+export interface ApprovalResolution {
+  decision?: ApprovalDecision; // Unset while more votes are needed
+  awaitingRoles: string[];
+}
+
+// Identifies one pause: a node inside a loop asks again on every iteration
+export function approvalKey(nodeId: string, iteration?: number): string {
+  return iteration ? `${nodeId}#${iteration}` : nodeId;
+}
+
+/**
+ * Combines the votes cast so far. Escalation and any authorized rejection
+ * decide at once; otherwise `single`/`any` need one approval, `all` one per
+ * role, and `sequential` one per role in the listed order. Votes from roles
+ * outside the authorized list are ignored.
+ */
+export function resolveApproval(approvalType: ApprovalType, roles: string[], votes: ApprovalVote[]): ApprovalResolution {
+  if (votes.some((v) => v.decision === 'escalated')) return { decision: 'escalated', awaitingRoles: [] };
+
+  const counted = votes.filter((v) => roles.length === 0 || (v.role !== undefined && roles.includes(v.role)));
+  if (counted.some((v) => v.decision === 'rejected')) return { decision: 'rejected', awaitingRoles: [] };
+  const approvals = counted.filter((v) => v.decision === 'approved');
+
+  if (roles.length === 0 || approvalType === 'single' || approvalType === 'any') {
+    return approvals.length > 0 ? { decision: 'approved', awaitingRoles: [] } : { awaitingRoles: roles };
+  }
+
+  if (approvalType === 'all') {
+    const approvedRoles = new Set(approvals.map((v) => v.role));
+    const awaiting = roles.filter((role) => !approvedRoles.has(role));
+    return awaiting.length > 0 ? { awaitingRoles: awaiting } : { decision: 'approved', awaitingRoles: [] };
+  }
+
+  let step = 0;
+  for (const vote of approvals) {
+    if (vote.role === roles[step]) step++;
+  }
+  return step < roles.length ? { awaitingRoles: [roles[step]] } : { decision: 'approved', awaitingRoles: [] };
+}
+
+// ============================================
+// Requests & SLA
+// ============================================
+
+/**
+ * Turns a pause reported by the interpreter into an inbox entry. When the
+ * same node pauses again for the next approver, the original SLA still applies.
+ */
+export function createApprovalRequest(
+  runId: string,
+  runName: string,
+  pending: PendingApproval,
+  previous?: ApprovalRequest
+): ApprovalRequest {
+  const requestedAt = previous?.requestedAt ?? new Date().toISOString();
+  return {
+    ...pending,
+    id: `${runId}:${pending.key}`,
+    runId,
+    runName,
+    requestedAt,
+    dueAt: new Date(Date.parse(requestedAt) + pending.slaMinutes * 60_000).toISOString(),
+  };
+}
+
+export function isOverdue(request: ApprovalRequest, now = Date.now()): boolean {
+  return request.slaMinutes > 0 && Date.parse(request.dueAt) <= now;
+}
+
+export function createEscalationVote(request: ApprovalRequest): ApprovalVote {
+  return {
+    decision: 'escalated',
+    approver: 'SLA monitor',
+    comment: `No decision within ${request.slaMinutes} minute(s)`,
+    decidedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================
+// Local Storage Operations
+// ============================================
+
+export function savePausedRuns(runs: PausedRun[]): void {
+  localStorage.setItem(PAUSED_RUNS_STORAGE_KEY, JSON.stringify(runs));
+}
+
+export function loadPausedRuns(): PausedRun[] {
+  const stored = localStorage.getItem(PAUSED_RUNS_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    const runs = JSON.parse(stored);
+    return Array.isArray(runs) ? runs : [];
+  } catch (error) {
+    console.error('Failed to load paused runs:', error);
+    return [];
+  }
+}
@@ -0,0 +1,312 @@
+// Autofix Engine
+// Applies the fixes advertised by CodeConstraint.autofixDescription,
+// rewriting either the flow graph or the Python source
+
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, AgentPatternType, CodeConstraint, ConstraintRule } from '../types';
+import { nodeConfigs } from './nodeConfig';
+import { pythonFieldToConfigKey } from './codeGenerator';
+import { parsePythonModule, toPythonLiteral, type PyClass, type PyModule } from './pythonParser';
+import { diffLines, type DiffLine } from './textDiff';
+
+// ============================================
+// Fixer Interface
+// ============================================
+
+/**
+ * What a fix operates on. `code` is null while the code view shows
+ * generated code, in which case only graph fixers apply.
+ */
+export interface AutofixInput {
+  code: string | null;
+  nodes: AgentNode[];
+  edges: Edge[];
+}
+
+export interface Fixer {
+  description: string; // Matches CodeConstraint.autofixDescription
+  target: 'graph' | 'code';
+  safe: boolean; // Safe fixes never discard user intent and may be applied in bulk
+  apply: (constraint: CodeConstraint, input: AutofixInput) => AutofixInput;
+}
+
+export interface AutofixPreview {
+  output: AutofixInput;
+  diff: DiffLine[];
+}
+
+// ============================================
+// Fixer Registry
+// ============================================
+
+const fixerRegistry: Partial<Record<ConstraintRule, Fixer[]>> = {};
+
+export function registerFixer(rule: ConstraintRule, fixer: Fixer): void {
+  fixerRegistry[rule] = [...(fixerRegistry[rule] ?? []), fixer];
+}
+
+/**
+ * Finds the fixer for a constraint. Constraints with a line number come from
+ * the Python contract and get code fixers; the rest are graph constraints.
+ */
+export function getFixer(constraint: CodeConstraint): Fixer | undefined {
+  if (!constraint.canAutofix) return undefined;
+  const target = constraint.line !== undefined ? 'code' : 'graph';
+  return fixerRegistry[constraint.rule as ConstraintRule]?.find(
+    (f) => f.target === target && f.description === constraint.autofixDescription
+  );
+}
+
+export function previewAutofix(constraint: CodeConstraint, input: AutofixInput): AutofixPreview | null {
+  const fixer = getFixer(constraint);
+  if (!fixer) return null;
+
+  const output = fixer.apply(constraint, input);
+  const diff =
+    fixer.target === 'code'
+      ? diffLines(input.code ?? '', output.code ?? '')
+      : diffLines(describeGraph(input), describeGraph(output));
+
+  return { output, diff };
+}
+
+/**
+ * Applies every safe fix. Code fixes run bottom-up so that inserted or
+ * removed lines do not shift the line numbers of fixes still pending.
+ */
+export function applySafeFixes(
+  constraints: CodeConstraint[],
+  input: AutofixInput
+): { output: AutofixInput; applied: CodeConstraint[] } {
+  const fixable = constraints
+    .filter((c) => getFixer(c)?.safe)
+    .sort((a, b) => (b.line ?? 0) - (a.line ?? 0));
+
+  let output = input;
+  const applied: CodeConstraint[] = [];
+  const seen = new Set<string>();
+
+  for (const constraint of fixable) {
+    // Graph fixers repair every occurrence at once
+    const key = constraint.line !== undefined ? `${constraint.rule}:${constraint.line}` : `${constraint.rule}:graph`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    // A fixer that finds nothing to repair (e.g. a malformed tuple) is not reported as applied
+    const next = getFixer(constraint)!.apply(constraint, output);
+    if (hasChanged(output, next)) applied.push(constraint);
+    output = next;
+  }
+
+  return { output, applied };
+}
+
+function hasChanged(before: AutofixInput, after: AutofixInput): boolean {
+  return (
+    before.code !== after.code ||
+    JSON.stringify([before.nodes, before.edges]) !== JSON.stringify([after.nodes, after.edges])
+  );
+}
+
+export function countSafeFixes(constraints: CodeConstraint[]): number {
+  return constraints.filter((c) => getFixer(c)?.safe).length;
+}
+
+// Stable, line-per-element rendering of the graph for preview diffs
+function describeGraph({ nodes, edges }: AutofixInput): string {
+  return [
+    ...nodes.map((n) => `node ${n.id || '(no id)'}  ${n.data.type}  "${n.data.label}"`),
+    ...edges.map((e) => `edge ${e.id}  ${e.source} → ${e.target}`),
+  ].join('\n');
+}
+
+// ============================================
+// Source Helpers
+// ============================================
+
+function editLines(code: string, edit: (lines: string[]) => void): string {
+  const lines = code.split('\n');
+  edit(lines);
+  return lines.join('\n');
+}
+
+function findClassAt(module: PyModule, line: number): PyClass | undefined {
+  return module.classes.find((cls) => {
+    const start = Math.min(cls.line, ...cls.decorators.map((d) => d.line));
+    return line >= start && line <= cls.endLine;
+  });
+}
+
+function classNodeType(cls: PyClass): AgentPatternType | null {
+  const nodeType = cls.decorators.find((d) => d.name === 'agent_node')?.call?.kwargs.node_type;
+  return nodeType?.kind === 'literal' && typeof nodeType.value === 'string' && nodeType.value in nodeConfigs
+    ? (nodeType.value as AgentPatternType)
+    : null;
+}
+
+/**
+ * Picks the node type whose config fields best match a class's attributes
+ */
+function inferNodeType(cls: PyClass): AgentPatternType {
+  let best: AgentPatternType = 'llm';
+  let bestScore = 0;
+
+  for (const [type, config] of Object.entries(nodeConfigs) as [AgentPatternType, (typeof nodeConfigs)[AgentPatternType]][]) {
+    const score = cls.attributes.filter((attr) => pythonFieldToConfigKey(type, attr.name) in config.defaultData).length;
+    if (score > bestScore) {
+      best = type;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function newNodeId(): string {
+  return crypto.randomUUID();
+}
+
+// ============================================
+// Rule: identity_required
+// ============================================
+
+registerFixer('identity_required', {
+  description: 'Add @agent_node decorator',
+  target: 'code',
+  safe: false, // The node type is inferred and should be reviewed
+  apply: (constraint, input) => {
+    const cls = findClassAt(parsePythonModule(input.code ?? ''), constraint.line!);
+    if (!cls) return input;
+
+    const insertAt = Math.min(cls.line, ...cls.decorators.map((d) => d.line));
+    const label = cls.name.replace(/Node$/, '') || cls.name;
+    const decorator = `@agent_node(id="${newNodeId()}", label="${label}", node_type="${inferNodeType(cls)}")`;
+
+    return {
+      ...input,
+      code: editLines(input.code ?? '', (lines) => lines.splice(insertAt - 1, 0, decorator)),
+    };
+  },
+});
+
+registerFixer('identity_required', {
+  description: 'Generate UUID for this node',
+  target: 'code',
+  safe: true,
+  apply: (constraint, input) => ({
+    ...input,
+    code: editLines(input.code ?? '', (lines) => {
+      const index = constraint.line! - 1;
+      const line = lines[index] ?? '';
+      lines[index] = /\bid\s*=/.test(line)
+        ? line.replace(/\bid\s*=\s*("[^"]*"|'[^']*'|[^,)]+)/, `id="${newNodeId()}"`)
+        : line.replace(/agent_node\s*\(/, `agent_node(id="${newNodeId()}", `);
+    }),
+  }),
+});
+
+registerFixer('identity_required', {
+  description: 'Generate UUID for this node',
+  target: 'graph',
+  safe: true,
+  apply: (_constraint, input) => ({
+    ...input,
+    nodes: input.nodes.map((n) => (n.id ? n : { ...n, id: newNodeId() })),
+  }),
+});
+
+// ============================================
+// Rule: valid_connections
+// ============================================
+
+registerFixer('valid_connections', {
+  description: 'Remove invalid edge',
+  target: 'code',
+  safe: true,
+  apply: (constraint, input) => {
+    const module = parsePythonModule(input.code ?? '');
+    const nodeIds = new Set<string>();
+    module.classes.forEach((cls) => {
+      const id = cls.decorators.find((d) => d.name === 'agent_node')?.call?.kwargs.id;
+      if (id?.kind === 'literal' && typeof id.value === 'string') nodeIds.add(id.value);
+    });
+
+    return {
+      ...input,
+      code: editLines(input.code ?? '', (lines) => {
+        const index = constraint.line! - 1;
+        const fixed = (lines[index] ?? '').replace(
+          /\(\s*(["'])([^"']*)\1\s*,\s*(["'])([^"']*)\3\s*(?:,\s*(["'])[^"']*\5\s*)?\)\s*,?/g,
+          (tuple, _q1, source: string, _q2, target: string) =>
+            nodeIds.has(source) && nodeIds.has(target) ? tuple : ''
+        );
+        if (fixed.trim()) {
+          lines[index] = fixed;
+        } else {
+          lines.splice(index, 1);
+        }
+      }),
+    };
+  },
+});
+
+registerFixer('valid_connections', {
+  description: 'Remove invalid edge',
+  target: 'graph',
+  safe: true,
+  apply: (_constraint, input) => {
+    const nodeIds = new Set(input.nodes.map((n) => n.id));
+    return {
+      ...input,
+      edges: input.edges.filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target)),
+    };
+  },
+});
+
+// ============================================
+// Rule: schema_drift
+// ============================================
+
+registerFixer('schema_drift', {
+  description: 'Reset to default value',
+  target: 'code',
+  safe: false, // Replaces the value the user wrote
+  apply: (constraint, input) => {
+    const module = parsePythonModule(input.code ?? '');
+    const cls = findClassAt(module, constraint.line!);
+    const attr = cls?.attributes.find((a) => a.line === constraint.line);
+    const type = cls && classNodeType(cls);
+    const logical = module.lines.find((l) => l.line === constraint.line);
+    if (!attr || !type || !logical) return input;
+
+    const defaultValue = nodeConfigs[type].defaultData[pythonFieldToConfigKey(type, attr.name)];
+
+    return {
+      ...input,
+      code: editLines(input.code ?? '', (lines) => {
+        const indent = lines[logical.line - 1].match(/^\s*/)![0];
+        const annotation = attr.annotation ? `: ${attr.annotation}` : '';
+        lines.splice(
+          logical.line - 1,
+          logical.endLine - logical.line + 1,
+          `${indent}${attr.name}${annotation} = ${toPythonLiteral(defaultValue)}`
+        );
+      }),
+    };
+  },
+});
+
+registerFixer('schema_drift', {
+  description: 'Remove unknown attribute',
+  target: 'code',
+  safe: false, // Deletes code the user wrote
+  apply: (constraint, input) => {
+    const logical = parsePythonModule(input.code ?? '').lines.find((l) => l.line === constraint.line);
+    if (!logical) return input;
+
+    return {
+      ...input,
+      code: editLines(input.code ?? '', (lines) => lines.splice(logical.line - 1, logical.endLine - logical.line + 1)),
+    };
+  },
+});
@@ -0,0 +1,103 @@
+// Conditional Branching
+// Routing nodes emit a "branch" value; edges bound to that value (conditional
+// edges) are the only ones followed. Unbound edges out of a routing node act
+// as the fallback when no condition matches.
+
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, AgentPatternType, FlowEdgeData } from '../types';
+
+// Node types whose generated code returns a "branch" value
+export const BRANCHING_NODE_TYPES: AgentPatternType[] = ['triage', 'rulesRouting', 'humanInLoop'];
+
+export function isBranchingNode(node: AgentNode): boolean {
+  return BRANCHING_NODE_TYPES.includes(node.data.type);
+}
+
+// Textarea fields hold one entry per line; older flows stored them as arrays
+export function toLineList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String).filter(Boolean);
+  return String(value || '').split('\n').map((s) => s.trim()).filter(Boolean);
+}
+
+/**
+ * Branch values a routing node can emit, derived from its config
+ */
+export function getBranchOptions(node: AgentNode): string[] {
+  const config = node.data.config;
+  let options: string[] = [];
+
+  switch (node.data.type) {
+    case 'triage':
+      options = [...toLineList(config.categories), String(config.escalationRoute || '')];
+      break;
+    case 'rulesRouting': {
+      const rules = Array.isArray(config.rules) ? config.rules : [];
+      options = [
+        ...rules.map((rule) => String((rule as Record<string, unknown>)?.route ?? '')),
+        String(config.defaultRoute || ''),
+      ];
+      break;
+    }
+    case 'humanInLoop':
+      options = ['approved', 'rejected', 'escalated'];
+      break;
+  }
+
+  return Array.from(new Set(options.filter(Boolean)));
+}
+
+export function getEdgeCondition(edge: Edge): string | undefined {
+  const condition = (edge.data as FlowEdgeData | undefined)?.condition;
+  return condition || undefined;
+}
+
+/**
+ * Binds an edge to a branch value (or clears the binding) and labels it on the canvas
+ */
+export function withEdgeCondition(edge: Edge, condition: string | undefined): Edge {
+  const data: FlowEdgeData = { ...(edge.data ?? {}), condition: condition || undefined };
+  if (!data.condition) delete data.condition;
+
+  return {
+    ...edge,
+    data,
+    label: condition || undefined,
+  };
+}
+
+export interface BranchDispatch {
+  cases: { condition: string; targets: string[] }[];
+  fallback: string[]; // Targets of unbound edges
+}
+
+/**
+ * Groups a node's outgoing edges by condition. Returns null when the node has
+ * no conditional edges, meaning every successor runs unconditionally.
+ */
+export function getBranchDispatch(nodeId: string, edges: Edge[]): BranchDispatch | null {
+  const outgoing = edges.filter((e) => e.source === nodeId);
+  if (!outgoing.some((e) => getEdgeCondition(e))) return null;
+
+  const cases: BranchDispatch['cases'] = [];
+  const fallback: string[] = [];
+
+  outgoing.forEach((edge) => {
+    const condition = getEdgeCondition(edge);
+    if (!condition) {
+      fallback.push(edge.target);
+      return;
+    }
+    const existing = cases.find((c) => c.condition === condition);
+    if (existing) {
+      existing.targets.push(edge.target);
+    } else {
+      cases.push({ condition, targets: [edge.target] });
+    }
+  });
+
+  return { cases, fallback };
+}
+
+export function hasConditionalEdges(edges: Edge[]): boolean {
+  return edges.some((e) => getEdgeCondition(e));
+}
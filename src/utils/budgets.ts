@@ -0,0 +1,192 @@
+// Budgets
+// Model pricing, per-node and per-run cost accounting, and the run budget
+// checks the interpreter makes before each node and each model call.
+
+import type { ExecutionTrace, ModelPricing, RunBudget } from '../types/execution';
+import { estimateTokens } from './modelProviders';
+
+// ============================================
+// Storage Keys
+// ============================================
+
+const PRICING_STORAGE_KEY = 'afd_model_pricing';
+
+// ============================================
+// Pricing
+// ============================================
+
+// Public list prices; edit them in Settings to match your contract
+export const DEFAULT_MODEL_PRICING: ModelPricing[] = [
+  { model: 'gpt-4', inputPerMillion: 30, outputPerMillion: 60 },
+  { model: 'gpt-4-turbo', inputPerMillion: 10, outputPerMillion: 30 },
+  { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: 'gpt-3.5-turbo', inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  { model: 'claude-3-opus', inputPerMillion: 15, outputPerMillion: 75 },
+  { model: 'claude-3-sonnet', inputPerMillion: 3, outputPerMillion: 15 },
+  { model: 'claude-3-haiku', inputPerMillion: 0.25, outputPerMillion: 1.25 },
+];
+
+// Exact match first, then the longest matching prefix
+export function findPricing(pricing: ModelPricing[], model: string): ModelPricing | undefined {
+  return (
+    pricing.find((p) => p.model === model) ??
+    pricing
+      .filter((p) => p.model && model.startsWith(p.model))
+      .sort((a, b) => b.model.length - a.model.length)[0]
+  );
+}
+
+// Unpriced models have no cost and count toward token limits only
+export function estimateCost(
+  pricing: ModelPricing[],
+  model: string,
+  tokensInput = 0,
+  tokensOutput = 0
+): number | undefined {
+  const price = findPricing(pricing, model);
+  if (!price) return undefined;
+  return (tokensInput * price.inputPerMillion + tokensOutput * price.outputPerMillion) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}
+
+// ============================================
+// Usage Accounting
+// ============================================
+
+export interface Usage {
+  tokens: number;
+  cost: number;
+}
+
+export function getUsage(traces: ExecutionTrace[]): Usage {
+  return traces.reduce(
+    (acc, t) => ({ tokens: acc.tokens + (t.metadata.tokensTotal ?? 0), cost: acc.cost + (t.metadata.cost ?? 0) }),
+    { tokens: 0, cost: 0 }
+  );
+}
+
+// Totals per node across loop iterations, in order of first run
+export function getUsageByNode(traces: ExecutionTrace[]): { nodeId: string; nodeName: string; runs: number; usage: Usage }[] {
+  const byNode = new Map<string, { nodeId: string; nodeName: string; runs: number; usage: Usage }>();
+  traces.forEach((t) => {
+    const entry = byNode.get(t.nodeId) ?? { nodeId: t.nodeId, nodeName: t.nodeName, runs: 0, usage: { tokens: 0, cost: 0 } };
+    const usage = getUsage([t]);
+    byNode.set(t.nodeId, {
+      ...entry,
+      runs: entry.runs + 1,
+      usage: { tokens: entry.usage.tokens + usage.tokens, cost: entry.usage.cost + usage.cost },
+    });
+  });
+  return [...byNode.values()];
+}
+
+// ============================================
+// Budget Checks
+// ============================================
+
+export interface BudgetCheck {
+  action?: 'degraded' | 'aborted';
+  reason?: string;
+}
+
+export function hasBudgetLimits(budget: RunBudget): boolean {
+  return Boolean(budget.maxTokens || budget.maxCost);
+}
+
+/**
+ * Compares the usage so far with the budget. At a limit the next node is
+ * aborted; with the `degrade` action, passing `degradeAtPercent` of a limit
+ * switches model calls to the fallback model with trimmed prompts first.
+ */
+export function checkBudget(budget: RunBudget, usage: Usage): BudgetCheck {
+  const limits = [
+    budget.maxTokens
+      ? { used: usage.tokens, limit: budget.maxTokens, format: (n: number) => `${n.toLocaleString()} tokens` }
+      : null,
+    budget.maxCost ? { used: usage.cost, limit: budget.maxCost, format: formatCost } : null,
+  ].filter((l) => l !== null);
+  const describe = (l: (typeof limits)[number]) => `the run used ${l.format(l.used)} of ${l.format(l.limit)}`;
+
+  const exceeded = limits.find((l) => l.used >= l.limit);
+  if (exceeded) return { action: 'aborted', reason: `Budget exceeded: ${describe(exceeded)}` };
+
+  const low = limits.find((l) => l.used >= (l.limit * budget.degradeAtPercent) / 100);
+  if (budget.action === 'degrade' && low) {
+    return {
+      action: 'degraded',
+      reason: `Budget low: ${describe(low)}; using ${budget.fallbackModel} with prompts cut to ${budget.maxPromptTokens} tokens`,
+    };
+  }
+  return {};
+}
+
+export interface ModelCallPlan extends BudgetCheck {
+  maxTokens?: number; // Output cap that keeps the call inside the budget
+}
+
+/**
+ * Projects one model call before it is sent: the estimated prompt plus the
+ * output it may generate, priced for `model`. A call whose requested output
+ * would overrun the budget is degraded once (with the `degrade` action) and
+ * otherwise gets its output capped to what is left; a prompt that does not
+ * fit at all is aborted.
+ */
+export function planModelCall(
+  budget: RunBudget,
+  usage: Usage,
+  pricing: ModelPricing[],
+  model: string,
+  promptTokens: number,
+  maxTokens?: number
+): ModelCallPlan {
+  const price = findPricing(pricing, model);
+  const caps: number[] = [];
+  if (budget.maxTokens) caps.push(budget.maxTokens - usage.tokens - promptTokens);
+  if (budget.maxCost && price) {
+    const left = budget.maxCost - usage.cost - (promptTokens * price.inputPerMillion) / 1_000_000;
+    caps.push(price.outputPerMillion > 0 ? (left * 1_000_000) / price.outputPerMillion : left < 0 ? 0 : Infinity);
+  }
+  const available = Math.floor(Math.min(Infinity, ...caps));
+  if (!Number.isFinite(available)) return { maxTokens };
+  if (available >= (maxTokens ?? 1)) return { maxTokens: maxTokens ?? available };
+
+  const need = `the ${model} call needs about ${promptTokens.toLocaleString()} prompt tokens${maxTokens ? ` and up to ${maxTokens.toLocaleString()} output tokens` : ''}`;
+  if (budget.action === 'degrade' && model !== budget.fallbackModel) {
+    return {
+      action: 'degraded',
+      reason: `Budget low: ${need}; using ${budget.fallbackModel} with prompts cut to ${budget.maxPromptTokens} tokens`,
+    };
+  }
+  if (available <= 0) return { action: 'aborted', reason: `Budget exceeded: ${need}, more than the run has left` };
+  return { maxTokens: available };
+}
+
+// Keeps the start of the text, where instructions usually are
+export function truncateToTokens(text: string, maxTokens?: number): string {
+  if (!maxTokens || estimateTokens(text) <= maxTokens) return text;
+  return `${text.slice(0, maxTokens * 4)}\n[truncated to fit the run budget]`;
+}
+
+// ============================================
+// Local Storage Operations
+// ============================================
+
+export function loadModelPricing(): ModelPricing[] {
+  const stored = localStorage.getItem(PRICING_STORAGE_KEY);
+  if (!stored) return DEFAULT_MODEL_PRICING;
+  try {
+    const pricing = JSON.parse(stored);
+    return Array.isArray(pricing) ? pricing : DEFAULT_MODEL_PRICING;
+  } catch (error) {
+    console.error('Failed to load model pricing:', error);
+    return DEFAULT_MODEL_PRICING;
+  }
+}
+
+export function saveModelPricing(pricing: ModelPricing[]): void {
+  localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(pricing));
+}
@@ -0,0 +1,480 @@
+// Compilation Success Contract (CSC)
+// Validates edited Python before it is allowed to re-hydrate the visual graph
+
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, AgentPatternType, CodeConstraint, ConstraintRule } from '../types';
+import { nodeConfigs } from './nodeConfig';
+import { parseCodeToFlow, pythonFieldToConfigKey, validateCodeConstraints, type ParsedFlow } from './codeGenerator';
+import { parsePythonModule, parseAssignment, type LogicalLine, type PyClass, type PyModule } from './pythonParser';
+
+// ============================================
+// Contract Result
+// ============================================
+
+export interface ContractResult {
+  passed: boolean; // No errors: the code may re-hydrate the canvas
+  codeOnly: boolean; // Valid, but some regions cannot be represented visually
+  constraints: CodeConstraint[];
+  flow: ParsedFlow | null;
+}
+
+// Warnings under these rules mark code that runs but has no visual equivalent
+const CODE_ONLY_RULES: ConstraintRule[] = ['dynamic_tool_call', 'schema_drift'];
+
+/**
+ * Runs every CSC rule against Python source and returns per-line diagnostics
+ * together with the re-hydrated flow (when the code parses at all).
+ */
+export function validateCompilationContract(
+  code: string,
+  previous?: { nodes: AgentNode[]; edges: Edge[] }
+): ContractResult {
+  const module = parsePythonModule(code);
+  const sourceLines = code.split('\n');
+  const flow = parseCodeToFlow(code, previous);
+
+  const constraints: CodeConstraint[] = [
+    ...module.errors.map((e) => constraint('invalid_syntax', 'error', e.message, e.line)),
+    ...checkTopLevelOnly(module),
+    ...checkIdentity(module),
+    ...checkStaticTopology(module),
+    ...checkConnections(module, sourceLines),
+    ...checkSchemaDrift(module),
+    ...checkDynamicToolCalls(module),
+  ];
+
+  if (flow) {
+    const topologyLine = findTopology(module)?.statement.line;
+    const loopsLine = findTopology(module, 'self._loop_edges')?.statement.line;
+    validateCodeConstraints(flow.nodes, flow.edges)
+      .filter((c) => c.rule === 'no_circular_deps' || c.rule === 'bounded_loop')
+      .forEach((c) => constraints.push({ ...c, line: c.rule === 'bounded_loop' ? loopsLine : topologyLine }));
+  }
+
+  constraints.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+
+  const passed = !constraints.some((c) => c.severity === 'error');
+  const codeOnly = constraints.some(isCodeOnly);
+
+  if (flow && codeOnly) {
+    preserveCodeOnlyNodes(flow, module, constraints.filter(isCodeOnly), sourceLines);
+  }
+
+  return { passed, codeOnly, constraints, flow };
+}
+
+function isCodeOnly(c: CodeConstraint): boolean {
+  return c.severity === 'warning' && CODE_ONLY_RULES.includes(c.rule as ConstraintRule);
+}
+
+/**
+ * Nodes containing code-only regions keep their source as a code override,
+ * so re-hydrating the canvas does not silently drop what cannot be visualized.
+ */
+function preserveCodeOnlyNodes(
+  flow: ParsedFlow,
+  module: PyModule,
+  codeOnly: CodeConstraint[],
+  sourceLines: string[]
+): void {
+  for (const cls of module.classes) {
+    const decorator = cls.decorators.find((d) => d.name === 'agent_node');
+    const id = decorator?.call?.kwargs.id;
+    if (!decorator || id?.kind !== 'literal') continue;
+
+    const node = flow.nodes.find((n) => n.id === id.value);
+    const affected = codeOnly.some((c) => c.line !== undefined && c.line >= cls.line && c.line <= cls.endLine);
+    if (node && affected) {
+      node.data.hasCodeOverride = true;
+      node.data.codeOverride = sourceLines.slice(decorator.line, cls.endLine).join('\n');
+    }
+  }
+}
+
+function constraint(
+  rule: ConstraintRule,
+  severity: CodeConstraint['severity'],
+  message: string,
+  line?: number,
+  autofixDescription?: string
+): CodeConstraint {
+  return {
+    rule,
+    severity,
+    message,
+    line,
+    canAutofix: Boolean(autofixDescription),
+    autofixDescription,
+  };
+}
+
+// ============================================
+// Rule: top_level_only
+// ============================================
+
+function checkTopLevelOnly(module: PyModule): CodeConstraint[] {
+  const results: CodeConstraint[] = [];
+
+  module.lines
+    .filter((l) => l.indent > 0 && /^@agent_node\b/.test(l.text))
+    .forEach((l) => {
+      results.push(
+        constraint('top_level_only', 'error', 'Nodes must be declared at module level, not nested in another block', l.line)
+      );
+    });
+
+  module.functions
+    .filter((fn) => fn.decorators.some((d) => d.name === 'agent_node'))
+    .forEach((fn) => {
+      results.push(
+        constraint('top_level_only', 'error', `@agent_node must decorate a class, not function "${fn.name}"`, fn.line)
+      );
+    });
+
+  return results;
+}
+
+// ============================================
+// Rule: identity_required
+// ============================================
+
+function checkIdentity(module: PyModule): CodeConstraint[] {
+  const results: CodeConstraint[] = [];
+  const seen = new Map<string, number>();
+
+  for (const cls of module.classes) {
+    const decorator = cls.decorators.find((d) => d.name === 'agent_node');
+
+    if (!decorator) {
+      if (looksLikeNode(cls)) {
+        results.push(
+          constraint(
+            'identity_required',
+            'error',
+            `Class "${cls.name}" defines execute() but has no @agent_node decorator`,
+            cls.line,
+            'Add @agent_node decorator'
+          )
+        );
+      }
+      continue;
+    }
+
+    const id = decorator.call?.kwargs.id;
+    if (!id || id.kind !== 'literal' || typeof id.value !== 'string' || !id.value) {
+      results.push(
+        constraint(
+          'identity_required',
+          'error',
+          `Node "${cls.name}" needs a static string id in @agent_node`,
+          decorator.line,
+          'Generate UUID for this node'
+        )
+      );
+    } else if (seen.has(id.value)) {
+      results.push(
+        constraint(
+          'identity_required',
+          'error',
+          `Node id "${id.value}" is already used on line ${seen.get(id.value)}`,
+          decorator.line,
+          'Generate UUID for this node'
+        )
+      );
+    } else {
+      seen.set(id.value, decorator.line);
+    }
+
+    const nodeType = decorator.call?.kwargs.node_type;
+    if (!nodeType || nodeType.kind !== 'literal' || typeof nodeType.value !== 'string') {
+      results.push(
+        constraint('identity_required', 'error', `Node "${cls.name}" needs a static node_type in @agent_node`, decorator.line)
+      );
+    }
+  }
+
+  return results;
+}
+
+function looksLikeNode(cls: PyClass): boolean {
+  return cls.methods.some((m) => m.name === 'execute') && cls.decorators.some((d) => d.name === 'dataclass');
+}
+
+// ============================================
+// Rule: static_topology
+// ============================================
+
+function findOrchestrator(module: PyModule): PyClass | undefined {
+  return module.classes.find((cls) => {
+    const nodeType = cls.decorators.find((d) => d.name === 'agent_node')?.call?.kwargs.node_type;
+    return nodeType?.kind === 'literal' && nodeType.value === 'orchestrator';
+  });
+}
+
+function findTopology(
+  module: PyModule,
+  target: 'self._edge_topology' | 'self._loop_edges' = 'self._edge_topology'
+): { statement: LogicalLine; value: unknown } | null {
+  const orchestrator = findOrchestrator(module);
+  for (const method of orchestrator?.methods ?? []) {
+    for (const statement of method.body) {
+      const assignment = parseAssignment(statement.text);
+      if (assignment?.target === target) {
+        return {
+          statement,
+          value: assignment.value.kind === 'literal' ? assignment.value.value : undefined,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+function checkStaticTopology(module: PyModule): CodeConstraint[] {
+  const results: CodeConstraint[] = [];
+  const topology = findTopology(module);
+  const loops = findTopology(module, 'self._loop_edges');
+
+  if (topology && !Array.isArray(topology.value)) {
+    results.push(
+      constraint('static_topology', 'error', 'Edge topology must be a static list of (source, target) tuples', topology.statement.line)
+    );
+  }
+  if (loops && !Array.isArray(loops.value)) {
+    results.push(
+      constraint('static_topology', 'error', 'Loop edges must be a static list of (source, target, max_iterations) tuples', loops.statement.line)
+    );
+  }
+
+  for (const { statement, methodName } of allMethodStatements(module)) {
+    if (statement === topology?.statement || statement === loops?.statement) continue;
+
+    if (/_(edge_topology|loop_edges)\s*(\.\s*(append|extend|insert|remove|pop|clear)\s*\(|\+=|\[[^\]]*\]\s*=(?!=))/.test(statement.text)) {
+      results.push(
+        constraint('static_topology', 'error', 'Edges cannot be added or removed at runtime', statement.line)
+      );
+    }
+
+    if (methodName !== '__init__' && /self\.nodes\s*(\[[^\]]+\]\s*=(?!=)|\.\s*(update|pop|setdefault)\s*\()/.test(statement.text)) {
+      results.push(
+        constraint('static_topology', 'error', 'Nodes cannot be registered or removed at runtime', statement.line)
+      );
+    }
+
+    for (const match of statement.text.matchAll(/self\.nodes\s*\[\s*([^\]]+?)\s*\]/g)) {
+      if (!/^(["'])[^"']+\1$/.test(match[1])) {
+        results.push(
+          constraint('static_topology', 'error', `Node is selected at runtime via "${match[1]}"`, statement.line)
+        );
+      }
+    }
+  }
+
+  return results;
+}
+
+function allMethodStatements(module: PyModule): { statement: LogicalLine; methodName: string }[] {
+  const functions = [...module.functions, ...module.classes.flatMap((cls) => cls.methods)];
+  return functions.flatMap((fn) => fn.body.map((statement) => ({ statement, methodName: fn.name })));
+}
+
+// ============================================
+// Rule: valid_connections
+// ============================================
+
+function checkConnections(module: PyModule, sourceLines: string[]): CodeConstraint[] {
+  const results: CodeConstraint[] = [];
+  const nodeIds = new Set<string>();
+
+  module.classes.forEach((cls) => {
+    const id = cls.decorators.find((d) => d.name === 'agent_node')?.call?.kwargs.id;
+    if (id?.kind === 'literal' && typeof id.value === 'string') nodeIds.add(id.value);
+  });
+
+  const topology = findTopology(module);
+  if (topology && Array.isArray(topology.value)) {
+    topology.value.forEach((pair) => {
+      if (!Array.isArray(pair) || (pair.length !== 2 && pair.length !== 3) || !pair.every((id) => typeof id === 'string')) {
+        results.push(
+          constraint(
+            'valid_connections',
+            'error',
+            'Each edge must be a (source, target) or (source, target, condition) tuple of strings',
+            topology.statement.line,
+            'Remove invalid edge'
+          )
+        );
+        return;
+      }
+
+      const [source, target] = pair as [string, string];
+      const missing = [source, target].filter((id) => !nodeIds.has(id));
+      if (missing.length > 0) {
+        results.push(
+          constraint(
+            'valid_connections',
+            'error',
+            `Edge "${source}" → "${target}" references non-existent node "${missing[0]}"`,
+            findEdgeLine(sourceLines, topology.statement, source, target),
+            'Remove invalid edge'
+          )
+        );
+      }
+    });
+  }
+
+  const loops = findTopology(module, 'self._loop_edges');
+  if (loops && Array.isArray(loops.value)) {
+    loops.value.forEach((entry) => {
+      const valid =
+        Array.isArray(entry) &&
+        (entry.length === 3 || entry.length === 4) &&
+        typeof entry[0] === 'string' &&
+        typeof entry[1] === 'string' &&
+        typeof entry[2] === 'number' &&
+        (entry.length === 3 || typeof entry[3] === 'string');
+      if (!valid) {
+        results.push(
+          constraint(
+            'valid_connections',
+            'error',
+            'Each loop edge must be a (source, target, max_iterations) or (source, target, max_iterations, exit_when) tuple',
+            loops.statement.line
+          )
+        );
+        return;
+      }
+
+      const [source, target] = entry as [string, string];
+      const missing = [source, target].filter((id) => !nodeIds.has(id));
+      if (missing.length > 0) {
+        results.push(
+          constraint(
+            'valid_connections',
+            'error',
+            `Loop edge "${source}" → "${target}" references non-existent node "${missing[0]}"`,
+            findEdgeLine(sourceLines, loops.statement, source, target)
+          )
+        );
+      }
+    });
+  }
+
+  for (const { statement } of allMethodStatements(module)) {
+    for (const match of statement.text.matchAll(/self\.nodes\s*\[\s*["']([^"']+)["']\s*\]/g)) {
+      if (!nodeIds.has(match[1])) {
+        results.push(
+          constraint('valid_connections', 'error', `Call references non-existent node "${match[1]}"`, statement.line)
+        );
+      }
+    }
+  }
+
+  return results;
+}
+
+function findEdgeLine(sourceLines: string[], statement: LogicalLine, source: string, target: string): number {
+  for (let line = statement.line; line <= statement.endLine; line++) {
+    const text = sourceLines[line - 1] ?? '';
+    if (text.includes(`"${source}"`) && text.includes(`"${target}"`)) return line;
+  }
+  return statement.line;
+}
+
+// ============================================
+// Schema Drift
+// ============================================
+
+function checkSchemaDrift(module: PyModule): CodeConstraint[] {
+  const results: CodeConstraint[] = [];
+
+  for (const cls of module.classes) {
+    const nodeType = cls.decorators.find((d) => d.name === 'agent_node')?.call?.kwargs.node_type;
+    if (nodeType?.kind !== 'literal' || typeof nodeType.value !== 'string' || nodeType.value === 'orchestrator') {
+      continue;
+    }
+
+    if (!(nodeType.value in nodeConfigs)) {
+      results.push(
+        constraint('schema_drift', 'error', `Unknown node type "${nodeType.value}"`, cls.line)
+      );
+      continue;
+    }
+
+    const nodeConfig = nodeConfigs[nodeType.value as AgentPatternType];
+    const knownKeys = new Set([
+      ...Object.keys(nodeConfig.defaultData),
+      ...nodeConfig.configSchema.map((f) => f.key),
+    ]);
+
+    for (const attr of cls.attributes) {
+      const key = pythonFieldToConfigKey(nodeType.value as AgentPatternType, attr.name);
+
+      if (!knownKeys.has(key)) {
+        results.push(
+          constraint(
+            'schema_drift',
+            'warning',
+            `"${attr.name}" is not a ${nodeConfig.label} field and will stay code-only`,
+            attr.line,
+            'Remove unknown attribute'
+          )
+        );
+        continue;
+      }
+
+      if (attr.value?.kind === 'dynamic') {
+        results.push(
+          constraint('schema_drift', 'warning', `"${attr.name}" is computed at runtime and cannot be edited visually`, attr.line)
+        );
+        continue;
+      }
+
+      const expected = nodeConfig.defaultData[key];
+      const actual = attr.value?.value;
+      const isTyped = typeof expected === 'number' || typeof expected === 'boolean';
+      if (isTyped && actual !== null && actual !== undefined && typeof actual !== typeof expected) {
+        results.push(
+          constraint(
+            'schema_drift',
+            'error',
+            `"${attr.name}" must be a ${typeof expected}, found ${attr.value!.raw}`,
+            attr.line,
+            'Reset to default value'
+          )
+        );
+      }
+    }
+  }
+
+  return results;
+}
+
+// ============================================
+// Dynamic Tool Calls
+// ============================================
+
+const DYNAMIC_CALL_PATTERNS: { pattern: RegExp; description: string }[] = [
+  { pattern: /\bgetattr\s*\(/, description: 'getattr() dispatch' },
+  { pattern: /\b(eval|exec|__import__)\s*\(/, description: 'dynamic code evaluation' },
+  { pattern: /\bimportlib\s*\.\s*import_module\s*\(/, description: 'runtime module import' },
+  { pattern: /\b(globals|locals)\s*\(\s*\)\s*\[/, description: 'lookup by name in globals()/locals()' },
+  { pattern: /\btools?\s*\[\s*(?!["'\d])[^\]]+\]\s*\(/, description: 'tool selected by a runtime value' },
+];
+
+function checkDynamicToolCalls(module: PyModule): CodeConstraint[] {
+  const results: CodeConstraint[] = [];
+
+  for (const { statement } of allMethodStatements(module)) {
+    for (const { pattern, description } of DYNAMIC_CALL_PATTERNS) {
+      if (pattern.test(statement.text)) {
+        results.push(
+          constraint('dynamic_tool_call', 'warning', `Dynamic tool call (${description}) cannot be shown visually`, statement.line)
+        );
+        break;
+      }
+    }
+  }
+
+  return results;
+}
@@ -1,6 +1,32 @@
-import type { AgentNode, GeneratedCode, SyncStatus, CodeConstraint } from '../types';
+import type {
+  AgentNode,
+  AgentNodeData,
+  AgentPatternType,
+  GeneratedCode,
+  SyncStatus,
+  CodeConstraint,
+  AgentConfig,
+  DeepRAGConfig,
+  BatchTransformConfig,
+  ContextWriteConfig,
+  ContextSelectConfig,
+  ContextCompressConfig,
+  ContextIsolateConfig,
+} from '../types';
 import type { Edge } from '@xyflow/react';
 import { nodeConfigs } from './nodeConfig';
+import type { ContractResult } from './codeContract';
+import { parsePythonModule, parseAssignment, toPythonLiteral, type PyClass, type PyExpression } from './pythonParser';
+import { getBranchDispatch, getEdgeCondition, hasConditionalEdges, toLineList, withEdgeCondition } from './branching';
+import {
+  getExecutionWaves,
+  getForwardEdges,
+  getLoopConfig,
+  getLoops,
+  validateLoops,
+  withLoop,
+  type FlowLoop,
+} from './loops';
 
 /**
  * Validates code against the "Visual-Safe" Python subset (CGIS Architecture)
@@ -28,7 +54,7 @@ export function validateCodeConstraints(nodes: AgentNode[], edges: Edge[]): Code
   const adj: Record<string, string[]> = {};
 
   nodes.forEach((n) => (adj[n.id] = []));
-  edges.forEach((e) => adj[e.source]?.push(e.target));
+  getForwardEdges(edges).forEach((e) => adj[e.source]?.push(e.target));
 
   const hasCycle = (nodeId: string): boolean => {
     visited.add(nodeId);
@@ -72,38 +98,43 @@ export function validateCodeConstraints(nodes: AgentNode[], edges: Edge[]): Code
     }
   });
 
+  constraints.push(...validateLoops(nodes, edges));
+
   return constraints;
 }
 
 /**
- * Determines sync status based on code and visual state
+ * Determines sync status from the Compilation Success Contract of the edited code.
+ * `codeDraft` is null while the code view still shows the generated code.
  */
 export function determineSyncStatus(
   nodes: AgentNode[],
-  _edges: Edge[],
-  lastVisualEdit: string | null,
-  lastCodeEdit: string | null
+  codeDraft: string | null,
+  contract: ContractResult | null
 ): SyncStatus {
   // Check for code-only regions
   const hasCodeOnlyRegions = nodes.some((n) => n.data.hasCodeOverride);
-  if (hasCodeOnlyRegions) {
-    return 'code_only';
-  }
-
-  // Compare timestamps
-  if (!lastVisualEdit && !lastCodeEdit) return 'synced';
-  if (!lastVisualEdit) return 'code_ahead';
-  if (!lastCodeEdit) return 'visual_ahead';
 
-  const visualTime = new Date(lastVisualEdit).getTime();
-  const codeTime = new Date(lastCodeEdit).getTime();
+  if (!codeDraft || !contract) {
+    return hasCodeOnlyRegions ? 'code_only' : 'synced';
+  }
 
-  if (Math.abs(visualTime - codeTime) < 1000) return 'synced';
-  return visualTime > codeTime ? 'visual_ahead' : 'code_ahead';
+  // Edited code that breaks the contract cannot re-hydrate the canvas
+  if (!contract.passed) return 'conflict';
+  if (contract.codeOnly || hasCodeOnlyRegions) return 'code_only';
+  return 'code_ahead';
 }
 
 // Generate Python code from the visual flow
-export function generatePythonCode(nodes: AgentNode[], edges: Edge[]): GeneratedCode {
+/**
+ * Generates Visual-Safe Python and the flow JSON. `stable` leaves the
+ * generation timestamp out of both so saved files only change when the flow does.
+ */
+export function generatePythonCode(
+  nodes: AgentNode[],
+  edges: Edge[],
+  options: { stable?: boolean } = {}
+): GeneratedCode {
   const warnings: string[] = [];
   let canRoundTrip = true;
 
@@ -148,8 +179,7 @@ export function generatePythonCode(nodes: AgentNode[], edges: Edge[]): Generated
 Agentic Workflow - Generated by Flow Designer
 This code is auto-generated and supports bidirectional editing.
 
-Sync Status: ${canRoundTrip ? 'BIDIRECTIONAL' : 'CODE-ONLY REGIONS DETECTED'}
-Generated: ${syncTimestamp}
+Sync Status: ${canRoundTrip ? 'BIDIRECTIONAL' : 'CODE-ONLY REGIONS DETECTED'}${options.stable ? '' : `\nGenerated: ${syncTimestamp}`}
 Node Count: ${nodes.length}
 Edge Count: ${edges.length}
 
@@ -196,11 +226,11 @@ class AgentWorkflow:
 
     def __init__(self):
         self.nodes = {
-${nodes.map((n) => `            "${n.id}": ${toSnakeCase(n.data.label)}Node(),`).join('\n')}
+${nodes.map((n) => `            "${n.id}": ${toPascalCase(n.data.label)}Node(),`).join('\n')}
         }
         self._edge_topology = [
-${edges.map((e) => `            ("${e.source}", "${e.target}"),`).join('\n')}
-        ]
+${getForwardEdges(edges).map((e) => `            ${toTopologyTuple(e)},`).join('\n')}
+        ]${generateLoopTopology(edges)}
 
     async def run(self, input_data: dict) -> dict:
         """Execute the workflow with the given input."""
@@ -209,7 +239,7 @@ ${edges.map((e) => `            ("${e.source}", "${e.target}"),`).join('\n')}
 ${generateExecutionFlow(nodes, edges)}
 
         return context["results"]
-
+${nodes.some((n) => n.data.type === 'join') ? JOIN_BRANCHES_METHOD : ''}
 
 # ============================================
 # Main Entry Point
@@ -235,7 +265,7 @@ if __name__ == "__main__":
       architecture: 'CGIS', // Constrained Graph-Isomorphic Subset
       sync: {
         status: canRoundTrip ? 'bidirectional' : 'code_only_regions',
-        generatedAt: syncTimestamp,
+        generatedAt: options.stable ? undefined : syncTimestamp,
         canRoundTrip,
         warnings: warnings.length,
       },
@@ -253,6 +283,8 @@ if __name__ == "__main__":
           id: e.id,
           source: e.source,
           target: e.target,
+          ...(getEdgeCondition(e) ? { condition: getEdgeCondition(e) } : {}),
+          ...(getLoopConfig(e) ? { loop: getLoopConfig(e) } : {}),
         })),
       },
       // Visual Metadata Layer (Sidecar Pattern)
@@ -304,6 +336,29 @@ if __name__ == "__main__":
   return { python, json, canRoundTrip, warnings };
 }
 
+// Orchestrator helper used by parallel branches that feed a join node
+const JOIN_BRANCHES_METHOD = `
+    async def _join_branches(self, context: dict, calls: dict, quorum: Optional[int] = None, timeout: float = 60) -> set:
+        """Runs branches concurrently until a quorum finishes (all when None) or the timeout passes."""
+        tasks = {asyncio.ensure_future(call): name for name, call in calls.items()}
+        needed = len(tasks) if quorum is None else min(quorum, len(tasks))
+        finished = set()
+        pending = set(tasks)
+        loop = asyncio.get_running_loop()
+        deadline = loop.time() + timeout
+
+        while pending and len(finished) < needed and loop.time() < deadline:
+            done, pending = await asyncio.wait(pending, timeout=deadline - loop.time(), return_when=asyncio.FIRST_COMPLETED)
+            for task in done:
+                context["results"][tasks[task]] = task.result()
+                finished.add(tasks[task])
+
+        # Branches that did not make the quorum are cancelled; their successors are skipped
+        for task in pending:
+            task.cancel()
+        return finished
+`;
+
 function generateImports(nodes: AgentNode[]): string {
   const imports = new Set<string>();
   imports.add('from typing import Any, Dict, Optional');
@@ -338,6 +393,34 @@ function generateImports(nodes: AgentNode[]): string {
       case 'humanInLoop':
         imports.add('# Human-in-loop requires external approval service');
         break;
+      case 'agent':
+        imports.add('from langchain.tools import Tool');
+        imports.add('from langchain.agents import AgentExecutor');
+        imports.add('from langchain.agents import create_react_agent');
+        break;
+      case 'deepRAG':
+      case 'contextSelect':
+        imports.add('from langchain.vectorstores import VectorStore');
+        imports.add('from langchain.embeddings import OpenAIEmbeddings');
+        break;
+      case 'textSummarization':
+      case 'contextCompress':
+        imports.add('from langchain.chains.summarize import load_summarize_chain');
+        break;
+      case 'tabularReasoning':
+      case 'dataAggregation':
+        imports.add('import pandas as pd');
+        break;
+      case 'documentProcessing':
+        imports.add('from langchain.document_loaders import UnstructuredFileLoader');
+        break;
+      case 'synthesis':
+      case 'contentCreation':
+        imports.add('from langchain.prompts import PromptTemplate');
+        break;
+      case 'diagnosis':
+        imports.add('import statistics');
+        break;
     }
   });
 
@@ -369,6 +452,8 @@ ${node.data.codeOverride}`;
 class ${className}Node:
     """${nodeConfig.description}"""
     trigger_type: str = "${config.triggerType || 'manual'}"
+    schedule: str = ${toPythonLiteral(config.schedule ?? '')}
+    webhook_path: str = ${toPythonLiteral(config.webhookPath ?? '')}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         # Trigger node - passes input through
@@ -382,6 +467,11 @@ class ${className}Node:
     grounding_mode: str = "${config.groundingMode || 'strict'}"
     max_results: int = ${config.maxResults || 5}
     freshness_window: str = "${config.freshnessWindow || '7d'}"
+    prompt: str = ${toTripleQuoted(config.prompt)}
+    sources: list = None
+
+    def __post_init__(self):
+        self.sources = ${toPythonLiteral(config.sources ?? [])}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         query = context.get("input", {}).get("query", "")
@@ -406,8 +496,8 @@ class ${className}Node:
     model: str = "${config.model || 'gpt-4'}"
     temperature: float = ${config.temperature || 0.7}
     max_tokens: int = ${config.maxTokens || 1000}
-    system_prompt: str = """${(config.systemPrompt as string || '').replace(/"/g, '\\"')}"""
-    user_prompt: str = """${(config.prompt as string || '').replace(/"/g, '\\"')}"""
+    system_prompt: str = ${toTripleQuoted(config.systemPrompt)}
+    user_prompt: str = ${toTripleQuoted(config.prompt)}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         # Format prompt with context
@@ -430,6 +520,13 @@ class ${className}Node:
     """${nodeConfig.description}"""
     retry_policy: str = "${config.retryPolicy || 'exponential'}"
     max_retries: int = ${config.maxRetries || 3}
+    timeout: int = ${toPythonLiteral(config.timeout ?? 30000)}
+    tool_selector: str = ${toPythonLiteral(config.toolSelector ?? 'http')}
+    preconditions: str = ${toTripleQuoted(config.preconditions)}
+    tools: list = None
+
+    def __post_init__(self):
+        self.tools = ${toPythonLiteral(config.tools ?? [])}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         # Define available tools
@@ -452,9 +549,14 @@ class ${className}Node:
 @dataclass
 class ${className}Node:
     """${nodeConfig.description}"""
-    objective: str = """${(config.objective as string || '').replace(/"/g, '\\"')}"""
+    objective: str = ${toTripleQuoted(config.objective)}
     max_steps: int = ${config.maxSteps || 10}
     checkpoints_enabled: bool = ${config.checkpoints ? 'True' : 'False'}
+    planning_model: str = ${toPythonLiteral(config.planningModel ?? 'gpt-4')}
+    constraints: list = None
+
+    def __post_init__(self):
+        self.constraints = ${toPythonLiteral(toLineList(config.constraints))}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         plan = []
@@ -482,7 +584,7 @@ class ${className}Node:
     schema: Dict[str, Any] = None
 
     def __post_init__(self):
-        self.schema = ${JSON.stringify(config.schema || {})}
+        self.schema = ${toPythonLiteral(config.schema || {})}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         input_text = str(context.get("input", ""))
@@ -504,11 +606,11 @@ class ${className}Node:
 class ${className}Node:
     """${nodeConfig.description}"""
     confidence_threshold: float = ${config.confidenceThreshold || 0.8}
-    escalation_route: str = "${config.escalationRoute || ''}"
+    escalation_route: str = ${toPythonLiteral(config.escalationRoute ?? '')}
     categories: list = None
 
     def __post_init__(self):
-        self.categories = ${JSON.stringify((config.categories as string || '').split('\n').filter(Boolean))}
+        self.categories = ${toPythonLiteral(toLineList(config.categories))}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         input_data = context.get("input", {})
@@ -518,9 +620,9 @@ class ${className}Node:
         confidence = 0.0
 
         if confidence < self.confidence_threshold:
-            return {"route": self.escalation_route, "needs_review": True}
+            return {"route": self.escalation_route, "needs_review": True, "branch": self.escalation_route}
 
-        return {"classification": classification, "confidence": confidence}`;
+        return {"classification": classification, "confidence": confidence, "branch": classification}`;
 
     case 'memory':
       return `${decorator}
@@ -529,6 +631,10 @@ class ${className}Node:
     """${nodeConfig.description}"""
     memory_scope: str = "${config.memoryScope || 'user'}"
     retention_days: int = ${config.retentionDays || 30}
+    auto_write_triggers: list = None
+
+    def __post_init__(self):
+        self.auto_write_triggers = ${toPythonLiteral(toLineList(config.autoWriteTriggers))}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         # TODO: Implement memory storage/retrieval
@@ -541,24 +647,35 @@ class ${className}Node:
 @dataclass
 class ${className}Node:
     """${nodeConfig.description}"""
+    pattern: str = ${toPythonLiteral(config.pattern ?? 'approval_gate')}
+    condition: str = ${toPythonLiteral(config.condition ?? '')}
     approval_type: str = "${config.approvalType || 'single'}"
     sla_minutes: int = ${config.slaMinutes || 60}
-    escalation_path: str = "${config.escalationPath || ''}"
+    escalation_path: str = ${toPythonLiteral(config.escalationPath ?? '')}
+    roles: list = None
+
+    def __post_init__(self):
+        self.roles = ${toPythonLiteral(toLineList(config.roles))}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         # This requires external approval service integration
         # TODO: Implement approval workflow
 
         # Placeholder: auto-approve for testing
-        return {"approved": True, "approver": "auto"}`;
+        approved = True
+        return {"approved": approved, "approver": "auto", "branch": "approved" if approved else "rejected"}`;
 
     case 'evaluation':
       return `${decorator}
 @dataclass
 class ${className}Node:
     """${nodeConfig.description}"""
-    dataset: str = "${config.dataset || ''}"
+    dataset: str = ${toPythonLiteral(config.dataset ?? '')}
     threshold: float = ${config.threshold || 0.9}
+    metrics: list = None
+
+    def __post_init__(self):
+        self.metrics = ${toPythonLiteral(config.metrics ?? [])}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         # TODO: Implement evaluation logic
@@ -571,6 +688,10 @@ class ${className}Node:
 class ${className}Node:
     """${nodeConfig.description}"""
     output_format: str = "${config.outputFormat || 'json'}"
+    schema: Dict[str, Any] = None
+
+    def __post_init__(self):
+        self.schema = ${toPythonLiteral(config.schema ?? {})}
 
     async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
         results = context.get("results", {})
@@ -582,6 +703,515 @@ class ${className}Node:
         else:
             return results`;
 
+    case 'agent': {
+      const agent = withDefaults<AgentConfig>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    name: str = ${toPythonLiteral(agent.name)}
+    role: str = ${toPythonLiteral(agent.role)}
+    goal: str = ${toTripleQuoted(agent.goal)}
+    model: str = ${toPythonLiteral(agent.model)}
+    temperature: float = ${toPythonLiteral(agent.temperature)}
+    memory_type: str = ${toPythonLiteral(agent.memoryType)}
+    reasoning_mode: str = ${toPythonLiteral(agent.reasoningMode)}
+    max_iterations: int = ${toPythonLiteral(agent.maxIterations)}
+    confidence_threshold: float = ${toPythonLiteral(agent.confidenceThreshold)}
+    hitl_mode: str = ${toPythonLiteral(agent.hitlMode)}
+    approval_timeout: int = ${toPythonLiteral(agent.approvalTimeout)}
+    context_window: int = ${toPythonLiteral(agent.contextWindow)}
+    system_prompt: str = ${toTripleQuoted(agent.systemPrompt)}
+    tools: list = None
+    memories: list = None
+    escalations: list = None
+    context_sources: list = None
+
+    def __post_init__(self):
+        self.tools = ${toPythonLiteral(agent.tools ?? [])}
+        self.memories = ${toPythonLiteral(agent.memories ?? [])}
+        self.escalations = ${toPythonLiteral(agent.escalations ?? [])}
+        self.context_sources = ${toPythonLiteral(agent.contextSources ?? [])}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        observations = []
+        confidence = 0.0
+
+        # TODO: Initialize your agent
+        # tools = [Tool(name=t["name"], description=t["description"], func=...) for t in self.tools]
+        # agent = create_react_agent(llm, tools, prompt)
+
+        for iteration in range(self.max_iterations):
+            # Reason -> act -> observe until the goal is met
+            # step = await agent.ainvoke({"input": context["input"], "steps": observations})
+            break
+
+        needs_approval = self.hitl_mode == "always" or (
+            self.hitl_mode == "on_low_confidence" and confidence < self.confidence_threshold
+        )
+
+        return {"response": "Agent response placeholder", "observations": observations, "needs_approval": needs_approval}`;
+    }
+
+    case 'deepRAG': {
+      const rag = withDefaults<DeepRAGConfig>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    query_type: str = ${toPythonLiteral(rag.queryType)}
+    citation_mode: str = ${toPythonLiteral(rag.citationMode)}
+    evidence_threshold: float = ${toPythonLiteral(rag.evidenceThreshold)}
+    max_sources: int = ${toPythonLiteral(rag.maxSources)}
+    synthesis_instructions: str = ${toTripleQuoted(rag.synthesisInstructions)}
+    follow_up_enabled: bool = ${toPythonLiteral(rag.followUpEnabled)}
+    queries: list = None
+    grounding_sources: list = None
+    scope_filters: list = None
+
+    def __post_init__(self):
+        self.queries = ${toPythonLiteral(toLineList(rag.queries))}
+        self.grounding_sources = ${toPythonLiteral(rag.groundingSources ?? [])}
+        self.scope_filters = ${toPythonLiteral(rag.scopeFilters ?? [])}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        queries = self.queries or [context.get("input", {}).get("query", "")]
+        if self.query_type == "single":
+            queries = queries[:1]
+
+        evidence = []
+        for query in queries:
+            # TODO: Search each grounding source in priority order
+            # results = await vectorstore.similarity_search_with_score(query, k=self.max_sources)
+            results = []  # Placeholder
+            evidence.extend(r for r in results if r["score"] >= self.evidence_threshold)
+
+        evidence = evidence[:self.max_sources]
+
+        # TODO: Synthesize an answer that cites the evidence
+        answer = "Research answer placeholder"
+
+        return {
+            "answer": answer,
+            "citations": evidence,
+            "follow_ups": [] if not self.follow_up_enabled else ["Follow-up placeholder"]
+        }`;
+    }
+
+    case 'batchTransform': {
+      const batch = withDefaults<BatchTransformConfig>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    input_type: str = ${toPythonLiteral(batch.inputType)}
+    batch_size: int = ${toPythonLiteral(batch.batchSize)}
+    parallelism: int = ${toPythonLiteral(batch.parallelism)}
+    grounding_mode: str = ${toPythonLiteral(batch.groundingMode)}
+    confidence_threshold: float = ${toPythonLiteral(batch.confidenceThreshold)}
+    input_schema: list = None
+    output_schema: list = None
+    validation_rules: list = None
+    routing_rules: list = None
+
+    def __post_init__(self):
+        self.input_schema = ${toPythonLiteral(batch.inputSchema ?? [])}
+        self.output_schema = ${toPythonLiteral(batch.outputSchema ?? [])}
+        self.validation_rules = ${toPythonLiteral(batch.validationRules ?? [])}
+        self.routing_rules = ${toPythonLiteral(batch.routingRules ?? [])}
+
+    async def transform_row(self, row: Dict[str, Any]) -> Dict[str, Any]:
+        # TODO: Map input columns to output_schema
+        return {"row": row, "confidence": 1.0}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        rows = context.get("input", {}).get("rows", [])
+        semaphore = asyncio.Semaphore(self.parallelism)
+
+        async def run(row):
+            async with semaphore:
+                return await self.transform_row(row)
+
+        approved, review = [], []
+        for start in range(0, len(rows), self.batch_size):
+            batch = rows[start:start + self.batch_size]
+            for result in await asyncio.gather(*(run(row) for row in batch)):
+                if result["confidence"] >= self.confidence_threshold:
+                    approved.append(result["row"])
+                else:
+                    review.append(result["row"])
+
+        return {"rows": approved, "needs_review": review}`;
+    }
+
+    case 'textSummarization': {
+      const summary = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    summary_length: str = ${toPythonLiteral(summary.summaryLength)}
+    style: str = ${toPythonLiteral(summary.style)}
+    preserve_key_points: bool = ${toPythonLiteral(summary.preserveKeyPoints)}
+    include_metadata: bool = ${toPythonLiteral(summary.includeMetadata)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        text = str(context.get("input", {}).get("text", ""))
+
+        # TODO: Summarize with your LLM
+        # chain = load_summarize_chain(llm, chain_type="map_reduce")
+        summary = "Summary placeholder"
+
+        result = {"summary": summary}
+        if self.include_metadata:
+            result["metadata"] = {"source_length": len(text), "style": self.style}
+        return result`;
+    }
+
+    case 'tabularReasoning': {
+      const tabular = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    analysis_type: str = ${toPythonLiteral(tabular.analysisType)}
+    natural_language_query: str = ${toTripleQuoted(tabular.naturalLanguageQuery)}
+    group_by: list = None
+    calculations: list = None
+
+    def __post_init__(self):
+        self.group_by = ${toPythonLiteral(tabular.groupBy ?? [])}
+        self.calculations = ${toPythonLiteral(tabular.calculations ?? [])}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        df = pd.DataFrame(context.get("input", {}).get("rows", []))
+
+        if self.group_by and not df.empty:
+            df = df.groupby(self.group_by).sum(numeric_only=True).reset_index()
+
+        # TODO: Answer natural_language_query over the table with your LLM
+
+        return {"table": df.to_dict(orient="records"), "analysis_type": self.analysis_type}`;
+    }
+
+    case 'documentProcessing': {
+      const docs = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    processing_mode: str = ${toPythonLiteral(docs.processingMode)}
+    ocr_enabled: bool = ${toPythonLiteral(docs.ocrEnabled)}
+    document_types: list = None
+    extraction_schema: Dict[str, Any] = None
+
+    def __post_init__(self):
+        self.document_types = ${toPythonLiteral(toLineList(docs.documentTypes))}
+        self.extraction_schema = ${toPythonLiteral(docs.extractionSchema ?? {})}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        paths = context.get("input", {}).get("documents", [])
+
+        documents = []
+        for path in paths:
+            # TODO: Load and OCR the document
+            # loader = UnstructuredFileLoader(path, strategy="ocr_only" if self.ocr_enabled else "fast")
+            documents.append({"path": path, "content": ""})
+
+        # TODO: Classify or extract according to processing_mode and extraction_schema
+
+        return {"documents": documents, "mode": self.processing_mode}`;
+    }
+
+    case 'contextWrite': {
+      const write = withDefaults<ContextWriteConfig>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    target_store: str = ${toPythonLiteral(write.targetStore)}
+    key: str = ${toPythonLiteral(write.key)}
+    ttl: Optional[int] = ${toPythonLiteral(write.ttl)}
+    overwrite_policy: str = ${toPythonLiteral(write.overwritePolicy)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        store = context.setdefault("stores", {}).setdefault(self.target_store, {})
+        value = context.get("results", {})
+
+        if self.overwrite_policy == "if_empty" and self.key in store:
+            return {"written": False}
+        if self.overwrite_policy == "append":
+            store.setdefault(self.key, []).append(value)
+        else:
+            store[self.key] = value
+
+        return {"written": True, "key": self.key}`;
+    }
+
+    case 'contextSelect': {
+      const select = withDefaults<ContextSelectConfig>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    source_type: str = ${toPythonLiteral(select.sourceType)}
+    query: str = ${toTripleQuoted(select.query)}
+    max_results: int = ${toPythonLiteral(select.maxResults)}
+    relevance_threshold: float = ${toPythonLiteral(select.relevanceThreshold)}
+    include_metadata: bool = ${toPythonLiteral(select.includeMetadata)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        # TODO: Query the configured source (rag, memory, rules_file, tool_results)
+        # results = await vectorstore.similarity_search_with_score(self.query, k=self.max_results)
+        results = []  # Placeholder
+
+        selected = [r for r in results if r["score"] >= self.relevance_threshold][:self.max_results]
+        if not self.include_metadata:
+            selected = [r["content"] for r in selected]
+
+        return {"selected": selected}`;
+    }
+
+    case 'contextCompress': {
+      const compress = withDefaults<ContextCompressConfig>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    strategy: str = ${toPythonLiteral(compress.strategy)}
+    target_tokens: int = ${toPythonLiteral(compress.targetTokens)}
+    trigger_threshold: float = ${toPythonLiteral(compress.triggerThreshold)}
+    preserve_priority: list = None
+
+    def __post_init__(self):
+        self.preserve_priority = ${toPythonLiteral(toLineList(compress.preservePriority))}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        results = context.get("results", {})
+        preserved = {k: v for k, v in results.items() if k in self.preserve_priority}
+
+        # TODO: Compress the remaining context with the configured strategy
+        # chain = load_summarize_chain(llm) when strategy == "summarize"
+        compressed = {k: v for k, v in results.items() if k not in preserved}
+
+        return {"preserved": preserved, "compressed": compressed, "target_tokens": self.target_tokens}`;
+    }
+
+    case 'contextIsolate': {
+      const isolate = withDefaults<ContextIsolateConfig>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    isolation_mode: str = ${toPythonLiteral(isolate.isolationMode)}
+    propagate_results: bool = ${toPythonLiteral(isolate.propagateResults)}
+    shared_keys: list = None
+
+    def __post_init__(self):
+        self.shared_keys = ${toPythonLiteral(toLineList(isolate.sharedKeys))}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        results = context.get("results", {})
+        if self.isolation_mode == "full":
+            shared = {}
+        else:
+            shared = {k: v for k, v in results.items() if k in self.shared_keys}
+
+        # Child agents only see the shared slice of the parent context
+        isolated = {"input": context.get("input", {}), "results": shared}
+
+        return {"isolated_context": isolated, "propagate": self.propagate_results}`;
+    }
+
+    case 'dataIngestion': {
+      const ingestion = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    source_type: str = ${toPythonLiteral(ingestion.sourceType)}
+    connection_string: str = ${toPythonLiteral(ingestion.connectionString)}
+    schedule: str = ${toPythonLiteral(ingestion.schedule)}
+    validation: bool = ${toPythonLiteral(ingestion.validation)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        # TODO: Read records from connection_string for the configured source_type
+        records = context.get("input", {}).get("records", [])
+
+        if self.validation:
+            records = [r for r in records if isinstance(r, dict)]
+
+        return {"records": records, "count": len(records)}`;
+    }
+
+    case 'dataAggregation': {
+      const aggregation = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    aggregation_type: str = ${toPythonLiteral(aggregation.aggregationType)}
+    join_key: str = ${toPythonLiteral(aggregation.joinKey)}
+    deduplication: bool = ${toPythonLiteral(aggregation.deduplication)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        frames = [pd.DataFrame(r["records"]) for r in context.get("results", {}).values()
+                  if isinstance(r, dict) and "records" in r]
+        if not frames:
+            return {"records": []}
+
+        if self.aggregation_type == "join" and self.join_key:
+            combined = frames[0]
+            for frame in frames[1:]:
+                combined = combined.merge(frame, on=self.join_key)
+        else:
+            combined = pd.concat(frames, ignore_index=True)
+
+        if self.deduplication:
+            combined = combined.drop_duplicates()
+
+        return {"records": combined.to_dict(orient="records")}`;
+    }
+
+    case 'rulesRouting': {
+      const routing = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    default_route: str = ${toPythonLiteral(routing.defaultRoute)}
+    evaluation_mode: str = ${toPythonLiteral(routing.evaluationMode)}
+    rules: list = None
+
+    def __post_init__(self):
+        self.rules = ${toPythonLiteral(routing.rules ?? [])}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        data = context.get("input", {})
+        routes = []
+
+        for rule in self.rules:
+            # TODO: Evaluate rule conditions against the data
+            matched = data.get(rule.get("field")) == rule.get("value")
+            if matched:
+                routes.append(rule.get("route"))
+                if self.evaluation_mode == "first_match":
+                    break
+
+        routes = routes or [self.default_route]
+        return {"routes": routes, "branch": routes[0]}`;
+    }
+
+    case 'synthesis': {
+      const synthesis = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    synthesis_mode: str = ${toPythonLiteral(synthesis.synthesisMode)}
+    template: str = ${toTripleQuoted(synthesis.template)}
+    include_evidence: bool = ${toPythonLiteral(synthesis.includeEvidence)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        inputs = context.get("results", {})
+
+        # TODO: Combine upstream results with your LLM
+        # prompt = PromptTemplate.from_template(self.template)
+        synthesis = "Synthesis placeholder"
+
+        result = {"synthesis": synthesis, "mode": self.synthesis_mode}
+        if self.include_evidence:
+            result["evidence"] = list(inputs.keys())
+        return result`;
+    }
+
+    case 'contentCreation': {
+      const content = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    content_type: str = ${toPythonLiteral(content.contentType)}
+    tone: str = ${toPythonLiteral(content.tone)}
+    length: str = ${toPythonLiteral(content.length)}
+    format: str = ${toPythonLiteral(content.format)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        # TODO: Generate content with your LLM
+        # prompt = PromptTemplate.from_template("Write a {length} {tone} {content_type} in {format}: {data}")
+        content = "Content placeholder"
+
+        return {"content": content, "format": self.format}`;
+    }
+
+    case 'diagnosis': {
+      const diagnosis = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    analysis_type: str = ${toPythonLiteral(diagnosis.analysisType)}
+    threshold: float = ${toPythonLiteral(diagnosis.threshold)}
+    generate_recommendations: bool = ${toPythonLiteral(diagnosis.generateRecommendations)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        values = [v for v in context.get("input", {}).get("values", []) if isinstance(v, (int, float))]
+        issues = []
+
+        if len(values) > 1:
+            mean = statistics.mean(values)
+            stdev = statistics.stdev(values) or 1.0
+            issues = [v for v in values if abs(v - mean) / stdev > self.threshold * 3]
+
+        result = {"issues": issues, "analysis_type": self.analysis_type}
+        if self.generate_recommendations:
+            # TODO: Generate recommendations for each issue
+            result["recommendations"] = []
+        return result`;
+    }
+
+    case 'feedback': {
+      const feedback = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    feedback_type: str = ${toPythonLiteral(feedback.feedbackType)}
+    collect_metrics: bool = ${toPythonLiteral(feedback.collectMetrics)}
+    auto_adjust: bool = ${toPythonLiteral(feedback.autoAdjust)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        feedback = context.get("input", {}).get("feedback")
+        metrics = {"result_count": len(context.get("results", {}))} if self.collect_metrics else {}
+
+        if self.auto_adjust and feedback is not None:
+            # TODO: Tune upstream node parameters from the feedback signal
+            pass
+
+        return {"feedback": feedback, "metrics": metrics}`;
+    }
+
+    case 'join': {
+      const join = withDefaults<Record<string, unknown>>(node);
+      return `${decorator}
+@dataclass
+class ${className}Node:
+    """${nodeConfig.description}"""
+    strategy: str = ${toPythonLiteral(join.strategy)}
+    quorum: int = ${toPythonLiteral(join.quorum)}
+    timeout_seconds: float = ${toPythonLiteral(join.timeoutSeconds)}
+
+    async def execute(self, context: Dict[str, Any]) -> Dict[str, Any]:
+        # The orchestrator records which incoming branches finished before the join
+        inputs = context.get("join_inputs", {}).get(self._agent_node_id, {})
+        merged = {}
+        for result in inputs.values():
+            if isinstance(result, dict):
+                merged.update(result)
+
+        return {"merged": merged, "inputs": inputs, "strategy": self.strategy}`;
+    }
+
     default:
       warnings.push(`Unknown node type: ${node.data.type}`);
       return `# Unknown node type: ${node.data.type}`;
@@ -589,52 +1219,235 @@ class ${className}Node:
 }
 
 function generateExecutionFlow(nodes: AgentNode[], edges: Edge[]): string {
-  // Simple topological execution
   const lines: string[] = [];
-  const visited = new Set<string>();
+  const forward = getForwardEdges(edges);
 
-  // Build adjacency and find roots
-  const inDegree: Record<string, number> = {};
-  const adj: Record<string, string[]> = {};
+  // With conditional edges or joins a node only runs once a predecessor activates it
+  const gated = hasConditionalEdges(forward) || nodes.some((n) => n.data.type === 'join');
+  if (gated) {
+    const roots = nodes.filter((n) => !forward.some((e) => e.target === n.id));
+    lines.push(`        active_nodes = {${roots.map((n) => `"${n.id}"`).join(', ')}}`);
+    lines.push('');
+  }
 
-  nodes.forEach((n) => {
-    inDegree[n.id] = 0;
-    adj[n.id] = [];
-  });
+  lines.push(...generateSteps(nodes.map((n) => n.id), nodes, forward, getLoops(nodes, edges), gated));
+  return lines.join('\n');
+}
+
+/**
+ * Emits the given nodes wave by wave; loops are emitted as a single step
+ */
+function generateSteps(
+  nodeIds: string[],
+  nodes: AgentNode[],
+  forward: Edge[],
+  loops: FlowLoop[],
+  gated: boolean
+): string[] {
+  const lines: string[] = [];
+  const nodeById = new Map(nodes.map((n) => [n.id, n]));
+  const varName = (nodeId: string) => toSnakeCase(nodeById.get(nodeId)!.data.label);
+
+  getExecutionWaves(nodeIds, forward, loops).forEach((wave) => {
+    const waveNodes = wave.flatMap((unit) => ('nodeId' in unit ? [unit.nodeId] : []));
+
+    groupWaveByJoin(waveNodes, nodes, forward).forEach(({ nodeIds: group, join }) => {
+      // Joins see the results of whichever incoming branches finished
+      group
+        .filter((id) => nodeById.get(id)!.data.type === 'join')
+        .forEach((joinId) => {
+          const sources = forward.filter((e) => e.target === joinId && nodeById.has(e.source)).map((e) => varName(e.source));
+          lines.push(
+            `        context.setdefault("join_inputs", {})["${joinId}"] = {k: context["results"][k] for k in [${sources
+              .map((v) => `"${v}"`)
+              .join(', ')}] if k in context["results"]}`
+          );
+        });
+
+      if (group.length === 1) {
+        const nodeId = group[0];
+        lines.push(`        # Execute: ${nodeById.get(nodeId)!.data.label}`);
+        if (gated) {
+          lines.push(`        if "${nodeId}" in active_nodes:`);
+          lines.push(`            context["results"]["${varName(nodeId)}"] = await self.nodes["${nodeId}"].execute(context)`);
+          lines.push(...generateActivation(nodeId, varName(nodeId), forward));
+        } else {
+          lines.push(`        context["results"]["${varName(nodeId)}"] = await self.nodes["${nodeId}"].execute(context)`);
+        }
+        lines.push('');
+        return;
+      }
+
+      // Independent siblings run concurrently
+      lines.push(`        # Execute in parallel: ${group.map((id) => nodeById.get(id)!.data.label).join(', ')}`);
+      if (gated) {
+        lines.push('        calls = {}');
+        group.forEach((nodeId) => {
+          lines.push(`        if "${nodeId}" in active_nodes:`);
+          lines.push(`            calls["${varName(nodeId)}"] = self.nodes["${nodeId}"].execute(context)`);
+        });
+      } else {
+        lines.push('        calls = {');
+        group.forEach((nodeId) => {
+          lines.push(`            "${varName(nodeId)}": self.nodes["${nodeId}"].execute(context),`);
+        });
+        lines.push('        }');
+      }
+
+      if (join) {
+        const config = withDefaults<Record<string, unknown>>(join);
+        const quorum = config.strategy === 'first' ? 1 : config.strategy === 'quorum' ? Number(config.quorum) || 1 : null;
+        lines.push(
+          `        finished = await self._join_branches(context, calls, quorum=${toPythonLiteral(quorum)}, timeout=${toPythonLiteral(
+            Number(config.timeoutSeconds) || 60
+          )})`
+        );
+      } else {
+        lines.push('        context["results"].update(zip(calls, await asyncio.gather(*calls.values())))');
+      }
+
+      if (gated) {
+        group.forEach((nodeId) => {
+          const activation = generateActivation(nodeId, varName(nodeId), forward);
+          if (activation.length === 0) return;
+          lines.push(`        if "${varName(nodeId)}" in ${join ? 'finished' : 'calls'}:`);
+          lines.push(...activation);
+        });
+      }
+      lines.push('');
+    });
 
-  edges.forEach((e) => {
-    adj[e.source].push(e.target);
-    inDegree[e.target] = (inDegree[e.target] || 0) + 1;
+    wave.forEach((unit) => {
+      if ('loop' in unit) lines.push(...generateLoop(unit.loop, nodes, forward, gated));
+    });
   });
 
-  // Find roots (nodes with no incoming edges)
-  const queue = nodes.filter((n) => inDegree[n.id] === 0).map((n) => n.id);
+  return lines;
+}
 
-  while (queue.length > 0) {
-    const nodeId = queue.shift()!;
-    if (visited.has(nodeId)) continue;
-    visited.add(nodeId);
+/**
+ * Emits a bounded loop as a `while` with an iteration counter
+ */
+function generateLoop(loop: FlowLoop, nodes: AgentNode[], forward: Edge[], gated: boolean): string[] {
+  const label = (id: string) => nodes.find((n) => n.id === id)!.data.label;
+  const { maxIterations, exitWhen } = loop.config;
+
+  const lines = [
+    `        # Loop: ${label(loop.entry)} → ${label(loop.exit)} (at most ${maxIterations} iterations)`,
+    '        iteration = 0',
+    `        while iteration < ${maxIterations}${gated ? ` and "${loop.entry}" in active_nodes` : ''}:`,
+    '            iteration += 1',
+  ];
+
+  // Activations from the previous iteration must not leak into this one
+  const activated = [
+    ...loop.body.filter((id) => id !== loop.entry),
+    ...forward.filter((e) => loop.body.includes(e.source) && !loop.body.includes(e.target)).map((e) => e.target),
+  ];
+  const reset = Array.from(new Set(activated));
+  if (gated && reset.length > 0) {
+    lines.push(`            active_nodes.difference_update([${reset.map((id) => `"${id}"`).join(', ')}])`);
+  }
 
-    const node = nodes.find((n) => n.id === nodeId);
-    if (!node) continue;
+  const body = generateSteps(loop.body, nodes, forward, [], gated).map((line) => (line ? `    ${line}` : line));
+  while (body.length > 0 && body[body.length - 1] === '') body.pop();
+  lines.push(...body);
 
-    const varName = toSnakeCase(node.data.label);
-    lines.push(`        # Execute: ${node.data.label}`);
-    lines.push(`        context["results"]["${varName}"] = await self.nodes["${nodeId}"].execute(context)`);
-    lines.push('');
+  if (exitWhen) {
+    const exitVar = toSnakeCase(label(loop.exit));
+    lines.push(`            if context["results"].get("${exitVar}", {}).get(${toPythonLiteral(exitWhen)}):`);
+    lines.push('                break');
+  }
+  lines.push('');
 
-    adj[nodeId].forEach((target) => {
-      inDegree[target]--;
-      if (inDegree[target] === 0) {
-        queue.push(target);
-      }
-    });
+  return lines;
+}
+
+/**
+ * Splits a wave into groups that are awaited together. Branches feeding the
+ * same join node form one group so the join's strategy decides how many of
+ * them must finish; everything else in the wave is gathered as one group.
+ */
+function groupWaveByJoin(
+  wave: string[],
+  nodes: AgentNode[],
+  edges: Edge[]
+): { nodeIds: string[]; join: AgentNode | null }[] {
+  const groups: { nodeIds: string[]; join: AgentNode | null }[] = [];
+
+  wave.forEach((nodeId) => {
+    const join =
+      edges
+        .filter((e) => e.source === nodeId)
+        .map((e) => nodes.find((n) => n.id === e.target))
+        .find((n): n is AgentNode => n?.data.type === 'join') ?? null;
+
+    const group = groups.find((g) => g.join?.id === join?.id);
+    if (group) {
+      group.nodeIds.push(nodeId);
+    } else {
+      groups.push({ nodeIds: [nodeId], join });
+    }
+  });
+
+  return groups;
+}
+
+/**
+ * Emits the if/elif dispatch that activates a node's successors
+ */
+function generateActivation(nodeId: string, varName: string, edges: Edge[]): string[] {
+  const activate = (targets: string[], indent: string) =>
+    `${indent}active_nodes.update([${targets.map((t) => `"${t}"`).join(', ')}])`;
+
+  const dispatch = getBranchDispatch(nodeId, edges);
+  if (!dispatch) {
+    const targets = edges.filter((e) => e.source === nodeId).map((e) => e.target);
+    return targets.length > 0 ? [activate(targets, '            ')] : [];
   }
 
-  return lines.join('\n');
+  const lines = [`            branch = context["results"]["${varName}"].get("branch")`];
+  dispatch.cases.forEach(({ condition, targets }, i) => {
+    lines.push(`            ${i === 0 ? 'if' : 'elif'} branch == ${toPythonLiteral(condition)}:`);
+    lines.push(activate(targets, '                '));
+  });
+  if (dispatch.fallback.length > 0) {
+    lines.push('            else:');
+    lines.push(activate(dispatch.fallback, '                '));
+  }
+  return lines;
+}
+
+// (source, target, max_iterations) or (source, target, max_iterations, exit_when)
+function generateLoopTopology(edges: Edge[]): string {
+  const loops = edges.filter((e) => getLoopConfig(e));
+  if (loops.length === 0) return '';
+
+  const tuples = loops.map((e) => {
+    const { maxIterations, exitWhen } = getLoopConfig(e)!;
+    return `            ("${e.source}", "${e.target}", ${toPythonLiteral(maxIterations)}${exitWhen ? `, ${toPythonLiteral(exitWhen)}` : ''}),`;
+  });
+  return `\n        self._loop_edges = [\n${tuples.join('\n')}\n        ]`;
+}
+
+function toTopologyTuple(edge: Edge): string {
+  const condition = getEdgeCondition(edge);
+  return condition
+    ? `("${edge.source}", "${edge.target}", ${toPythonLiteral(condition)})`
+    : `("${edge.source}", "${edge.target}")`;
+}
+
+// Typed view of a node's config with unset keys filled from the node type defaults
+function withDefaults<T>(node: AgentNode): T {
+  const config = Object.fromEntries(Object.entries(node.data.config).filter(([, value]) => value !== undefined));
+  return { ...nodeConfigs[node.data.type].defaultData, ...config } as T;
+}
+
+function toTripleQuoted(value: unknown): string {
+  return `"""${String(value ?? '').replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"""`;
 }
 
-function toSnakeCase(str: string): string {
+export function toSnakeCase(str: string): string {
   return str
     .replace(/([A-Z])/g, '_$1')
     .toLowerCase()
@@ -643,26 +1456,314 @@ function toSnakeCase(str: string): string {
     .replace(/_+/g, '_');
 }
 
-function toPascalCase(str: string): string {
+export function toPascalCase(str: string): string {
   return str
     .split(/[^a-zA-Z0-9]/)
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
     .join('');
 }
 
-// Parse Python code back to flow (limited - only works with generated code)
-export function parseCodeToFlow(code: string): { nodes: Partial<AgentNode>[]; edges: Edge[] } | null {
-  // This is a simplified parser - full bi-directional would require AST parsing
-  try {
-    // Look for JSON comment block if present
-    const jsonMatch = code.match(/"""[\s\S]*?Flow Definition:[\s\S]*?({[\s\S]*?})[\s\S]*?"""/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[1]);
+// ============================================
+// Code → Visual (Python AST Round-Trip)
+// ============================================
+
+/**
+ * Dataclass attributes whose name is not the snake_case form of the config key
+ */
+const PYTHON_FIELD_ALIASES: Partial<Record<AgentPatternType, Record<string, string>>> = {
+  llm: { user_prompt: 'prompt' },
+  planner: { checkpoints_enabled: 'checkpoints' },
+};
+
+/**
+ * Maps a dataclass attribute name to the config key it represents
+ */
+export function pythonFieldToConfigKey(type: AgentPatternType, name: string): string {
+  return PYTHON_FIELD_ALIASES[type]?.[name] ?? toCamelCase(name);
+}
+
+/**
+ * Parses generated node definitions back and lists, per node, the config keys
+ * whose values do not survive. Nodes with code overrides are skipped.
+ */
+function findRoundTripLosses(nodes: AgentNode[], code: string): { node: AgentNode; keys: string[] }[] {
+  const parsed = parseCodeToFlow(code)?.nodes ?? [];
+  return nodes
+    .filter((node) => !node.data.hasCodeOverride)
+    .map((node) => {
+      const config = parsed.find((n) => n.id === node.id)?.data.config ?? {};
+      const keys = Object.entries(node.data.config)
+        .filter(([key, value]) => value !== undefined && !isSameConfigValue(value, config[key]))
+        .map(([key]) => key);
+      return { node, keys };
+    })
+    .filter((loss) => loss.keys.length > 0);
+}
+
+/**
+ * Warns about config fields on the canvas that do not read back from the
+ * generated code. This parses the code again, so it is not part of
+ * generatePythonCode; callers run it where the warnings are shown.
+ */
+export function getRoundTripWarnings(nodes: AgentNode[]): string[] {
+  const nodeDefinitions = nodes.map((node) => generateNodeDefinition(node, [])).join('\n\n');
+  return findRoundTripLosses(nodes, nodeDefinitions).map(
+    ({ node, keys }) =>
+      `Node "${node.data.label}" does not write ${keys.join(', ')} to the code; applying code edits keeps the canvas values`
+  );
+}
+
+// One-per-line textareas hold text on the canvas and are written as lists
+function isSameConfigValue(canvas: unknown, parsed: unknown): boolean {
+  if (typeof canvas === 'string' && Array.isArray(parsed)) {
+    return JSON.stringify(toLineList(canvas)) === JSON.stringify(parsed);
+  }
+  return JSON.stringify(canvas) === JSON.stringify(parsed);
+}
+
+export interface ParsedFlow {
+  nodes: AgentNode[];
+  edges: Edge[];
+  warnings: string[];
+}
+
+/**
+ * Parses Python written in the "Visual-Safe" subset back into a flow graph.
+ * Nodes come from `@agent_node` decorated classes, config from their dataclass
+ * attributes, and edges from the orchestrator's `_edge_topology` (or, failing
+ * that, from the order of `self.nodes[...].execute()` calls in its body).
+ *
+ * Pass the current graph as `previous` to keep node positions and edge styling
+ * for elements whose identity survived the edit.
+ * Returns null when the code contains no recognizable nodes.
+ */
+export function parseCodeToFlow(
+  code: string,
+  previous?: { nodes: AgentNode[]; edges: Edge[] }
+): ParsedFlow | null {
+  const module = parsePythonModule(code);
+  const sourceLines = code.split('\n');
+  const warnings: string[] = module.errors.map((e) => `Line ${e.line}: ${e.message}`);
+  const nodes: AgentNode[] = [];
+  let orchestrator: PyClass | null = null;
+
+  for (const cls of module.classes) {
+    const identity = readAgentNodeIdentity(cls);
+    if (!identity) continue;
+
+    if (identity.nodeType === 'orchestrator') {
+      orchestrator = cls;
+      continue;
     }
 
-    // Otherwise, cannot reliably parse custom code
-    return null;
-  } catch {
-    return null;
+    if (!(identity.nodeType in nodeConfigs)) {
+      warnings.push(`Line ${cls.line}: Unknown node type "${identity.nodeType}" for node "${identity.id}"`);
+      continue;
+    }
+
+    const type = identity.nodeType as AgentPatternType;
+    const existing = previous?.nodes.find((n) => n.id === identity.id);
+    // Config keys the code does not express (e.g. agent tool lists) survive from the canvas
+    const baseConfig = existing?.data.type === type ? existing.data.config : {};
+    const data: AgentNodeData = {
+      type,
+      label: identity.label,
+      config: readDataclassConfig(cls, type, baseConfig, warnings),
+    };
+
+    // Generated code-only blocks are marked with a comment above the decorator
+    const decoratorLine = cls.decorators.find((d) => d.name === 'agent_node')!.line;
+    if (sourceLines.slice(Math.max(0, decoratorLine - 4), decoratorLine - 1).some((l) => l.includes('# CODE-ONLY BLOCK'))) {
+      data.hasCodeOverride = true;
+      data.codeOverride = sourceLines.slice(decoratorLine, cls.endLine).join('\n');
+    }
+
+    nodes.push({
+      ...(existing ?? {}),
+      id: identity.id,
+      type: 'agentNode',
+      position: existing?.position ?? { x: 0, y: 0 },
+      data,
+    });
   }
+
+  if (nodes.length === 0) return null;
+
+  const connections = orchestrator ? readOrchestratorTopology(orchestrator, warnings) : [];
+  const edges: Edge[] = connections.map(([source, target, condition]) => {
+    const existing = previous?.edges.find((e) => e.source === source && e.target === target && !getLoopConfig(e));
+    if (existing) {
+      return getEdgeCondition(existing) === condition ? existing : withEdgeCondition(existing, condition);
+    }
+    const edge: Edge = { id: `e-${source}-${target}`, source, target, animated: true };
+    return condition ? withEdgeCondition(edge, condition) : edge;
+  });
+
+  const loops = orchestrator ? readOrchestratorLoops(orchestrator, warnings) : [];
+  loops.forEach(([source, target, maxIterations, exitWhen]) => {
+    const loop = exitWhen ? { maxIterations, exitWhen } : { maxIterations };
+    const existing = previous?.edges.find((e) => e.source === source && e.target === target && getLoopConfig(e));
+    const same =
+      existing && getLoopConfig(existing)!.maxIterations === maxIterations && getLoopConfig(existing)!.exitWhen === exitWhen;
+    edges.push(
+      same ? existing : withLoop(existing ?? { id: `loop-${source}-${target}`, source, target, animated: true }, loop)
+    );
+  });
+
+  const positioned = new Set(previous?.nodes.map((n) => n.id) ?? []);
+  layoutParsedNodes(nodes.filter((n) => !positioned.has(n.id)), getForwardEdges(edges));
+
+  return { nodes, edges, warnings };
+}
+
+function readAgentNodeIdentity(cls: PyClass): { id: string; label: string; nodeType: string } | null {
+  const decorator = cls.decorators.find((d) => d.name === 'agent_node');
+  if (!decorator?.call) return null;
+
+  const read = (key: string) => {
+    const arg = decorator.call!.kwargs[key];
+    return arg?.kind === 'literal' && typeof arg.value === 'string' ? arg.value : null;
+  };
+
+  const id = read('id');
+  const nodeType = read('node_type');
+  if (!id || !nodeType) return null;
+
+  return { id, label: read('label') ?? cls.name.replace(/Node$/, ''), nodeType };
+}
+
+function readDataclassConfig(
+  cls: PyClass,
+  type: AgentPatternType,
+  baseConfig: Record<string, unknown>,
+  warnings: string[]
+): Record<string, unknown> {
+  const nodeConfig = nodeConfigs[type];
+  const config: Record<string, unknown> = { ...nodeConfig.defaultData, ...baseConfig };
+
+  const assign = (name: string, value: PyExpression, line: number) => {
+    const key = pythonFieldToConfigKey(type, name);
+    if (value.kind === 'dynamic') {
+      warnings.push(`Line ${line}: "${name}" in ${cls.name} is computed at runtime and cannot be shown visually`);
+      return;
+    }
+    // `schema: Dict = None` placeholders are filled in by __post_init__
+    if (value.value === null && config[key] !== null && config[key] !== undefined) return;
+
+    const field = nodeConfig.configSchema.find((f) => f.key === key);
+    config[key] =
+      field?.type === 'textarea' && Array.isArray(value.value) && !Array.isArray(nodeConfig.defaultData[key])
+        ? value.value.map(String).join('\n')
+        : value.value;
+  };
+
+  for (const attr of cls.attributes) {
+    if (attr.value) assign(attr.name, attr.value, attr.line);
+  }
+
+  const postInit = cls.methods.find((m) => m.name === '__post_init__');
+  for (const statement of postInit?.body ?? []) {
+    const assignment = parseAssignment(statement.text);
+    if (assignment?.target.startsWith('self.')) {
+      assign(assignment.target.slice(5), assignment.value, statement.line);
+    }
+  }
+
+  return config;
+}
+
+type TopologyEntry = [source: string, target: string, condition?: string];
+
+function readOrchestratorTopology(orchestrator: PyClass, warnings: string[]): TopologyEntry[] {
+  for (const method of orchestrator.methods) {
+    for (const statement of method.body) {
+      const assignment = parseAssignment(statement.text);
+      if (assignment?.target !== 'self._edge_topology') continue;
+
+      if (assignment.value.kind === 'dynamic' || !Array.isArray(assignment.value.value)) {
+        warnings.push(`Line ${statement.line}: Edge topology is computed at runtime and cannot be shown visually`);
+        return [];
+      }
+
+      // (source, target) or (source, target, condition)
+      return assignment.value.value
+        .filter((entry): entry is string[] =>
+          Array.isArray(entry) &&
+          (entry.length === 2 || entry.length === 3) &&
+          entry.every((id) => typeof id === 'string'))
+        .map(([source, target, condition]): TopologyEntry => (condition ? [source, target, condition] : [source, target]));
+    }
+  }
+
+  // No declared topology: infer a chain from the orchestration body
+  const executed: string[] = [];
+  for (const method of orchestrator.methods) {
+    for (const statement of method.body) {
+      for (const match of statement.text.matchAll(/self\.nodes\[\s*["']([^"']+)["']\s*\]\.execute\(/g)) {
+        if (!executed.includes(match[1])) executed.push(match[1]);
+      }
+    }
+  }
+  return executed.slice(1).map((target, i): TopologyEntry => [executed[i], target]);
+}
+
+type LoopEntry = [source: string, target: string, maxIterations: number, exitWhen?: string];
+
+function readOrchestratorLoops(orchestrator: PyClass, warnings: string[]): LoopEntry[] {
+  for (const method of orchestrator.methods) {
+    for (const statement of method.body) {
+      const assignment = parseAssignment(statement.text);
+      if (assignment?.target !== 'self._loop_edges') continue;
+
+      if (assignment.value.kind === 'dynamic' || !Array.isArray(assignment.value.value)) {
+        warnings.push(`Line ${statement.line}: Loop edges are computed at runtime and cannot be shown visually`);
+        return [];
+      }
+
+      // (source, target, max_iterations) or (source, target, max_iterations, exit_when)
+      return assignment.value.value
+        .filter((entry): entry is (string | number)[] =>
+          Array.isArray(entry) &&
+          (entry.length === 3 || entry.length === 4) &&
+          typeof entry[0] === 'string' &&
+          typeof entry[1] === 'string' &&
+          typeof entry[2] === 'number' &&
+          (entry.length === 3 || typeof entry[3] === 'string'))
+        .map(([source, target, maxIterations, exitWhen]): LoopEntry =>
+          exitWhen
+            ? [String(source), String(target), Number(maxIterations), String(exitWhen)]
+            : [String(source), String(target), Number(maxIterations)]);
+    }
+  }
+  return [];
+}
+
+/**
+ * Places nodes in columns by topological depth (left to right)
+ */
+export function layoutParsedNodes(nodes: AgentNode[], edges: Edge[]): void {
+  const depth: Record<string, number> = {};
+  const incoming: Record<string, string[]> = {};
+  edges.forEach((e) => (incoming[e.target] = [...(incoming[e.target] || []), e.source]));
+
+  const resolveDepth = (id: string, seen: Set<string>): number => {
+    if (depth[id] !== undefined) return depth[id];
+    if (seen.has(id)) return 0;
+    seen.add(id);
+    const parents = incoming[id] || [];
+    depth[id] = parents.length === 0 ? 0 : Math.max(...parents.map((p) => resolveDepth(p, seen))) + 1;
+    return depth[id];
+  };
+
+  const rows: Record<number, number> = {};
+  nodes.forEach((node) => {
+    const column = resolveDepth(node.id, new Set());
+    const row = rows[column] ?? 0;
+    rows[column] = row + 1;
+    node.position = { x: 100 + column * 300, y: 100 + row * 150 };
+  });
+}
+
+function toCamelCase(str: string): string {
+  return str.replace(/_([a-z0-9])/g, (_, ch: string) => ch.toUpperCase());
 }
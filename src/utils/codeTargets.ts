@@ -0,0 +1,581 @@
+// Code Generation Targets
+// Registry of the languages/frameworks a flow can be exported to. Only the
+// Visual-Safe Python target round-trips; the others are one-way exports
+
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, AgentPatternType, CodeTargetId, TargetCode } from '../types';
+import { nodeConfigs } from './nodeConfig';
+import { generatePythonCode, validateCodeConstraints, toPascalCase, toSnakeCase } from './codeGenerator';
+import { toPythonLiteral } from './pythonParser';
+import { getBranchDispatch, getEdgeCondition, hasConditionalEdges, isBranchingNode } from './branching';
+import { getExecutionPlan, getForwardEdges, getLoops, isLoopEdge, type FlowLoop, type PlanStep } from './loops';
+
+// ============================================
+// Target Interface
+// ============================================
+
+export interface CodeTarget {
+  id: CodeTargetId;
+  label: string;
+  language: 'python' | 'typescript'; // Monaco language id
+  fileExtension: string;
+  supportedTypes: AgentPatternType[] | 'all';
+  generate: (nodes: AgentNode[], edges: Edge[]) => Omit<TargetCode, 'target'>;
+}
+
+// ============================================
+// Target Registry
+// ============================================
+
+const targetRegistry: Partial<Record<CodeTargetId, CodeTarget>> = {};
+
+export function registerCodeTarget(target: CodeTarget): void {
+  targetRegistry[target.id] = target;
+}
+
+export function getCodeTarget(id: CodeTargetId): CodeTarget | undefined {
+  return targetRegistry[id];
+}
+
+// Targets in registration order
+export function getCodeTargets(): CodeTarget[] {
+  return Object.values(targetRegistry);
+}
+
+export function supportsNodeType(target: CodeTarget, type: AgentPatternType): boolean {
+  return target.supportedTypes === 'all' || target.supportedTypes.includes(type);
+}
+
+/**
+ * Emits the flow for a target. Nodes the target does not support are still
+ * emitted as stubs, but they are reported and disable round-tripping.
+ */
+export function generateForTarget(id: CodeTargetId, nodes: AgentNode[], edges: Edge[]): TargetCode {
+  const target = getCodeTarget(id);
+  if (!target) {
+    throw new Error(`Unknown code target: ${id}`);
+  }
+
+  const output = target.generate(nodes, edges);
+  const unsupported = nodes.filter((n) => !supportsNodeType(target, n.data.type));
+
+  return {
+    target: id,
+    code: output.code,
+    canRoundTrip: output.canRoundTrip && unsupported.length === 0,
+    warnings: [
+      ...output.warnings,
+      ...unsupported.map(
+        (n) => `Node "${n.data.label}" (${n.data.type}) is not supported by the ${target.label} target and was emitted as a stub`
+      ),
+    ],
+  };
+}
+
+// ============================================
+// Shared Helpers
+// ============================================
+
+// Graph problems and code overrides that a one-way target cannot carry over
+function exportWarnings(nodes: AgentNode[], edges: Edge[], targetLabel: string): string[] {
+  return [
+    ...validateCodeConstraints(nodes, edges)
+      .filter((c) => c.severity !== 'info')
+      .map((c) => c.message),
+    ...nodes
+      .filter((n) => n.data.hasCodeOverride)
+      .map((n) => `Node "${n.data.label}" has a Python code override that the ${targetLabel} target cannot export`),
+    ...nodes
+      .filter((n) => n.data.type === 'join' && n.data.config.strategy && n.data.config.strategy !== 'all')
+      .map((n) => `Join "${n.data.label}" uses the "${n.data.config.strategy}" strategy; the ${targetLabel} target waits for every branch`),
+  ];
+}
+
+/**
+ * Assigns each node a unique identifier derived from its label
+ */
+function nodeIdentifiers(nodes: AgentNode[], format: (label: string) => string): Record<string, string> {
+  const used = new Set<string>();
+  const identifiers: Record<string, string> = {};
+
+  nodes.forEach((node) => {
+    const base = format(node.data.label) || 'node';
+    const safe = /^[0-9]/.test(base) ? `node_${base}` : base;
+    let name = safe;
+    for (let i = 2; used.has(name); i++) name = `${safe}_${i}`;
+    used.add(name);
+    identifiers[node.id] = name;
+  });
+
+  return identifiers;
+}
+
+// Forward edges between existing nodes; loops are emitted from validLoops
+function validEdges(nodes: AgentNode[], edges: Edge[]): Edge[] {
+  const ids = new Set(nodes.map((n) => n.id));
+  return getForwardEdges(edges).filter((e) => ids.has(e.source) && ids.has(e.target));
+}
+
+// Loops between existing nodes with a body to repeat
+function validLoops(nodes: AgentNode[], edges: Edge[]): FlowLoop[] {
+  const ids = new Set(nodes.map((n) => n.id));
+  const loopEdges = edges.filter((e) => isLoopEdge(e) && ids.has(e.source) && ids.has(e.target));
+  return getLoops(nodes, [...validEdges(nodes, edges), ...loopEdges]).filter((loop) => loop.body.length > 0);
+}
+
+function label(nodes: AgentNode[], nodeId: string): string {
+  return nodes.find((n) => n.id === nodeId)?.data.label ?? nodeId;
+}
+
+// Result keys of a node's direct predecessors
+function parentNames(nodeId: string, edges: Edge[], names: Record<string, string>): string[] {
+  return edges.filter((e) => e.target === nodeId).map((e) => names[e.source]);
+}
+
+function indent(text: string, spaces: number): string {
+  const pad = ' '.repeat(spaces);
+  return text
+    .split('\n')
+    .map((line, i) => (i === 0 || !line ? line : pad + line))
+    .join('\n');
+}
+
+// ============================================
+// Target: Python (asyncio, Visual-Safe)
+// ============================================
+
+registerCodeTarget({
+  id: 'python',
+  label: 'Python',
+  language: 'python',
+  fileExtension: 'py',
+  supportedTypes: 'all',
+  generate: (nodes, edges) => {
+    const { python, canRoundTrip, warnings } = generatePythonCode(nodes, edges);
+    return { code: python, canRoundTrip, warnings };
+  },
+});
+
+// ============================================
+// Target: LangGraph
+// ============================================
+
+function langGraphNodeBody(node: AgentNode, name: string, parents: string[]): string {
+  switch (node.data.type) {
+    case 'trigger':
+      return 'result = state.get("input", {})';
+    case 'humanInLoop':
+      return `# Pauses the graph until a reviewer resumes it with Command(resume=...)
+decision = interrupt({"node": "${name}", "results": state.get("results", {})})
+result = {"approved": bool(decision), "decision": decision, "branch": "approved" if decision else "rejected"}`;
+    case 'output':
+      return 'result = state.get("results", {})';
+    case 'join':
+      return `inputs = {k: v for k, v in state.get("results", {}).items() if k in [${parents.map((p) => `"${p}"`).join(', ')}]}
+merged = {}
+for value in inputs.values():
+    if isinstance(value, dict):
+        merged.update(value)
+result = {"merged": merged, "inputs": inputs, "strategy": config["strategy"]}`;
+    default:
+      return `# TODO: Implement ${nodeConfigs[node.data.type].label} logic using config${
+        isBranchingNode(node) ? ' and set "branch" to the chosen route' : ''
+      }
+result = {"node_type": "${node.data.type}", "status": "placeholder"${isBranchingNode(node) ? ', "branch": None' : ''}}`;
+  }
+}
+
+/**
+ * Router for a node with conditional edges; returns the next node names
+ */
+function langGraphRouter(nodeId: string, edges: Edge[], names: Record<string, string>): string {
+  const dispatch = getBranchDispatch(nodeId, edges)!;
+  const targets = (ids: string[]) => `[${ids.map((id) => `"${names[id]}"`).join(', ')}]`;
+  const name = names[nodeId];
+
+  const lines = [
+    `def route_${name}(state: FlowState) -> list:`,
+    `    branch = state.get("results", {}).get("${name}", {}).get("branch")`,
+  ];
+  dispatch.cases.forEach(({ condition, targets: ids }, i) => {
+    lines.push(`    ${i === 0 ? 'if' : 'elif'} branch == ${toPythonLiteral(condition)}:`);
+    lines.push(`        return ${targets(ids)}`);
+  });
+  lines.push(`    return ${dispatch.fallback.length > 0 ? targets(dispatch.fallback) : '[END]'}`);
+  return lines.join('\n');
+}
+
+/**
+ * Router for a loop's exit node: goes back to the entry until the exit field
+ * is truthy or the iteration limit is reached, then continues past the loop
+ */
+function langGraphLoopRouter(loop: FlowLoop, edges: Edge[], routed: string[], names: Record<string, string>): string {
+  const name = names[loop.exit];
+  const { maxIterations, exitWhen } = loop.config;
+  const targets = edges.filter((e) => e.source === loop.exit).map((e) => `"${names[e.target]}"`);
+  const next = routed.includes(loop.exit) ? `route_${name}(state)` : targets.length > 0 ? `[${targets.join(', ')}]` : '[END]';
+
+  const lines = [
+    `def loop_${name}(state: FlowState) -> list:`,
+    `    done = state.get("iterations", {}).get("${name}", 0) >= ${maxIterations}`,
+  ];
+  if (exitWhen) {
+    lines.push(`    done = done or bool(state.get("results", {}).get("${name}", {}).get(${toPythonLiteral(exitWhen)}))`);
+  }
+  lines.push('    if not done:', `        return ["${names[loop.entry]}"]`, `    return ${next}`);
+  return lines.join('\n');
+}
+
+function generateLangGraph(nodes: AgentNode[], edges: Edge[]): string {
+  const names = nodeIdentifiers(nodes, toSnakeCase);
+  const connected = validEdges(nodes, edges);
+  const hasHitl = nodes.some((n) => n.data.type === 'humanInLoop');
+  const loops = validLoops(nodes, edges);
+  const loopExits = loops.map((loop) => loop.exit);
+
+  const functions = nodes
+    .map((node) => {
+      const name = names[node.id];
+      return `# ${node.data.label} (${node.data.type}) - node id: ${node.id}
+async def ${name}(state: FlowState) -> Dict[str, Any]:
+    """${nodeConfigs[node.data.type].description}"""
+    config = ${toPythonLiteral(node.data.config)}
+    ${indent(langGraphNodeBody(node, name, parentNames(node.id, connected, names)), 4)}
+    return {"results": {"${name}": result}${
+      loopExits.includes(node.id) ? `, "iterations": {"${name}": state.get("iterations", {}).get("${name}", 0) + 1}` : ''
+    }}`;
+    })
+    .join('\n\n\n');
+
+  // Nodes with conditional edges hand off through a router instead of static edges
+  const routed = nodes.filter((n) => getBranchDispatch(n.id, connected)).map((n) => n.id);
+  const routers = [
+    ...routed.map((id) => langGraphRouter(id, connected, names)),
+    ...loops.map((loop) => langGraphLoopRouter(loop, connected, routed, names)),
+  ];
+
+  // Nodes with several parents wait for all of them (fan-in). A skipped branch
+  // would block such a join forever, so branching graphs join per parent instead.
+  // Loop bodies do too, since a parent outside the loop does not run again.
+  const waitForAll = !hasConditionalEdges(connected);
+  const inLoop = new Set(loops.flatMap((loop) => loop.body));
+  const incoming: Record<string, string[]> = {};
+  connected
+    .filter((e) => !routed.includes(e.source) && !loopExits.includes(e.source))
+    .forEach((e) => (incoming[e.target] = [...(incoming[e.target] || []), e.source]));
+  const hasParent = new Set(connected.map((e) => e.target));
+  const outgoing = new Set(connected.map((e) => e.source));
+
+  const graphLines: string[] = [];
+  nodes.forEach((node) => graphLines.push(`graph.add_node("${names[node.id]}", ${names[node.id]})`));
+  graphLines.push('');
+  nodes.forEach((node) => {
+    const parents = incoming[node.id] || [];
+    if (!hasParent.has(node.id)) {
+      graphLines.push(`graph.add_edge(START, "${names[node.id]}")`);
+    } else if (parents.length > 1 && waitForAll && !inLoop.has(node.id)) {
+      graphLines.push(`graph.add_edge([${parents.map((p) => `"${names[p]}"`).join(', ')}], "${names[node.id]}")`);
+    } else {
+      parents.forEach((p) => graphLines.push(`graph.add_edge("${names[p]}", "${names[node.id]}")`));
+    }
+  });
+  routed
+    .filter((id) => !loopExits.includes(id))
+    .forEach((id) => graphLines.push(`graph.add_conditional_edges("${names[id]}", route_${names[id]})`));
+  // Loop exits route back to the loop entry, or onwards once the loop is done
+  loopExits.forEach((id) => graphLines.push(`graph.add_conditional_edges("${names[id]}", loop_${names[id]})`));
+  nodes
+    .filter((node) => !outgoing.has(node.id) && !loopExits.includes(node.id))
+    .forEach((node) => graphLines.push(`graph.add_edge("${names[node.id]}", END)`));
+
+  return `"""
+Agentic Workflow - Generated by Flow Designer
+Target: LangGraph StateGraph
+
+This is a one-way export; edit the flow on the canvas and regenerate.
+Node Count: ${nodes.length}
+Edge Count: ${edges.length}
+"""
+
+import asyncio
+from typing import Annotated, Any, Dict, TypedDict
+
+from langgraph.graph import StateGraph, START, END${
+    hasHitl ? '\nfrom langgraph.types import interrupt\nfrom langgraph.checkpoint.memory import MemorySaver' : ''
+  }
+
+
+def merge_results(left: Dict[str, Any], right: Dict[str, Any]) -> Dict[str, Any]:
+    """Reducer that lets parallel branches write their results side by side."""
+    return {**left, **right}
+
+
+class FlowState(TypedDict, total=False):
+    input: Dict[str, Any]
+    results: Annotated[Dict[str, Any], merge_results]${
+      loops.length > 0 ? '\n    iterations: Annotated[Dict[str, int], merge_results]' : ''
+    }
+
+
+# ============================================
+# Nodes
+# ============================================
+
+${functions}
+
+
+# ============================================
+# Graph
+# ============================================
+${routers.length > 0 ? `\n${routers.join('\n\n\n')}\n\n` : ''}
+graph = StateGraph(FlowState)
+${graphLines.join('\n')}
+
+workflow = graph.compile(${hasHitl ? 'checkpointer=MemorySaver()' : ''})
+
+
+async def main():
+    # Interrupted runs resume on the same thread_id${
+      loops.length > 0 ? '; each loop iteration counts toward the recursion limit' : ''
+    }
+    config = {"configurable": {"thread_id": "main"}${
+      loops.length > 0
+        ? `, "recursion_limit": ${25 + loops.reduce((sum, loop) => sum + loop.config.maxIterations * loop.body.length, 0)}`
+        : ''
+    }}
+    result = await workflow.ainvoke({"input": {"query": "Hello, world!"}, "results": {}}, config=config)
+    print(result["results"])
+
+if __name__ == "__main__":
+    asyncio.run(main())
+`;
+}
+
+registerCodeTarget({
+  id: 'langgraph',
+  label: 'LangGraph',
+  language: 'python',
+  fileExtension: 'py',
+  supportedTypes: 'all',
+  generate: (nodes, edges) => ({
+    code: generateLangGraph(nodes, edges),
+    canRoundTrip: false,
+    warnings: exportWarnings(nodes, edges, 'LangGraph'),
+  }),
+});
+
+// ============================================
+// Target: TypeScript Module
+// ============================================
+
+// These nodes lean on Python data tooling (pandas, OCR loaders) with no drop-in Node equivalent
+const PYTHON_ONLY_TYPES: AgentPatternType[] = ['tabularReasoning', 'documentProcessing', 'dataAggregation'];
+
+function toTypeScriptString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function toCamelIdentifier(label: string): string {
+  const pascal = toPascalCase(label);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function typeScriptNodeBody(node: AgentNode, name: string, parents: string[]): string {
+  if (PYTHON_ONLY_TYPES.includes(node.data.type)) {
+    return `throw new Error('${node.data.type} nodes are not supported by the TypeScript target');`;
+  }
+
+  switch (node.data.type) {
+    case 'trigger':
+      return 'return context.input;';
+    case 'humanInLoop':
+      return `// TODO: Request approval from your review service and await the decision
+return { approved: true, approver: 'auto', branch: 'approved' };`;
+    case 'output':
+      return 'return context.results;';
+    case 'join':
+      return `const inputs = Object.fromEntries(
+  [${parents.map(toTypeScriptString).join(', ')}].filter((key) => key in context.results).map((key) => [key, context.results[key]])
+);
+const merged = Object.assign({}, ...Object.values(inputs).filter((value) => typeof value === 'object'));
+return { merged, inputs, strategy: ${name}Config.strategy };`;
+    default:
+      return `// TODO: Implement ${nodeConfigs[node.data.type].label} logic using ${name}Config${
+        isBranchingNode(node) ? ' and set branch to the chosen route' : ''
+      }
+return { nodeType: '${node.data.type}', status: 'placeholder'${isBranchingNode(node) ? ', branch: undefined' : ''} };`;
+  }
+}
+
+/**
+ * Emits the if/else-if dispatch that activates a node's successors
+ */
+function typeScriptActivation(nodeId: string, resultKey: string, edges: Edge[]): string {
+  const activate = (targets: string[]) => targets.map((t) => `active.add('${t}');`).join(' ');
+
+  const dispatch = getBranchDispatch(nodeId, edges);
+  if (!dispatch) {
+    const targets = edges.filter((e) => e.source === nodeId).map((e) => e.target);
+    return targets.length > 0 ? `    ${activate(targets)}` : '';
+  }
+
+  const lines = [`    const branch = (context.results['${resultKey}'] as { branch?: string } | undefined)?.branch;`];
+  dispatch.cases.forEach(({ condition, targets }, i) => {
+    lines.push(`    ${i === 0 ? 'if' : '} else if'} (branch === ${toTypeScriptString(condition)}) {`);
+    lines.push(`      ${activate(targets)}`);
+  });
+  if (dispatch.fallback.length > 0) {
+    lines.push('    } else {');
+    lines.push(`      ${activate(dispatch.fallback)}`);
+  }
+  lines.push('    }');
+  return lines.join('\n');
+}
+
+/**
+ * Emits a bounded loop: the body repeats until the exit node's exit field is
+ * truthy or the iteration limit is reached, as in the interpreter
+ */
+function typeScriptLoop(
+  loop: FlowLoop,
+  body: string,
+  nodes: AgentNode[],
+  resultKeys: Record<string, string>,
+  edges: Edge[],
+  gated: boolean
+): string {
+  const { maxIterations, exitWhen } = loop.config;
+  const lines = [
+    `  // Loop: ${label(nodes, loop.entry)} → ${label(nodes, loop.exit)} (at most ${maxIterations} iterations)`,
+    '  iteration = 0;',
+    `  while (iteration < ${maxIterations}${gated ? ` && active.has('${loop.entry}')` : ''}) {`,
+    '    iteration++;',
+  ];
+
+  if (gated) {
+    // Activations from the previous iteration must not leak into this one
+    const reset = new Set([
+      ...loop.body.filter((id) => id !== loop.entry),
+      ...edges.filter((e) => loop.body.includes(e.source) && !loop.body.includes(e.target)).map((e) => e.target),
+    ]);
+    lines.push(`    [${[...reset].map((id) => `'${id}'`).join(', ')}].forEach((id) => active.delete(id));`);
+  }
+  lines.push(...body.split('\n').map((line) => (line ? `  ${line}` : line)));
+
+  // Like the interpreter, a loop whose exit node was skipped by a branch ends
+  if (gated) lines.push(`    if (!active.has('${loop.exit}')) break;`);
+  if (exitWhen) {
+    lines.push(
+      `    if ((context.results['${resultKeys[loop.exit]}'] as Record<string, unknown> | undefined)?.[${toTypeScriptString(exitWhen)}]) break;`
+    );
+  }
+  lines.push('  }');
+  return lines.join('\n');
+}
+
+function generateTypeScript(nodes: AgentNode[], edges: Edge[]): string {
+  const names = nodeIdentifiers(nodes, toCamelIdentifier);
+  const resultKeys = nodeIdentifiers(nodes, toSnakeCase);
+  const connected = validEdges(nodes, edges);
+
+  const handlers = nodes
+    .map((node) => {
+      const name = names[node.id];
+      const body = typeScriptNodeBody(node, name, parentNames(node.id, connected, resultKeys));
+      // Underscore keeps strict (noUnusedParameters) builds of the export clean
+      const contextParam = body.includes('context.') ? 'context' : '_context';
+      return `/**
+ * ${node.data.label} (${node.data.type}) - node id: ${node.id}
+ * ${nodeConfigs[node.data.type].description}
+ */
+export const ${name}Config = ${JSON.stringify(node.data.config, null, 2)};
+
+async function ${name}(${contextParam}: FlowContext): Promise<unknown> {
+  ${indent(body, 2)}
+}`;
+    })
+    .join('\n\n');
+
+  const branching = hasConditionalEdges(connected);
+  const loops = validLoops(nodes, edges);
+  const emitSteps = (plan: PlanStep[]): string =>
+    plan
+      .map((step) => {
+        if ('loop' in step) return typeScriptLoop(step.loop, emitSteps(step.steps), nodes, resultKeys, connected, branching);
+        const node = nodes.find((n) => n.id === step.nodeId)!;
+        const call = `context.results['${resultKeys[node.id]}'] = await nodes['${node.id}'](context);`;
+        if (!branching) {
+          return `  // Execute: ${node.data.label}
+  ${call}`;
+        }
+        const activation = typeScriptActivation(node.id, resultKeys[node.id], connected);
+        return `  // Execute: ${node.data.label}
+  if (active.has('${node.id}')) {
+    ${call}${activation ? `\n${activation}` : ''}
+  }`;
+      })
+      .join('\n\n');
+  const steps = emitSteps(getExecutionPlan(nodes, [...connected, ...loops.map((loop) => loop.edge)]));
+  const roots = nodes.filter((n) => !connected.some((e) => e.target === n.id));
+
+  return `/**
+ * Agentic Workflow - Generated by Flow Designer
+ * Target: TypeScript module
+ *
+ * This is a one-way export; edit the flow on the canvas and regenerate.
+ * Node Count: ${nodes.length}
+ * Edge Count: ${edges.length}
+ */
+
+export interface FlowContext {
+  input: Record<string, unknown>;
+  results: Record<string, unknown>;
+}
+
+export type NodeHandler = (context: FlowContext) => Promise<unknown>;
+
+// ============================================
+// Nodes
+// ============================================
+
+${handlers}
+
+// ============================================
+// Workflow Definition
+// ============================================
+
+export const nodes: Record<string, NodeHandler> = {
+${nodes.map((n) => `  '${n.id}': ${names[n.id]},`).join('\n')}
+};
+
+// [source, target, condition?] - conditional edges only run when the source's branch matches
+export const edgeTopology: [string, string, string?][] = [
+${connected
+  .map((e) => `  ['${e.source}', '${e.target}'${getEdgeCondition(e) ? `, ${toTypeScriptString(getEdgeCondition(e)!)}` : ''}],`)
+  .join('\n')}
+];
+
+export async function runWorkflow(input: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const context: FlowContext = { input, results: {} };${
+    branching ? `\n  const active = new Set<string>([${roots.map((n) => `'${n.id}'`).join(', ')}]);` : ''
+  }${loops.length > 0 ? '\n  let iteration: number;' : ''}
+
+${steps}
+
+  return context.results;
+}
+`;
+}
+
+registerCodeTarget({
+  id: 'typescript',
+  label: 'TypeScript',
+  language: 'typescript',
+  fileExtension: 'ts',
+  supportedTypes: (Object.keys(nodeConfigs) as AgentPatternType[]).filter((t) => !PYTHON_ONLY_TYPES.includes(t)),
+  generate: (nodes, edges) => ({
+    code: generateTypeScript(nodes, edges),
+    canRoundTrip: false,
+    warnings: exportWarnings(nodes, edges, 'TypeScript'),
+  }),
+});
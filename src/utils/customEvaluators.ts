@@ -0,0 +1,242 @@
+// Custom Evaluators
+// User-defined evaluators saved with the project: JavaScript functions run in
+// the tool sandbox, JSONPath/regex assertions and JSON Schema conformance
+// checks. Each definition is registered next to the built-in evaluators.
+
+import type {
+  CustomEvaluatorDefinition,
+  CustomEvaluatorKind,
+  CustomEvaluatorType,
+  EvaluatorResult,
+} from '../types/evaluation';
+import { DEFAULT_CUSTOM_EVALUATOR_CODE } from '../types/evaluation';
+import { registerEvaluator, type EvaluatorFn } from './evaluators';
+import { generateId } from './datasetManager';
+import { callTool, validateToolArguments } from './toolRuntime';
+
+// Evaluators run once per data point, so a stuck function fails fast
+const JAVASCRIPT_TIMEOUT_MS = 5000;
+
+// ============================================
+// Definitions
+// ============================================
+
+export function createCustomEvaluator(kind: CustomEvaluatorKind): CustomEvaluatorDefinition {
+  return {
+    id: generateId(),
+    name: 'New evaluator',
+    description: '',
+    kind,
+    code: DEFAULT_CUSTOM_EVALUATOR_CODE,
+    path: '$',
+    operator: 'matches',
+    pattern: '',
+    schema: '{\n  "type": "object",\n  "required": []\n}',
+    threshold: 0.7,
+  };
+}
+
+export function getCustomEvaluatorType(definition: CustomEvaluatorDefinition): CustomEvaluatorType {
+  return `custom:${definition.id}`;
+}
+
+function parsePattern(pattern: string): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+}
+
+// Problems that stop the evaluator from running, for the editor
+export function validateCustomEvaluator(definition: CustomEvaluatorDefinition): string[] {
+  const errors: string[] = [];
+  if (!definition.name.trim()) errors.push('Name is required');
+
+  const check = (action: () => void, message: string) => {
+    try {
+      action();
+    } catch (e) {
+      errors.push(`${message}: ${(e as Error).message}`);
+    }
+  };
+  if (definition.kind === 'javascript' && !definition.code.trim()) errors.push('Function is required');
+  if (definition.kind === 'assertion') {
+    check(() => selectJsonPath({}, definition.path || '$'), 'Invalid JSONPath');
+    if (definition.operator === 'matches') check(() => parsePattern(definition.pattern), 'Invalid pattern');
+  }
+  if (definition.kind === 'json_schema') {
+    check(() => {
+      const schema = JSON.parse(definition.schema);
+      if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+        throw new Error('the schema must be a JSON object');
+      }
+    }, 'Invalid schema');
+  }
+  return errors;
+}
+
+// ============================================
+// JSONPath
+// ============================================
+
+const PATH_SEGMENT = /\.([A-Za-z_$][\w$-]*)|\.\*|\[\*\]|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/y;
+
+/**
+ * Selects values with the JSONPath subset assertions need: `$`, `.key`,
+ * `['key']`, `[n]` and the `[*]` / `.*` wildcards. Missing keys select nothing.
+ */
+export function selectJsonPath(value: unknown, path: string): unknown[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) throw new Error('a path starts with $');
+
+  let selected = [value];
+  PATH_SEGMENT.lastIndex = 1;
+  while (PATH_SEGMENT.lastIndex < trimmed.length) {
+    const start = PATH_SEGMENT.lastIndex;
+    const match = PATH_SEGMENT.exec(trimmed);
+    if (!match) throw new Error(`unexpected "${trimmed.slice(start)}"`);
+
+    const key = match[1] ?? match[3] ?? match[4];
+    const index = match[2];
+    selected = selected.flatMap((item) => {
+      if (typeof item !== 'object' || item === null) return [];
+      if (key !== undefined) return key in item ? [(item as Record<string, unknown>)[key]] : [];
+      if (index !== undefined) return Array.isArray(item) && Number(index) < item.length ? [item[Number(index)]] : [];
+      return Object.values(item);
+    });
+  }
+  return selected;
+}
+
+// ============================================
+// Evaluators
+// ============================================
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+type Verdict = Pick<EvaluatorResult, 'score' | 'passed' | 'details'>;
+
+function runAssertion(definition: CustomEvaluatorDefinition, actual: unknown, expected: unknown): Verdict {
+  const path = definition.path.trim() || '$';
+  const values = selectJsonPath(actual, path);
+  if (values.length === 0) {
+    return { score: 0, passed: false, details: { actual, reasoning: `${path} selects nothing in the output` } };
+  }
+
+  if (definition.operator === 'exists') {
+    return { score: 1, passed: true, details: { actual: values, reasoning: `${path} selects ${values.length} value(s)` } };
+  }
+
+  if (definition.operator === 'equals_expected') {
+    const wanted = expected === undefined ? [] : selectJsonPath(expected, path);
+    const equal = wanted.filter((w, i) => toText(w) === toText(values[i])).length;
+    const score = equal / Math.max(wanted.length, values.length);
+    return {
+      score,
+      passed: score === 1,
+      details: {
+        expected: wanted,
+        actual: values,
+        reasoning: `${equal} of ${Math.max(wanted.length, values.length)} value(s) at ${path} equal the expected output`,
+      },
+    };
+  }
+
+  const regex = parsePattern(definition.pattern);
+  const matching = values.filter((v) => regex.test(toText(v))).length;
+  return {
+    score: matching / values.length,
+    passed: matching === values.length,
+    details: { actual: values, reasoning: `${matching} of ${values.length} value(s) at ${path} match ${regex}` },
+  };
+}
+
+function runSchemaCheck(definition: CustomEvaluatorDefinition, actual: unknown): Verdict {
+  const errors = validateToolArguments(JSON.parse(definition.schema), actual, '$');
+  return {
+    score: errors.length === 0 ? 1 : 0,
+    passed: errors.length === 0,
+    details: { actual, reasoning: errors.length === 0 ? 'The output conforms to the schema' : errors.join('\n') },
+  };
+}
+
+// The function may return a score, a boolean, or { score, passed, reasoning }
+function readJavaScriptResult(definition: CustomEvaluatorDefinition, value: unknown): Verdict {
+  if (typeof value === 'boolean') return { score: value ? 1 : 0, passed: value, details: {} };
+
+  const returned = typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : { score: value };
+  const score = Number(returned.score ?? (returned.passed === undefined ? NaN : returned.passed ? 1 : 0));
+  if (!Number.isFinite(score)) {
+    throw new Error('The function must return a score, a boolean or { score, passed, reasoning }');
+  }
+  const clamped = Math.min(1, Math.max(0, score));
+  return {
+    score: clamped,
+    passed: typeof returned.passed === 'boolean' ? returned.passed : clamped >= definition.threshold,
+    details: { reasoning: returned.reasoning === undefined ? undefined : String(returned.reasoning) },
+  };
+}
+
+async function runJavaScript(
+  definition: CustomEvaluatorDefinition,
+  args: Record<string, unknown>
+): Promise<Verdict> {
+  const trace = await callTool(
+    {
+      name: definition.name,
+      kind: 'custom',
+      description: definition.description,
+      parameters: { type: 'object' },
+      requiresApproval: false,
+      config: { code: `return await (${definition.code})(args.actual, args.expected, args.config, args.context);` },
+    },
+    args,
+    { timeoutMs: JAVASCRIPT_TIMEOUT_MS }
+  );
+  if (trace.status === 'failed') throw new Error(trace.error);
+  return readJavaScriptResult(definition, trace.toolOutput);
+}
+
+// Errors in a definition fail the evaluator with the reason instead of the evaluation
+export function createCustomEvaluatorFn(definition: CustomEvaluatorDefinition): EvaluatorFn {
+  return async (actual, expected, config, context) => {
+    const startTime = Date.now();
+    let verdict: Verdict;
+    try {
+      if (definition.kind === 'assertion') {
+        verdict = runAssertion(definition, actual, expected);
+      } else if (definition.kind === 'json_schema') {
+        verdict = runSchemaCheck(definition, actual);
+      } else {
+        // The worker only receives data; the judge model stays on this side
+        verdict = await runJavaScript(definition, {
+          actual,
+          expected: expected ?? null,
+          config,
+          context: {
+            input: context?.input ?? {},
+            trajectory: context?.trajectory ?? [],
+            expectedTrajectory: context?.expectedTrajectory ?? [],
+            contextUsed: context?.contextUsed ?? null,
+            executionTrace: context?.executionTrace ?? [],
+          },
+        });
+      }
+    } catch (e) {
+      verdict = { score: 0, passed: false, details: { actual, reasoning: `Evaluator failed: ${(e as Error).message}` } };
+    }
+
+    return {
+      evaluatorType: getCustomEvaluatorType(definition),
+      evaluatorName: definition.name,
+      ...verdict,
+      latencyMs: Date.now() - startTime,
+    };
+  };
+}
+
+export function registerCustomEvaluators(definitions: CustomEvaluatorDefinition[]): void {
+  definitions.forEach((definition) =>
+    registerEvaluator(getCustomEvaluatorType(definition), createCustomEvaluatorFn(definition))
+  );
+}
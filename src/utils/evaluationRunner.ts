@@ -0,0 +1,161 @@
+// Evaluation Runner
+// Executes the flow, or the part of it an evaluation targets, for every data
+// point in a dataset and scores the real output and trajectory.
+
+import type { Edge } from '@xyflow/react';
+import type { AgentNode } from '../types';
+import type { ExecutionTrace } from '../types/execution';
+import type { DataPoint, EvaluationTarget, OfflineEvaluationConfig, TestCaseResult } from '../types/evaluation';
+import { runEvaluation, type ExecutionStep } from './evaluators';
+import { runFlow, type InterpreterOptions } from './flowInterpreter';
+import type { JudgeModel } from './llmJudge';
+import { getForwardEdges } from './loops';
+
+// ============================================
+// Evaluation Scope
+// ============================================
+
+function reachable(start: string, edges: Edge[], direction: 'forward' | 'backward'): Set<string> {
+  const seen = new Set([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    edges.forEach((e) => {
+      const [from, to] = direction === 'forward' ? [e.source, e.target] : [e.target, e.source];
+      if (from === id && !seen.has(to)) {
+        seen.add(to);
+        queue.push(to);
+      }
+    });
+  }
+  return seen;
+}
+
+/**
+ * The nodes and edges an evaluation runs. A subgraph with a start and end
+ * node covers every node on a path between them; otherwise node and subgraph
+ * scopes run the listed nodes. Only edges inside the scope are kept, so the
+ * scope's roots receive the data point input.
+ */
+export function getEvaluationFlow(
+  nodes: AgentNode[],
+  edges: Edge[],
+  target: EvaluationTarget
+): { nodes: AgentNode[]; edges: Edge[] } {
+  if (target.scope === 'flow') return { nodes, edges };
+
+  let ids = new Set(target.nodeIds ?? []);
+  if (target.scope === 'subgraph' && target.startNodeId && target.endNodeId) {
+    const forward = getForwardEdges(edges);
+    const fromStart = reachable(target.startNodeId, forward, 'forward');
+    const toEnd = reachable(target.endNodeId, forward, 'backward');
+    ids = new Set([...fromStart].filter((id) => toEnd.has(id)));
+  }
+  return {
+    nodes: nodes.filter((n) => ids.has(n.id)),
+    edges: edges.filter((e) => ids.has(e.source) && ids.has(e.target)),
+  };
+}
+
+// ============================================
+// Execution
+// ============================================
+
+export interface DataPointExecution {
+  output: Record<string, unknown>;
+  trajectory: string[]; // Node ids in the order they ran, repeated by loops
+  steps: ExecutionStep[];
+  traces: ExecutionTrace[];
+  durationMs: number;
+  error?: string;
+}
+
+function toExecutionStep(trace: ExecutionTrace): ExecutionStep {
+  return {
+    nodeId: trace.nodeId,
+    nodeName: trace.nodeName,
+    nodeType: trace.nodeType,
+    input: trace.input,
+    output: trace.output,
+    durationMs: trace.durationMs,
+    timestamp: trace.startedAt,
+  };
+}
+
+// Runs without an approval queue: humanInLoop nodes auto-approve unless the
+// data point input sets `approved: false`
+export async function executeDataPoint(
+  nodes: AgentNode[],
+  edges: Edge[],
+  dataPoint: DataPoint,
+  options: InterpreterOptions = {}
+): Promise<DataPointExecution> {
+  const started = performance.now();
+  const result = await runFlow(nodes, edges, dataPoint.input, options);
+  const error = result.status === 'cancelled' ? 'Run cancelled' : result.error;
+
+  return {
+    output: result.output ?? {},
+    trajectory: result.traces.map((t) => t.nodeId),
+    steps: result.traces.map(toExecutionStep),
+    traces: result.traces,
+    durationMs: Math.round(performance.now() - started),
+    error,
+  };
+}
+
+export interface EvaluationProgress {
+  completed: number;
+  total: number;
+}
+
+export interface EvaluationOptions extends InterpreterOptions {
+  judge?: JudgeModel; // Grades LLM judge evaluators; the stub judge does without one
+  onProgress?: (progress: EvaluationProgress) => void;
+}
+
+/**
+ * Runs every data point `runCount` times and scores each trial. A trial whose
+ * run failed is scored on what it produced and never passes. The latency of
+ * a result is the flow run plus the evaluators.
+ */
+export async function runOfflineEvaluation(
+  nodes: AgentNode[],
+  edges: Edge[],
+  dataPoints: DataPoint[],
+  config: OfflineEvaluationConfig,
+  options: EvaluationOptions = {}
+): Promise<TestCaseResult[]> {
+  const { judge, onProgress, ...runOptions } = options;
+  const flow = getEvaluationFlow(nodes, edges, config.target);
+  if (flow.nodes.length === 0) throw new Error('The evaluation scope has no nodes');
+
+  const trials = Math.max(1, config.runCount ?? 1);
+  const total = dataPoints.length * trials;
+  const results: TestCaseResult[] = [];
+  onProgress?.({ completed: 0, total });
+
+  for (const dataPoint of dataPoints) {
+    for (let trial = 1; trial <= trials; trial++) {
+      if (options.signal?.aborted) throw new DOMException('Evaluation cancelled', 'AbortError');
+      const execution = await executeDataPoint(flow.nodes, flow.edges, dataPoint, runOptions);
+      const result = await runEvaluation(
+        dataPoint,
+        execution.output,
+        execution.trajectory,
+        config.evaluators,
+        execution.steps,
+        judge
+      );
+      results.push({
+        ...result,
+        passed: result.passed && !execution.error,
+        executionTimeMs: execution.durationMs + result.executionTimeMs,
+        error: execution.error,
+        trial: trials > 1 ? trial : undefined,
+      });
+      onProgress?.({ completed: results.length, total });
+    }
+  }
+  return results;
+}
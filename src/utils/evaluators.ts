@@ -9,6 +9,7 @@ import type {
   TestCaseResult,
   EvaluationSummary,
 } from '../types/evaluation';
+import { JudgeReplyError, createStubJudge, runJudge, type JudgeModel, type JudgeRequest } from './llmJudge';
 
 // ============================================
 // Core Evaluator Interface
@@ -29,6 +30,7 @@ export interface EvaluationContext {
   expectedTrajectory?: string[];
   contextUsed?: string;
   executionTrace?: ExecutionStep[];
+  judge?: JudgeModel; // LLM judge evaluators fall back to the stub judge without one
 }
 
 export interface ExecutionStep {
@@ -45,7 +47,8 @@ export interface ExecutionStep {
 // Evaluator Registry
 // ============================================
 
-const evaluatorRegistry: Record<EvaluatorType, EvaluatorFn> = {
+// Built-ins; custom evaluators are registered from the project's definitions
+const evaluatorRegistry: Partial<Record<EvaluatorType, EvaluatorFn>> = {
   exact_match: exactMatchEvaluator,
   contains: containsEvaluator,
   json_similarity: jsonSimilarityEvaluator,
@@ -55,7 +58,11 @@ const evaluatorRegistry: Record<EvaluatorType, EvaluatorFn> = {
   trajectory_match: trajectoryMatchEvaluator,
 };
 
-export function getEvaluator(type: EvaluatorType): EvaluatorFn {
+export function registerEvaluator(type: EvaluatorType, evaluator: EvaluatorFn): void {
+  evaluatorRegistry[type] = evaluator;
+}
+
+export function getEvaluator(type: EvaluatorType): EvaluatorFn | undefined {
   return evaluatorRegistry[type];
 }
 
@@ -420,177 +427,108 @@ function calculateCoverage(response: string, expected: string): number {
 }
 
 // ============================================
-// LLM Judge Output Evaluator
+// LLM Judge Evaluators
 // ============================================
 
+// Judge replies that fail or cannot be parsed score zero and say why
+async function judgeEvaluatorResult(
+  evaluatorType: EvaluatorType,
+  evaluatorName: string,
+  request: JudgeRequest,
+  details: { expected?: unknown; actual?: unknown },
+  judge: JudgeModel = { provider: createStubJudge() }
+): Promise<EvaluatorResult> {
+  const startTime = Date.now();
+  try {
+    const verdict = await runJudge(request, judge);
+    return {
+      evaluatorType,
+      evaluatorName,
+      score: verdict.score,
+      passed: verdict.score >= 0.7, // 70% threshold
+      details: { ...details, reasoning: verdict.reasoning, breakdown: verdict.scores, judge: verdict.usage },
+      latencyMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    return {
+      evaluatorType,
+      evaluatorName,
+      score: 0,
+      passed: false,
+      details: {
+        ...details,
+        reasoning: `Judge failed: ${(error as Error).message}`,
+        judge: error instanceof JudgeReplyError ? error.usage : undefined,
+      },
+      latencyMs: Date.now() - startTime,
+    };
+  }
+}
+
 async function llmJudgeOutputEvaluator(
   actual: unknown,
   expected: unknown,
   config: Record<string, unknown>,
-  _context?: EvaluationContext
+  context?: EvaluationContext
 ): Promise<EvaluatorResult> {
-  const startTime = Date.now();
-  const criteria = (config.criteria as string[]) || ['accuracy', 'relevance', 'completeness'];
-  const scoreScale = (config.scoreScale as number) ?? 5;
-  // rubric can be used for custom evaluation criteria in future
-  void config.rubric;
-
-  // In a real implementation, this would call an LLM API
-  // For demo purposes, we'll simulate the evaluation
-  const simulatedScores: Record<string, number> = {};
-  let totalScore = 0;
-
-  for (const criterion of criteria) {
-    // Simulate scoring based on basic heuristics
-    const score = simulateLLMScore(actual, expected, criterion);
-    simulatedScores[criterion] = score;
-    totalScore += score;
-  }
-
-  const averageScore = totalScore / criteria.length;
-  const normalizedScore = averageScore / scoreScale;
-  const passed = normalizedScore >= 0.7; // 70% threshold
-
-  return {
-    evaluatorType: 'llm_judge_output',
-    evaluatorName: 'LLM Judge (Output)',
-    score: normalizedScore,
-    passed,
-    details: {
-      expected,
-      actual,
-      reasoning: generateLLMReasoning(simulatedScores, criteria),
-      breakdown: simulatedScores,
-    },
-    latencyMs: Date.now() - startTime,
+  const request: JudgeRequest = {
+    model: (config.model as string) || 'gpt-4',
+    subject: 'the output an AI workflow produced for the given input',
+    criteria: (config.criteria as string[]) || ['accuracy', 'relevance', 'completeness'],
+    rubric: config.rubric as string | undefined,
+    scoreScale: (config.scoreScale as number) ?? 5,
+    input: context?.input ?? {},
+    actual,
+    expected,
   };
+  return judgeEvaluatorResult('llm_judge_output', 'LLM Judge (Output)', request, { expected, actual }, context?.judge);
 }
 
-function simulateLLMScore(actual: unknown, expected: unknown, criterion: string): number {
-  // Simulate LLM scoring - in production this calls an actual LLM
-  const actualStr = String(actual).toLowerCase();
-  const expectedStr = String(expected).toLowerCase();
-
-  switch (criterion) {
-    case 'accuracy':
-      return stringSimilarity(actualStr, expectedStr) * 5;
-    case 'relevance':
-      return actualStr.length > 0 ? 3.5 + Math.random() * 1.5 : 1;
-    case 'completeness':
-      return Math.min(actualStr.length / Math.max(expectedStr.length, 1), 1) * 5;
-    case 'coherence':
-      return actualStr.split(/[.!?]/).length > 1 ? 4 : 2.5;
-    case 'safety':
-      return 4.5; // Default safe
-    default:
-      return 3 + Math.random() * 2;
-  }
-}
-
-function generateLLMReasoning(scores: Record<string, number>, criteria: string[]): string {
-  const parts: string[] = [];
-
-  for (const criterion of criteria) {
-    const score = scores[criterion] || 0;
-    const rating = score >= 4 ? 'strong' : score >= 3 ? 'adequate' : 'weak';
-    parts.push(`${criterion}: ${rating} (${score.toFixed(1)}/5)`);
-  }
-
-  return `Evaluation Summary:\n${parts.join('\n')}`;
+// One line per node run, with its output cut short
+function describeSteps(steps: ExecutionStep[]): string {
+  return steps
+    .map((step, i) => {
+      const output = JSON.stringify(step.output ?? null);
+      return `${i + 1}. ${step.nodeId} (${step.nodeType}, ${step.durationMs}ms): ${output.length > 200 ? `${output.slice(0, 200)}...` : output}`;
+    })
+    .join('\n');
 }
 
-// ============================================
-// LLM Judge Trajectory Evaluator
-// ============================================
-
 async function llmJudgeTrajectoryEvaluator(
   _actual: unknown,
   _expected: unknown,
   config: Record<string, unknown>,
   context?: EvaluationContext
 ): Promise<EvaluatorResult> {
-  const startTime = Date.now();
   const allowExtraSteps = config.allowExtraSteps as boolean ?? true;
   const evaluateReasoning = config.evaluateReasoning as boolean ?? true;
-
+  const expectedSteps = (config.expectedSteps as string[] | undefined) ?? context?.expectedTrajectory;
   const actualTrajectory = context?.trajectory || [];
-  const expectedTrajectory = context?.expectedTrajectory || [];
 
-  // Evaluate trajectory alignment
-  const trajectoryScore = evaluateTrajectoryAlignment(
-    actualTrajectory,
-    expectedTrajectory,
+  const rubric = [
+    config.rubric as string | undefined,
     allowExtraSteps
-  );
-
-  // Evaluate reasoning quality (simulated)
-  const reasoningScore = evaluateReasoning ? simulateReasoningScore(context?.executionTrace) : 1;
-
-  const score = evaluateReasoning
-    ? trajectoryScore * 0.6 + reasoningScore * 0.4
-    : trajectoryScore;
-
-  const passed = score >= 0.7;
-
-  return {
-    evaluatorType: 'llm_judge_trajectory',
-    evaluatorName: 'LLM Judge (Trajectory)',
-    score,
-    passed,
-    details: {
-      expected: expectedTrajectory,
-      actual: actualTrajectory,
-      reasoning: `Trajectory alignment: ${(trajectoryScore * 100).toFixed(1)}%${evaluateReasoning ? `\nReasoning quality: ${(reasoningScore * 100).toFixed(1)}%` : ''}`,
-      breakdown: {
-        trajectoryScore,
-        reasoningScore: evaluateReasoning ? reasoningScore : undefined,
-      } as Record<string, number>,
-    },
-    latencyMs: Date.now() - startTime,
+      ? 'Steps beyond the expected path are fine when they serve the goal.'
+      : 'Every step beyond the expected path lowers the path score.',
+  ].filter(Boolean).join('\n');
+
+  const request: JudgeRequest = {
+    model: (config.model as string) || 'gpt-4',
+    subject: 'the execution path an AI workflow took for the given input',
+    criteria: (config.criteria as string[]) || (evaluateReasoning ? ['path', 'reasoning'] : ['path']),
+    rubric,
+    scoreScale: (config.scoreScale as number) ?? 5,
+    input: context?.input ?? {},
+    actual: context?.executionTrace?.length ? describeSteps(context.executionTrace) : actualTrajectory.join(' -> '),
+    expected: expectedSteps?.length ? expectedSteps.join(' -> ') : undefined,
   };
-}
-
-function evaluateTrajectoryAlignment(
-  actual: string[],
-  expected: string[],
-  allowExtra: boolean
-): number {
-  if (expected.length === 0) return actual.length === 0 ? 1 : 0.5;
-
-  let matchedSteps = 0;
-  let expectedIndex = 0;
-
-  for (const step of actual) {
-    if (expectedIndex < expected.length && step === expected[expectedIndex]) {
-      matchedSteps++;
-      expectedIndex++;
-    } else if (!allowExtra) {
-      // Penalty for extra steps when not allowed
-      matchedSteps -= 0.5;
-    }
-  }
-
-  const coverageScore = matchedSteps / expected.length;
-  const extraPenalty = allowExtra ? 0 : Math.max(0, actual.length - expected.length) * 0.1;
-
-  return Math.max(0, Math.min(1, coverageScore - extraPenalty));
-}
-
-function simulateReasoningScore(trace?: ExecutionStep[]): number {
-  if (!trace || trace.length === 0) return 0.5;
-
-  // Simulate reasoning evaluation based on trace quality
-  let score = 0.5;
-
-  // Reward for having outputs at each step
-  const stepsWithOutput = trace.filter(s => s.output !== null && s.output !== undefined);
-  score += (stepsWithOutput.length / trace.length) * 0.3;
-
-  // Reward for reasonable execution times
-  const avgLatency = trace.reduce((sum, s) => sum + s.durationMs, 0) / trace.length;
-  if (avgLatency < 5000) score += 0.2;
-
-  return Math.min(1, score);
+  return judgeEvaluatorResult(
+    'llm_judge_trajectory',
+    'LLM Judge (Trajectory)',
+    request,
+    { expected: expectedSteps ?? [], actual: actualTrajectory },
+    context?.judge
+  );
 }
 
 // ============================================
@@ -741,7 +679,8 @@ export async function runEvaluation(
   actualOutput: Record<string, unknown>,
   actualTrajectory: string[],
   evaluators: EvaluatorConfig[],
-  executionTrace?: ExecutionStep[]
+  executionTrace?: ExecutionStep[],
+  judge?: JudgeModel
 ): Promise<TestCaseResult> {
   const startTime = Date.now();
   const evaluatorResults: EvaluatorResult[] = [];
@@ -752,16 +691,21 @@ export async function runEvaluation(
     expectedTrajectory: dataPoint.expectedTrajectory,
     contextUsed: dataPoint.context,
     executionTrace,
+    judge,
   };
 
   for (const evaluator of evaluators) {
     const evalFn = getEvaluator(evaluator.type);
-    const result = await evalFn(
-      actualOutput,
-      dataPoint.expectedOutput,
-      evaluator.config,
-      context
-    );
+    const result: EvaluatorResult = evalFn
+      ? await evalFn(actualOutput, dataPoint.expectedOutput, evaluator.config, context)
+      : {
+          evaluatorType: evaluator.type,
+          evaluatorName: evaluator.name,
+          score: 0,
+          passed: false,
+          details: { reasoning: `No evaluator is registered for "${evaluator.type}"` },
+          latencyMs: 0,
+        };
 
     // Apply weight
     result.score *= evaluator.weight;
@@ -835,6 +779,10 @@ export function calculateSummary(results: TestCaseResult[]): EvaluationSummary {
       ).length / trajectoryResults.length
     : undefined;
 
+  const judgeUsage = results.flatMap(r => r.evaluatorResults.map(e => e.details.judge).filter(j => j !== undefined));
+  const judgeTokens = judgeUsage.reduce((sum, j) => sum + j.tokensInput + j.tokensOutput, 0);
+  const judgeCost = judgeUsage.reduce((sum, j) => sum + (j.cost ?? 0), 0);
+
   return {
     totalTests: results.length,
     passed,
@@ -844,5 +792,7 @@ export function calculateSummary(results: TestCaseResult[]): EvaluationSummary {
     scoreByEvaluator: averageByEvaluator,
     averageLatencyMs: results.reduce((sum, r) => sum + r.executionTimeMs, 0) / results.length,
     trajectoryAccuracy,
+    judgeTokens: judgeTokens || undefined,
+    judgeCost: judgeCost || undefined,
   };
 }
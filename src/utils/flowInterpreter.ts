@@ -0,0 +1,1213 @@
+// Flow Interpreter
+// Runs a flow in the browser by walking the graph: roots receive the run
+// input, every node receives the merged outputs of the predecessors that
+// activated it, and routing nodes only activate the edges bound to their
+// branch. Node behaviour is deterministic, so the same input always produces
+// the same traces. Interactive runs pause at humanInLoop nodes and resume
+// from a checkpoint once reviewers decide.
+
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, AgentPatternType, HITLPattern } from '../types';
+import type {
+  ApprovalType,
+  ApprovalVote,
+  ExecutionStatus,
+  ExecutionSummary,
+  ExecutionTrace,
+  ModelPricing,
+  PendingApproval,
+  RunBudget,
+  RunCheckpoint,
+  ToolCallTrace,
+  TraceMetadata,
+} from '../types/execution';
+import type { ChatMessage, TokenUsage } from '../types/providers';
+import { createExecutionTrace } from '../types/execution';
+import { nodeConfigs } from './nodeConfig';
+import { getBranchDispatch, toLineList } from './branching';
+import { approvalKey, resolveApproval } from './approvals';
+import {
+  DEFAULT_MODEL_PRICING,
+  checkBudget,
+  estimateCost,
+  getUsage,
+  planModelCall,
+  truncateToTokens,
+  type ModelCallPlan,
+  type Usage,
+} from './budgets';
+import { estimatePromptTokens, type ModelProvider } from './modelProviders';
+import { callTool, toToolSpec, type RetryPolicy, type ToolSpec } from './toolRuntime';
+import { getExecutionPlan, getForwardEdges, type FlowLoop, type PlanStep } from './loops';
+
+// ============================================
+// Executor Interface
+// ============================================
+
+export interface NodeRunContext {
+  input: Record<string, unknown>; // Merged outputs of the activating predecessors
+  inputs: Record<string, Record<string, unknown>>; // The same outputs keyed by predecessor id
+  runInput: Record<string, unknown>;
+  results: Record<string, Record<string, unknown>>; // Latest output of every node that ran
+  stores: Record<string, Record<string, unknown>>; // Context stores written by contextWrite/memory nodes
+  iteration?: number;
+  provider?: ModelProvider;
+  signal?: AbortSignal;
+  approvals?: Record<string, ApprovalVote[]>; // Reviewer votes by approval key; unset for unattended runs
+  onToken?: (delta: string) => void; // Streams completion tokens into the node's trace
+  onReasoning?: (delta: string) => void; // Streams intermediate reasoning into the node's trace
+  limits?: ModelLimits; // Set while a run budget applies
+}
+
+// Constraints a run budget puts on a node's model calls
+export interface ModelLimits {
+  model?: string; // Replaces the configured model once the run is degraded
+  maxPromptTokens?: number; // Prompts are trimmed to this size once the run is degraded
+  budget: RunBudget; // Every model call is projected against it before it is sent
+  used: Usage; // Run usage before this node
+  pricing: ModelPricing[];
+}
+
+export interface NodeOutcome {
+  output: Record<string, unknown>;
+  explanation?: string;
+  metadata?: Partial<TraceMetadata>; // Model and token usage
+  toolCalls?: ToolCallTrace[];
+  error?: string; // Fails the node while keeping its output and tool calls
+  awaiting?: PendingApproval; // Pauses the run until a reviewer decides
+}
+
+export type NodeExecutor = (node: AgentNode, context: NodeRunContext) => NodeOutcome | Promise<NodeOutcome>;
+
+// ============================================
+// Executor Registry
+// ============================================
+
+const executorRegistry: Partial<Record<AgentPatternType, NodeExecutor>> = {};
+
+export function registerNodeExecutor(type: AgentPatternType, executor: NodeExecutor): void {
+  executorRegistry[type] = executor;
+}
+
+export function getNodeExecutor(type: AgentPatternType): NodeExecutor | undefined {
+  return executorRegistry[type];
+}
+
+// ============================================
+// Value Helpers
+// ============================================
+
+type Row = Record<string, unknown>;
+
+function isRecord(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// JSON fields may hold the raw text when the editor could not parse it
+function parseJsonField<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string') return (value ?? fallback) as T;
+  try {
+    return value.trim() ? (JSON.parse(value) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Looks a field up in the node input first, then in the run input; dotted paths reach into objects
+function lookup(path: string, ...sources: Row[]): unknown {
+  for (const source of sources) {
+    const value = path.split('.').reduce<unknown>((acc, key) => (isRecord(acc) ? acc[key] : undefined), source);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+// The text a node works on: the first text-like field of its input
+function textOf(context: NodeRunContext): string {
+  const keys = ['text', 'response', 'content', 'summary', 'synthesis', 'answer', 'query', 'message'];
+  for (const source of [context.input, context.runInput]) {
+    const key = keys.find((k) => typeof source[k] === 'string' && source[k]);
+    if (key) return source[key] as string;
+  }
+  return JSON.stringify(context.input);
+}
+
+function rowsOf(value: unknown): Row[] {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function sentences(text: string): string[] {
+  return (
+    text
+      .match(/[^.!?\n]+[.!?]*/g)
+      ?.map((s) => s.trim())
+      .filter(Boolean) ?? []
+  );
+}
+
+// Replaces {{field}} placeholders with values from the node and run input
+function renderTemplate(template: string, context: NodeRunContext): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, path: string) => {
+    const value = lookup(path, context.input, context.runInput);
+    if (value === undefined) return match;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+function coerce(value: unknown, type: string): unknown {
+  if (value === undefined || value === null) return null;
+  switch (type) {
+    case 'number': {
+      const n = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^\d.-]/g, ''));
+      return Number.isNaN(n) ? null : n;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : ['true', 'yes', '1'].includes(String(value).toLowerCase());
+    case 'array':
+      return Array.isArray(value) ? value : [value];
+    case 'object':
+      return isRecord(value) ? value : null;
+    default:
+      return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
+
+/**
+ * Evaluates a routing rule. Rules either name a field, operator and value
+ * (`{ field, operator, value }`) or carry an expression such as
+ * `amount > 1000`, `status == "open"` or `email exists` in `condition`.
+ */
+function matchesRule(rule: Row, data: Row[]): boolean {
+  let field = typeof rule.field === 'string' ? rule.field : '';
+  let operator = typeof rule.operator === 'string' ? rule.operator : '==';
+  let expected: unknown = rule.value;
+
+  if (!field && typeof rule.condition === 'string') {
+    const match = rule.condition.match(/^\s*([\w.]+)\s*(?:(exists)|(==|!=|>=|<=|>|<|contains)\s*(.+?))\s*$/);
+    if (!match) return false;
+    field = match[1];
+    operator = match[2] ?? match[3];
+    if (match[4] !== undefined) expected = parseJsonField(match[4].replace(/^'(.*)'$/, '"$1"'), match[4]);
+  }
+  if (!field) return false;
+
+  const actual = lookup(field, ...data);
+  switch (operator) {
+    case '==':
+    case 'equals':
+      return actual === expected || String(actual) === String(expected);
+    case '!=':
+    case 'not_equals':
+      return String(actual) !== String(expected);
+    case '>':
+      return Number(actual) > Number(expected);
+    case '<':
+      return Number(actual) < Number(expected);
+    case '>=':
+      return Number(actual) >= Number(expected);
+    case '<=':
+      return Number(actual) <= Number(expected);
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.map(String).includes(String(expected))
+        : String(actual ?? '')
+            .toLowerCase()
+            .includes(String(expected).toLowerCase());
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    default:
+      return false;
+  }
+}
+
+// ============================================
+// Node Executors
+// ============================================
+
+/**
+ * Sends a node's prompt to the run's model provider. Without a provider the
+ * prepared prompt is returned as the response, so the data flow can still be followed.
+ */
+async function callModel(
+  node: AgentNode,
+  context: NodeRunContext,
+  prompt: string,
+  field: string,
+  extra: Row = {}
+): Promise<NodeOutcome> {
+  const config = node.data.config;
+  const model = context.limits?.model ?? String(config.model ?? config.planningModel ?? 'gpt-4');
+  if (!context.provider) {
+    return {
+      output: { [field]: prompt, ...extra },
+      explanation: `No model provider is configured; ${node.data.label} returns its prepared ${model} request`,
+    };
+  }
+
+  const messages: ChatMessage[] = [];
+  if (config.systemPrompt)
+    messages.push({ role: 'system', content: renderTemplate(String(config.systemPrompt), context) });
+  prompt = truncateToTokens(prompt, context.limits?.maxPromptTokens);
+  messages.push({ role: 'user', content: prompt });
+
+  const call = fitToBudget(context, model, messages, Number(config.maxTokens) > 0 ? Number(config.maxTokens) : undefined);
+  const budgetNote: Partial<TraceMetadata> = call.action ? { budgetAction: call.action, budgetReason: call.reason } : {};
+  if (call.action === 'aborted') return { output: { ...extra }, metadata: budgetNote, error: call.reason };
+
+  const response = await context.provider.chat(
+    {
+      model: call.model,
+      messages: call.messages,
+      temperature: config.temperature === undefined ? undefined : Number(config.temperature),
+      maxTokens: call.maxTokens,
+    },
+    { signal: context.signal, onToken: context.onToken, onReasoning: context.onReasoning }
+  );
+  return {
+    output: { [field]: response.content, ...extra },
+    explanation: `${context.provider.label} ${response.model} answered in ${response.usage.completionTokens} token(s)`,
+    metadata: {
+      ...usageMetadata(response.model, config.temperature, response.usage),
+      ...budgetNote,
+      prompt,
+      completion: response.content,
+    },
+  };
+}
+
+/**
+ * Projects a model call against the run budget before it is sent; `spent` is
+ * what the node used in its earlier calls. A degraded call moves to the
+ * fallback model with its user prompts trimmed.
+ */
+function fitToBudget(
+  context: NodeRunContext,
+  model: string,
+  messages: ChatMessage[],
+  maxTokens?: number,
+  spent: Usage = { tokens: 0, cost: 0 }
+): ModelCallPlan & { model: string; messages: ChatMessage[] } {
+  const limits = context.limits;
+  if (!limits) return { model, messages, maxTokens };
+  const used = { tokens: limits.used.tokens + spent.tokens, cost: limits.used.cost + spent.cost };
+  const plan = planModelCall(limits.budget, used, limits.pricing, model, estimatePromptTokens(messages), maxTokens);
+  if (plan.action !== 'degraded') return { ...plan, model, messages };
+
+  const fallback = limits.budget.fallbackModel;
+  const trimmed = messages.map((m) =>
+    m.role === 'user' ? { ...m, content: truncateToTokens(m.content, limits.budget.maxPromptTokens) } : m
+  );
+  const retry = planModelCall(limits.budget, used, limits.pricing, fallback, estimatePromptTokens(trimmed), maxTokens);
+  return { ...retry, action: retry.action ?? plan.action, reason: retry.reason ?? plan.reason, model: fallback, messages: trimmed };
+}
+
+function usageMetadata(model: string, temperature: unknown, usage: TokenUsage): Partial<TraceMetadata> {
+  return {
+    model,
+    temperature: temperature === undefined ? undefined : Number(temperature),
+    tokensInput: usage.promptTokens,
+    tokensOutput: usage.completionTokens,
+    tokensTotal: usage.totalTokens,
+  };
+}
+
+registerNodeExecutor('trigger', (_node, context) => ({
+  output: { ...context.runInput },
+  explanation: 'Passes the run input into the flow',
+}));
+
+registerNodeExecutor('output', (node, context) => {
+  const format = String(node.data.config.outputFormat ?? 'json');
+  const schema = parseJsonField<Row>(node.data.config.schema, {});
+  const fields = Object.keys(schema);
+
+  if (format === 'text') {
+    return { output: { text: textOf(context) }, explanation: 'Formats the upstream result as text' };
+  }
+  if (format === 'structured' && fields.length > 0) {
+    const output = Object.fromEntries(
+      fields.map((key) => [key, coerce(lookup(key, context.input, context.runInput), String(schema[key]))])
+    );
+    return { output, explanation: `Shapes the upstream result into ${fields.length} schema field(s)` };
+  }
+  return { output: { ...context.input }, explanation: 'Returns the upstream result as JSON' };
+});
+
+registerNodeExecutor('extraction', (node, context) => {
+  const schema = parseJsonField<Row>(node.data.config.schema, {});
+  const extracted: Row = {};
+  const missing: string[] = [];
+
+  Object.entries(schema).forEach(([key, type]) => {
+    const value = coerce(lookup(key, context.input, context.runInput), String(type));
+    extracted[key] = value;
+    if (value === null) missing.push(key);
+  });
+
+  const validate = Boolean(node.data.config.validateOutput);
+  return {
+    output: validate ? { extracted, valid: missing.length === 0, missing } : { extracted },
+    explanation: `Extracted ${Object.keys(schema).length - missing.length} of ${Object.keys(schema).length} schema field(s)`,
+  };
+});
+
+registerNodeExecutor('triage', (node, context) => {
+  const categories = toLineList(node.data.config.categories);
+  const threshold = Number(node.data.config.confidenceThreshold ?? 0.8);
+  const escalation = String(node.data.config.escalationRoute ?? '');
+  const text = textOf(context).toLowerCase();
+
+  // Confidence is the share of the category mentions that point at the winning category
+  const counts = categories.map((c) => text.split(c.toLowerCase()).length - 1);
+  const total = counts.reduce((a, b) => a + b, 0);
+  const best = counts.indexOf(Math.max(...counts, 0));
+  const confidence = total > 0 ? counts[best] / total : 0;
+
+  if (total === 0 || confidence < threshold) {
+    return {
+      output: { route: escalation, needs_review: true, branch: escalation, confidence },
+      explanation:
+        total === 0
+          ? 'No category matched; escalating'
+          : `Confidence ${confidence.toFixed(2)} is below ${threshold}; escalating`,
+    };
+  }
+  return {
+    output: { classification: categories[best], confidence, branch: categories[best] },
+    explanation: `Classified as "${categories[best]}"`,
+  };
+});
+
+registerNodeExecutor('rulesRouting', (node, context) => {
+  const rules = parseJsonField<unknown[]>(node.data.config.rules, []).filter(isRecord);
+  const firstMatch = node.data.config.evaluationMode !== 'all_matches';
+  const routes: string[] = [];
+
+  for (const rule of rules) {
+    if (!matchesRule(rule, [context.input, context.runInput])) continue;
+    routes.push(String(rule.route ?? ''));
+    if (firstMatch) break;
+  }
+
+  const matched = routes.length > 0;
+  if (!matched) routes.push(String(node.data.config.defaultRoute ?? ''));
+  return {
+    output: { routes, branch: routes[0] },
+    explanation: matched
+      ? `Matched route(s): ${routes.join(', ')}`
+      : `No rule matched; using default route "${routes[0]}"`,
+  };
+});
+
+/**
+ * Unattended runs approve unless the input says `approved: false`. Interactive
+ * runs pause until the votes resolve, or skip the review when the optional
+ * condition does not hold. Editing patterns pass the reviewer's edits downstream.
+ */
+registerNodeExecutor('humanInLoop', (node, context) => {
+  const config = node.data.config;
+  const pattern = String(config.pattern || 'approval_gate') as HITLPattern;
+  const condition = String(config.condition ?? '').trim();
+  const skipReview = condition !== '' && !matchesRule({ condition }, [context.input, context.runInput]);
+
+  if (!context.approvals || skipReview) {
+    const approved = context.input.approved !== false && context.runInput.approved !== false;
+    return {
+      output: { ...context.input, approved, approver: 'auto', branch: approved ? 'approved' : 'rejected' },
+      explanation: skipReview
+        ? `Review skipped: "${condition}" does not hold`
+        : approved
+          ? 'Auto-approved for the test run'
+          : 'Rejected by the run input',
+    };
+  }
+
+  const key = approvalKey(node.id, context.iteration);
+  const roles = toLineList(config.roles);
+  const approvalType = String(config.approvalType || 'single') as ApprovalType;
+  const votes = context.approvals[key] ?? [];
+  const { decision, awaitingRoles } = resolveApproval(approvalType, roles, votes);
+  const escalationPath = String(config.escalationPath ?? '').trim();
+
+  if (!decision) {
+    return {
+      output: { status: 'awaiting_approval', awaiting_roles: awaitingRoles, votes: votes.length },
+      explanation: awaitingRoles.length > 0 ? `Waiting for ${awaitingRoles.join(', ')}` : 'Waiting for a reviewer',
+      awaiting: {
+        key,
+        nodeId: node.id,
+        nodeName: node.data.label,
+        iteration: context.iteration,
+        pattern,
+        approvalType,
+        roles,
+        awaitingRoles,
+        payload: context.input,
+        votes,
+        slaMinutes: Number(config.slaMinutes ?? 60),
+        escalationPath: escalationPath || undefined,
+      },
+    };
+  }
+
+  // editing_workflow merges the edits into the payload; return_of_control replaces it
+  const edited = votes.filter((v) => v.edits);
+  const payload =
+    pattern === 'return_of_control' && edited.length > 0
+      ? edited[edited.length - 1].edits!
+      : pattern === 'editing_workflow' || pattern === 'return_of_control'
+        ? Object.assign({ ...context.input }, ...edited.map((v) => v.edits))
+        : context.input;
+  const last = votes[votes.length - 1];
+
+  return {
+    output: {
+      ...payload,
+      approved: decision === 'approved',
+      approver: last.approver,
+      branch: decision,
+      ...(decision === 'escalated' ? { escalated_to: escalationPath || null } : {}),
+      review: votes.map((v) => ({ decision: v.decision, approver: v.approver, role: v.role, comment: v.comment })),
+    },
+    explanation:
+      decision === 'escalated'
+        ? `Escalated${escalationPath ? ` to ${escalationPath}` : ''}: ${last.comment ?? 'no decision in time'}`
+        : `${decision === 'approved' ? 'Approved' : 'Rejected'} by ${last.approver}${last.comment ? `: ${last.comment}` : ''}`,
+  };
+});
+
+registerNodeExecutor('join', (node, context) => {
+  const strategy = String(node.data.config.strategy ?? 'all');
+  const quorum = Number(node.data.config.quorum ?? 2);
+
+  // Branches run one after another here, so "first" and "quorum" keep the earliest finishers
+  const entries = Object.entries(context.inputs);
+  const kept = strategy === 'first' ? entries.slice(0, 1) : strategy === 'quorum' ? entries.slice(0, quorum) : entries;
+  const inputs = Object.fromEntries(kept);
+
+  return {
+    output: { merged: Object.assign({}, ...Object.values(inputs)), inputs, strategy },
+    explanation: `Joined ${kept.length} of ${entries.length} branch(es)`,
+  };
+});
+
+registerNodeExecutor('evaluation', (node, context) => {
+  const threshold = Number(node.data.config.threshold ?? 0.9);
+  const outputs = Object.values(context.inputs);
+
+  // Share of upstream outputs that completed without an error and carry a value
+  const complete = outputs.filter(
+    (o) => o.error === undefined && Object.values(o).some((v) => v !== null && v !== '' && v !== undefined)
+  );
+  const score = outputs.length > 0 ? complete.length / outputs.length : 0;
+
+  return {
+    output: { score, passed: score >= threshold },
+    explanation: `${complete.length} of ${outputs.length} upstream output(s) complete (threshold ${threshold})`,
+  };
+});
+
+registerNodeExecutor('contextWrite', (node, context) => {
+  const storeName = String(node.data.config.targetStore ?? 'scratchpad');
+  const key = String(node.data.config.key || node.id);
+  const policy = String(node.data.config.overwritePolicy ?? 'always');
+  const store = (context.stores[storeName] ??= {});
+
+  if (policy === 'if_empty' && key in store) {
+    return { output: { written: false, key }, explanation: `"${key}" already set in ${storeName}` };
+  }
+  if (policy === 'append') {
+    store[key] = [...(Array.isArray(store[key]) ? store[key] : []), context.input];
+  } else {
+    store[key] = context.input;
+  }
+  return { output: { written: true, key }, explanation: `Wrote "${key}" to ${storeName}` };
+});
+
+registerNodeExecutor('contextSelect', (node, context) => {
+  const query = String(node.data.config.query ?? '').toLowerCase();
+  const maxResults = Number(node.data.config.maxResults ?? 5);
+  const includeMetadata = Boolean(node.data.config.includeMetadata);
+
+  // Every store entry whose key or value mentions the query
+  const matches = Object.entries(context.stores).flatMap(([store, entries]) =>
+    Object.entries(entries)
+      .filter(([key, value]) => !query || `${key} ${JSON.stringify(value)}`.toLowerCase().includes(query))
+      .map(([key, value]) => (includeMetadata ? { store, key, content: value } : value))
+  );
+
+  const selected = matches.slice(0, maxResults);
+  return { output: { selected }, explanation: `Selected ${selected.length} of ${matches.length} stored item(s)` };
+});
+
+registerNodeExecutor('contextCompress', (node, context) => {
+  const priority = toLineList(node.data.config.preservePriority);
+  const preserved = Object.fromEntries(Object.entries(context.input).filter(([key]) => priority.includes(key)));
+  const compressed = Object.fromEntries(Object.entries(context.input).filter(([key]) => !priority.includes(key)));
+  return {
+    output: { preserved, compressed, target_tokens: node.data.config.targetTokens },
+    explanation: `Preserved ${Object.keys(preserved).length} priority key(s)`,
+  };
+});
+
+registerNodeExecutor('contextIsolate', (node, context) => {
+  const shared = toLineList(node.data.config.sharedKeys);
+  const slice =
+    node.data.config.isolationMode === 'full'
+      ? {}
+      : Object.fromEntries(Object.entries(context.input).filter(([key]) => shared.includes(key)));
+  return {
+    output: {
+      isolated_context: { input: context.runInput, results: slice },
+      propagate: node.data.config.propagateResults,
+    },
+    explanation: `Shares ${Object.keys(slice).length} key(s) with the isolated context`,
+  };
+});
+
+registerNodeExecutor('memory', (node, context) => {
+  const scope = String(node.data.config.memoryScope ?? 'user');
+  const store = (context.stores.memory ??= {});
+  store[scope] = [...(Array.isArray(store[scope]) ? store[scope] : []), context.input];
+  return { output: { memory_updated: true, scope }, explanation: `Appended to ${scope} memory` };
+});
+
+registerNodeExecutor('dataIngestion', (node, context) => {
+  const raw = lookup('records', context.input, context.runInput);
+  const records = Array.isArray(raw) ? raw : [];
+  const valid = node.data.config.validation ? records.filter(isRecord) : records;
+  return {
+    output: { records: valid, count: valid.length },
+    explanation: `Ingested ${valid.length} of ${records.length} record(s)`,
+  };
+});
+
+registerNodeExecutor('dataAggregation', (node, context) => {
+  const frames = Object.values(context.inputs)
+    .map((o) => rowsOf(o.records))
+    .filter((rows) => rows.length > 0);
+  const joinKey = String(node.data.config.joinKey ?? '');
+
+  let records: Row[] = frames.flat();
+  if (node.data.config.aggregationType === 'join' && joinKey && frames.length > 1) {
+    records = frames
+      .slice(1)
+      .reduce(
+        (combined, frame) =>
+          combined.flatMap((left) =>
+            frame.filter((right) => right[joinKey] === left[joinKey]).map((right) => ({ ...left, ...right }))
+          ),
+        frames[0]
+      );
+  }
+  if (node.data.config.deduplication) {
+    const seen = new Set<string>();
+    records = records.filter((r) => !seen.has(JSON.stringify(r)) && Boolean(seen.add(JSON.stringify(r))));
+  }
+  return { output: { records }, explanation: `Combined ${frames.length} input(s) into ${records.length} record(s)` };
+});
+
+registerNodeExecutor('tabularReasoning', (node, context) => {
+  const rows = rowsOf(lookup('rows', context.input, context.runInput) ?? lookup('records', context.input));
+  const groupBy = toLineList(node.data.config.groupBy);
+  if (groupBy.length === 0) {
+    return {
+      output: { table: rows, analysis_type: node.data.config.analysisType },
+      explanation: `${rows.length} row(s)`,
+    };
+  }
+
+  // Sums numeric columns per group
+  const groups = new Map<string, Row>();
+  rows.forEach((row) => {
+    const key = JSON.stringify(groupBy.map((g) => row[g]));
+    const group = groups.get(key) ?? Object.fromEntries(groupBy.map((g) => [g, row[g]]));
+    Object.entries(row).forEach(([column, value]) => {
+      if (typeof value === 'number' && !groupBy.includes(column)) group[column] = Number(group[column] ?? 0) + value;
+    });
+    groups.set(key, group);
+  });
+  const table = [...groups.values()];
+  return {
+    output: { table, analysis_type: node.data.config.analysisType },
+    explanation: `Grouped ${rows.length} row(s) into ${table.length} group(s)`,
+  };
+});
+
+registerNodeExecutor('batchTransform', (node, context) => {
+  const rows = rowsOf(lookup('rows', context.input, context.runInput));
+  const batchSize = Math.max(1, Number(node.data.config.batchSize ?? 100));
+  return {
+    output: { rows, needs_review: [] },
+    explanation: `Passed ${rows.length} row(s) through in ${Math.ceil(rows.length / batchSize)} batch(es)`,
+  };
+});
+
+registerNodeExecutor('diagnosis', (node, context) => {
+  const raw = lookup('values', context.input, context.runInput);
+  const values = (Array.isArray(raw) ? raw : []).filter((v): v is number => typeof v === 'number');
+  const threshold = Number(node.data.config.threshold ?? 0.8);
+
+  let issues: number[] = [];
+  if (values.length > 1) {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const stdev = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / (values.length - 1)) || 1;
+    issues = values.filter((v) => Math.abs(v - mean) / stdev > threshold * 3);
+  }
+
+  const output: Row = { issues, analysis_type: node.data.config.analysisType };
+  if (node.data.config.generateRecommendations) output.recommendations = [];
+  return { output, explanation: `Found ${issues.length} outlier(s) in ${values.length} value(s)` };
+});
+
+registerNodeExecutor('feedback', (node, context) => {
+  const feedback = lookup('feedback', context.input, context.runInput) ?? null;
+  const metrics = node.data.config.collectMetrics ? { result_count: Object.keys(context.results).length } : {};
+  return {
+    output: { feedback, metrics },
+    explanation: feedback === null ? 'No feedback in the input' : 'Recorded feedback',
+  };
+});
+
+registerNodeExecutor('textSummarization', (node, context) => {
+  const text = textOf(context);
+  const length = String(node.data.config.summaryLength ?? 'medium');
+  const keep = length === 'brief' ? 1 : length === 'medium' ? 3 : Infinity;
+  const summary = sentences(text).slice(0, keep).join(' ');
+
+  const output: Row = { summary };
+  if (node.data.config.includeMetadata) output.metadata = { source_length: text.length, style: node.data.config.style };
+  return { output, explanation: `Kept the leading sentence(s) of a ${text.length}-character text` };
+});
+
+registerNodeExecutor('synthesis', (node, context) => {
+  const template = String(node.data.config.template ?? '');
+  const synthesis = template
+    ? renderTemplate(template, context)
+    : Object.values(context.inputs)
+        .map((o) => textOf({ ...context, input: o }))
+        .join('\n\n');
+
+  const output: Row = { synthesis, mode: node.data.config.synthesisMode };
+  if (node.data.config.includeEvidence) output.evidence = Object.keys(context.inputs);
+  return { output, explanation: `Combined ${Object.keys(context.inputs).length} upstream result(s)` };
+});
+
+registerNodeExecutor('llm', (node, context) => {
+  const prompt = renderTemplate(String(node.data.config.prompt || '{{query}}'), context);
+  return callModel(node, context, prompt, 'response');
+});
+
+/**
+ * Reason-act loop: the model may call the agent's tools until it answers
+ * without tool calls or runs out of iterations. Each call runs in the tool
+ * runtime and its result (or error) is handed back to the model.
+ */
+registerNodeExecutor('agent', async (node, context) => {
+  const config = node.data.config;
+  const goal = truncateToTokens(
+    renderTemplate(String(config.goal || ''), context) || textOf(context),
+    context.limits?.maxPromptTokens
+  );
+  const extra = { observations: [], needs_approval: config.hitlMode === 'always' };
+  if (!context.provider) return callModel(node, context, goal, 'response', extra);
+
+  const specs = (Array.isArray(config.tools) ? config.tools : [])
+    .map((tool) => toToolSpec(tool))
+    .filter((spec): spec is ToolSpec => spec !== null);
+  const tools = specs.map(({ name, description, parameters }) => ({ name, description, parameters }));
+  let model = context.limits?.model ?? String(config.model || 'gpt-4');
+  let messages: ChatMessage[] = [
+    { role: 'system', content: `You are ${config.name || node.data.label}${config.role ? `, ${config.role}` : ''}.` },
+    { role: 'user', content: goal },
+  ];
+
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const toolCalls: ToolCallTrace[] = [];
+  const observations: Row[] = [];
+  const maxIterations = Math.max(1, Number(config.maxIterations) || 1);
+  let answer = '';
+  let iterations = 0;
+  let budgetNote: Partial<TraceMetadata> = {};
+  let budgetError: string | undefined;
+
+  while (iterations < maxIterations) {
+    // The loop may not outspend the run budget between node checks
+    const spent = {
+      tokens: usage.totalTokens,
+      cost: estimateCost(context.limits?.pricing ?? [], model, usage.promptTokens, usage.completionTokens) ?? 0,
+    };
+    const call = fitToBudget(context, model, messages, undefined, spent);
+    if (call.action) budgetNote = { budgetAction: call.action, budgetReason: call.reason };
+    if (call.action === 'aborted') {
+      budgetError = `${call.reason}; stopped after ${iterations} iteration(s)`;
+      break;
+    }
+    ({ model, messages } = call);
+
+    iterations++;
+    const response = await context.provider.chat(
+      {
+        model,
+        messages,
+        temperature: Number(config.temperature ?? 0.7),
+        tools,
+        maxTokens: call.maxTokens,
+      },
+      { signal: context.signal, onToken: context.onToken, onReasoning: context.onReasoning }
+    );
+    usage.promptTokens += response.usage.promptTokens;
+    usage.completionTokens += response.usage.completionTokens;
+    usage.totalTokens += response.usage.totalTokens;
+    answer = response.content;
+    if (response.toolCalls.length === 0) break;
+
+    messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+    for (const call of response.toolCalls) {
+      const spec = specs.find((s) => s.name === call.name);
+      const trace = spec
+        ? await callTool(spec, call.arguments, { id: call.id, signal: context.signal, files: filesOf(context) })
+        : unknownToolCall(call.id, call.name, call.arguments);
+      const result = trace.status === 'completed' ? { result: trace.toolOutput } : { error: trace.error };
+      toolCalls.push(trace);
+      observations.push({ tool: call.name, ...result });
+      context.onReasoning?.(`${call.name}(${JSON.stringify(call.arguments)}) ${trace.status}\n`);
+      messages.push({ role: 'tool', toolCallId: call.id, content: JSON.stringify(result) });
+    }
+  }
+
+  return {
+    output: { ...extra, response: answer, observations },
+    explanation: `${context.provider.label} answered after ${iterations} iteration(s) and ${toolCalls.length} tool call(s)`,
+    metadata: { ...usageMetadata(model, config.temperature, usage), ...budgetNote, prompt: goal, completion: answer },
+    toolCalls,
+    error: budgetError,
+  };
+});
+
+registerNodeExecutor('planner', (node, context) => {
+  const objective = renderTemplate(String(node.data.config.objective || ''), context) || textOf(context);
+  return callModel(node, context, objective, 'objective', { plan: [], results: [] });
+});
+
+registerNodeExecutor('retrieval', (node, context) => ({
+  output: { sources: [], grounding_mode: node.data.config.groundingMode, query: textOf(context) },
+  explanation: 'No retrieval source is connected in the browser; returned no sources',
+}));
+
+registerNodeExecutor('deepRAG', (node, context) =>
+  callModel(node, context, textOf(context), 'answer', { citations: [], follow_ups: [] })
+);
+
+registerNodeExecutor('contentCreation', (node, context) =>
+  callModel(node, context, textOf(context), 'content', { format: node.data.config.format })
+);
+
+registerNodeExecutor('documentProcessing', (node, context) => {
+  const raw = lookup('documents', context.input, context.runInput);
+  const documents = (Array.isArray(raw) ? raw : []).map((path) => ({ path, content: '' }));
+  return {
+    output: { documents, mode: node.data.config.processingMode },
+    explanation: `Listed ${documents.length} document(s); document loading needs the Python runtime`,
+  };
+});
+
+// The run's virtual file system for file tools, seeded from a `files` map in the run input
+function filesOf(context: NodeRunContext): Row {
+  if (!context.stores.files)
+    context.stores.files = isRecord(context.runInput.files) ? { ...context.runInput.files } : {};
+  return context.stores.files;
+}
+
+function unknownToolCall(id: string, name: string, args: Row): ToolCallTrace {
+  return { id, toolName: name, toolInput: args, status: 'failed', durationMs: 0, error: `Unknown tool "${name}"` };
+}
+
+/**
+ * Calls the tools requested by the input (`tool` + `arguments`, or a
+ * `tool_calls` list as produced by a model). Without a request every defined
+ * tool runs, with arguments taken from input fields named in its schema.
+ * Preconditions use the same expressions as routing rules.
+ */
+registerNodeExecutor('toolUse', async (node, context) => {
+  const config = node.data.config;
+  const specs = parseJsonField<unknown[]>(config.tools, [])
+    .map((tool) => toToolSpec(tool, String(config.toolSelector || 'http')))
+    .filter((spec): spec is ToolSpec => spec !== null);
+
+  const unmet = toLineList(config.preconditions).filter(
+    (condition) => !matchesRule({ condition }, [context.input, context.runInput])
+  );
+  if (unmet.length > 0) {
+    return {
+      output: { tool_result: null, skipped: true, unmet_preconditions: unmet },
+      explanation: `Skipped: ${unmet.length} precondition(s) not met`,
+    };
+  }
+
+  const requested = Array.isArray(context.input.tool_calls)
+    ? context.input.tool_calls.filter(isRecord)
+    : typeof context.input.tool === 'string'
+      ? [{ name: context.input.tool, arguments: context.input.arguments }]
+      : null;
+  const calls = (
+    requested ??
+    specs.map((spec) => {
+      const properties = Object.keys(isRecord(spec.parameters.properties) ? spec.parameters.properties : {});
+      const args = properties.map((key) => [key, lookup(key, context.input, context.runInput)]);
+      return { name: spec.name, arguments: Object.fromEntries(args.filter(([, value]) => value !== undefined)) };
+    })
+  ).map((call) => ({ name: String(call.name), arguments: isRecord(call.arguments) ? call.arguments : {} }));
+
+  const toolCalls: ToolCallTrace[] = [];
+  for (const call of calls) {
+    const spec = specs.find((s) => s.name === call.name);
+    toolCalls.push(
+      spec
+        ? await callTool(spec, call.arguments, {
+            timeoutMs: Number(config.timeout) || undefined,
+            retryPolicy: config.retryPolicy as RetryPolicy,
+            maxRetries: Number(config.maxRetries ?? 0),
+            signal: context.signal,
+            files: filesOf(context),
+          })
+        : unknownToolCall(`tool-${toolCalls.length + 1}`, call.name, call.arguments)
+    );
+  }
+
+  const results = Object.fromEntries(toolCalls.map((t) => [t.toolName, t.toolOutput ?? null]));
+  const failed = toolCalls.filter((t) => t.status === 'failed');
+  return {
+    output: { tool_result: toolCalls.length === 1 ? (toolCalls[0].toolOutput ?? null) : results },
+    explanation: `Ran ${toolCalls.length} tool call(s)`,
+    toolCalls,
+    error: failed.length > 0 ? failed.map((t) => `${t.toolName}: ${t.error}`).join('; ') : undefined,
+  };
+});
+
+// ============================================
+// Interpreter
+// ============================================
+
+const STREAM_NOTIFY_INTERVAL_MS = 50;
+
+export interface InterpreterOptions {
+  provider?: ModelProvider; // Model-backed nodes echo their prompt without one
+  signal?: AbortSignal; // Aborting cancels the run before the next node
+  onUpdate?: (traces: ExecutionTrace[]) => void; // Called whenever a trace starts, streams or finishes
+  approvals?: Record<string, ApprovalVote[]>; // Pause at humanInLoop nodes until these votes decide
+  checkpoint?: RunCheckpoint; // Resumes a paused run
+  pinned?: Record<string, Record<string, unknown>>; // Recorded outputs used instead of running these nodes
+  budget?: RunBudget; // Token and cost limits checked before each node and model call
+  pricing?: ModelPricing[]; // Prices node costs; defaults to public list prices
+  // Debugger hook awaited before each node runs; may replace the merged input the node receives
+  beforeNode?: (
+    node: AgentNode,
+    input: Record<string, unknown>,
+    iteration?: number
+  ) => Record<string, unknown> | Promise<Record<string, unknown>>;
+}
+
+export interface InterpreterResult {
+  status: ExecutionStatus;
+  output?: Record<string, unknown>;
+  error?: string;
+  traces: ExecutionTrace[];
+  summary: ExecutionSummary;
+  pending?: PendingApproval; // Set when the run paused
+  checkpoint?: RunCheckpoint;
+}
+
+type Pass = { loop: FlowLoop; iteration: number };
+
+// Pins and loop traces are keyed by node id, suffixed with the iteration inside loops
+function runKey(nodeId: string, iteration?: number): string {
+  return iteration ? `${nodeId}#${iteration}` : nodeId;
+}
+
+// Unwinds the walk when a node waits for a reviewer
+class RunPaused extends Error {
+  approval: PendingApproval;
+
+  constructor(approval: PendingApproval) {
+    super(`Waiting for approval at ${approval.nodeName}`);
+    this.approval = approval;
+  }
+}
+
+/**
+ * Outputs of a recorded run to pin when re-running from one node: every node
+ * that completed, except the node itself and the nodes downstream of it.
+ * Loop edges are followed too, so a node inside a loop re-runs the whole body.
+ */
+export function getPinnedOutputs(
+  traces: ExecutionTrace[],
+  fromNodeId: string,
+  edges: Edge[]
+): Record<string, Record<string, unknown>> {
+  const rerun = new Set([fromNodeId]);
+  const queue = [fromNodeId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    edges
+      .filter((e) => e.source === id && !rerun.has(e.target))
+      .forEach((e) => {
+        rerun.add(e.target);
+        queue.push(e.target);
+      });
+  }
+
+  return Object.fromEntries(
+    traces
+      .filter((t) => t.status === 'completed' && t.output && !rerun.has(t.nodeId))
+      .map((t) => [runKey(t.nodeId, t.metadata.iteration), t.output!])
+  );
+}
+
+export function summarizeTraces(totalNodes: number, traces: ExecutionTrace[]): ExecutionSummary {
+  const usage = getUsage(traces);
+  return {
+    totalNodes,
+    // Nodes repeated by a loop count once
+    completedNodes: new Set(traces.filter((t) => t.status === 'completed').map((t) => t.nodeId)).size,
+    failedNodes: traces.filter((t) => t.status === 'failed').length,
+    totalDurationMs: traces.reduce((acc, t) => acc + t.durationMs, 0),
+    tokensUsed: usage.tokens || undefined,
+    cost: usage.cost || undefined,
+  };
+}
+
+/**
+ * Runs the flow once. A node runs when it is a root or when at least one
+ * predecessor activated it; routing nodes activate only the edges matching
+ * their branch (plus unbound fallback edges when nothing matches). Loop
+ * bodies repeat until the exit node's exit field is truthy or the iteration
+ * limit is reached. The first failing node stops the run, and the first node
+ * awaiting approval pauses it; resuming replays the checkpointed node runs.
+ * A run budget is checked before each node and fails the node at its limit;
+ * each model call is projected against it first and capped to what is left.
+ */
+export async function runFlow(
+  nodes: AgentNode[],
+  edges: Edge[],
+  runInput: Record<string, unknown>,
+  options: InterpreterOptions = {}
+): Promise<InterpreterResult> {
+  const forward = getForwardEdges(edges);
+  const traces: ExecutionTrace[] = [];
+  const results: NodeRunContext['results'] = {};
+  const stores: NodeRunContext['stores'] = structuredClone(options.checkpoint?.stores ?? {});
+  const replay = [...(options.checkpoint?.traces ?? [])];
+  // Outputs handed to each node by the predecessors that activated it
+  const incoming = new Map<string, Map<string, Row>>();
+  const roots = new Set(nodes.filter((n) => !forward.some((e) => e.target === n.id)).map((n) => n.id));
+
+  const byId = (id: string) => nodes.find((n) => n.id === id);
+  const notify = () => options.onUpdate?.([...traces]);
+
+  const activate = (node: AgentNode, output: Row) => {
+    const dispatch = getBranchDispatch(node.id, forward);
+    let targets = forward.filter((e) => e.source === node.id).map((e) => e.target);
+    if (dispatch) {
+      const branch = String(output.branch ?? '');
+      const matched = dispatch.cases.filter((c) => c.condition === branch).flatMap((c) => c.targets);
+      targets = matched.length > 0 ? matched : dispatch.fallback;
+    }
+    targets.forEach((target) => {
+      if (!incoming.has(target)) incoming.set(target, new Map());
+      incoming.get(target)!.set(node.id, output);
+    });
+  };
+
+  const runNode = async (node: AgentNode, pass?: Pass) => {
+    const inputs = Object.fromEntries(incoming.get(node.id) ?? []);
+    if (!roots.has(node.id) && Object.keys(inputs).length === 0) return; // Not on the taken branch
+
+    // Node runs recorded before a pause are replayed rather than executed again
+    const recorded = replay[0];
+    if (recorded && recorded.nodeId === node.id && recorded.metadata.iteration === pass?.iteration) {
+      replay.shift();
+      traces.push(recorded);
+      results[node.id] = recorded.output!;
+      activate(node, recorded.output!);
+      return;
+    }
+
+    let input: Row =
+      roots.has(node.id) && Object.keys(inputs).length === 0
+        ? { ...runInput }
+        : Object.assign({}, ...Object.values(inputs));
+    const pinned = options.pinned?.[runKey(node.id, pass?.iteration)] ?? options.pinned?.[node.id];
+    if (pinned) {
+      const trace = createExecutionTrace(node.id, node.data.label, node.data.type, input);
+      trace.status = 'completed';
+      trace.output = pinned;
+      trace.completedAt = trace.startedAt;
+      trace.llmExplanation = 'Pinned output from a recorded run';
+      trace.metadata = { iteration: pass?.iteration, pinned: true };
+      traces.push(trace);
+      results[node.id] = pinned;
+      activate(node, pinned);
+      notify();
+      return;
+    }
+
+    if (options.beforeNode) {
+      input = await options.beforeNode(node, input, pass?.iteration);
+      if (options.signal?.aborted) throw new DOMException('Run cancelled', 'AbortError');
+    }
+    const budget = options.budget ? checkBudget(options.budget, getUsage(traces)) : {};
+    const trace = createExecutionTrace(node.id, node.data.label, node.data.type, input);
+    trace.status = 'running';
+    trace.metadata = { iteration: pass?.iteration };
+    traces.push(trace);
+
+    if (budget.action === 'aborted') {
+      trace.metadata = { ...trace.metadata, budgetAction: budget.action, budgetReason: budget.reason };
+      trace.status = 'failed';
+      trace.error = budget.reason;
+      trace.completedAt = trace.startedAt;
+      notify();
+      throw new Error(`${node.data.label}: ${budget.reason}`);
+    }
+    notify();
+
+    const started = performance.now();
+    let awaiting: PendingApproval | undefined;
+    let streamTimer: ReturnType<typeof setTimeout> | undefined;
+    // Streamed deltas are batched so long generations do not re-render on every token
+    const notifySoon = () => {
+      streamTimer ??= setTimeout(() => {
+        streamTimer = undefined;
+        notify();
+      }, STREAM_NOTIFY_INTERVAL_MS);
+    };
+    try {
+      const executor = getNodeExecutor(node.data.type);
+      if (node.data.hasCodeOverride) {
+        trace.output = { ...input };
+        trace.llmExplanation = 'Custom code runs only in the Python runtime; passed the input through';
+      } else if (!executor) {
+        throw new Error(`No executor for node type "${node.data.type}"`);
+      } else {
+        const outcome = await executor(node, {
+          input,
+          inputs,
+          runInput,
+          results,
+          stores,
+          iteration: pass?.iteration,
+          provider: options.provider,
+          signal: options.signal,
+          approvals: options.approvals,
+          onToken: (delta) => {
+            trace.metadata.timeToFirstTokenMs ??= Math.round(performance.now() - started);
+            trace.streamedOutput = (trace.streamedOutput ?? '') + delta;
+            notifySoon();
+          },
+          onReasoning: (delta) => {
+            trace.reasoning = (trace.reasoning ?? '') + delta;
+            notifySoon();
+          },
+          limits: options.budget && {
+            model: budget.action === 'degraded' ? options.budget.fallbackModel : undefined,
+            maxPromptTokens: budget.action === 'degraded' ? options.budget.maxPromptTokens : undefined,
+            budget: options.budget,
+            used: getUsage(traces),
+            pricing: options.pricing ?? DEFAULT_MODEL_PRICING,
+          },
+        });
+        trace.output = outcome.output;
+        trace.llmExplanation = outcome.explanation ?? nodeConfigs[node.data.type]?.description;
+        trace.metadata = { ...trace.metadata, ...outcome.metadata };
+        const { model, tokensInput, tokensOutput } = trace.metadata;
+        if (model && trace.metadata.cost === undefined) {
+          trace.metadata.cost = estimateCost(options.pricing ?? DEFAULT_MODEL_PRICING, model, tokensInput, tokensOutput);
+        }
+        // Only nodes that called a model were affected by degrading
+        if (budget.action === 'degraded' && model) {
+          trace.metadata = { ...trace.metadata, budgetAction: budget.action, budgetReason: budget.reason };
+        }
+        trace.toolCalls = outcome.toolCalls?.length ? outcome.toolCalls : undefined;
+        if (outcome.error) throw new Error(outcome.error);
+        awaiting = outcome.awaiting;
+      }
+      trace.status = awaiting ? 'paused' : 'completed';
+      delete trace.streamedOutput; // The output now holds the full completion
+    } catch (e) {
+      trace.status = (e as Error).name === 'AbortError' ? 'cancelled' : 'failed';
+      trace.error = (e as Error).message;
+    }
+
+    clearTimeout(streamTimer);
+    trace.completedAt = new Date().toISOString();
+    trace.durationMs = Math.round(performance.now() - started);
+    trace.metadata.latencyMs = trace.durationMs;
+    notify();
+
+    if (trace.status === 'cancelled') throw new DOMException('Run cancelled', 'AbortError');
+    if (trace.status === 'failed') throw new Error(`${node.data.label}: ${trace.error}`);
+    if (awaiting) throw new RunPaused(awaiting);
+    results[node.id] = trace.output!;
+    activate(node, trace.output!);
+
+    // Let the UI render and a cancel request land between nodes
+    await new Promise((r) => setTimeout(r, 0));
+    if (options.signal?.aborted) throw new DOMException('Run cancelled', 'AbortError');
+  };
+
+  const runSteps = async (steps: PlanStep[], pass?: Pass) => {
+    for (const step of steps) {
+      if ('nodeId' in step) {
+        const node = byId(step.nodeId);
+        if (node) await runNode(node, pass);
+        continue;
+      }
+
+      const { loop } = step;
+      for (let iteration = 1; iteration <= loop.config.maxIterations; iteration++) {
+        if (iteration > 1) {
+          // Clear the activations made by the last pass and feed the exit result back to the entry
+          loop.body.forEach((id) => {
+            forward.filter((e) => e.source === id).forEach((e) => incoming.get(e.target)?.delete(id));
+          });
+          incoming.set(loop.entry, new Map([[loop.exit, results[loop.exit]]]));
+        }
+
+        await runSteps(step.steps, { loop, iteration });
+        const exitRan = traces.some((t) => t.nodeId === loop.exit && t.metadata.iteration === iteration);
+        if (!exitRan || (loop.config.exitWhen && results[loop.exit][loop.config.exitWhen])) break;
+      }
+    }
+  };
+
+  try {
+    await runSteps(getExecutionPlan(nodes, edges));
+  } catch (e) {
+    if (e instanceof RunPaused) {
+      return {
+        status: 'paused',
+        traces,
+        summary: summarizeTraces(nodes.length, traces),
+        pending: e.approval,
+        checkpoint: { traces: traces.filter((t) => t.status === 'completed'), stores: structuredClone(stores) },
+      };
+    }
+    const cancelled = (e as Error).name === 'AbortError';
+    return {
+      status: cancelled ? 'cancelled' : 'failed',
+      error: cancelled ? undefined : (e as Error).message,
+      traces,
+      summary: summarizeTraces(nodes.length, traces),
+    };
+  }
+
+  // The flow output comes from its output nodes, or from the last node that ran
+  const outputIds = nodes.filter((n) => n.data.type === 'output' && results[n.id]).map((n) => n.id);
+  const output =
+    outputIds.length > 0
+      ? Object.assign({}, ...outputIds.map((id) => results[id]))
+      : [...traces].reverse().find((t) => t.status === 'completed')?.output;
+
+  return { status: 'completed', output, traces, summary: summarizeTraces(nodes.length, traces) };
+}
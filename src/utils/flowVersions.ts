@@ -0,0 +1,145 @@
+// Flow Versions
+// Content-hashed snapshots of the flow. Saves, test runs and evaluations
+// record the version they used, so scores trace back to the graph that
+// produced them, and any two versions can be diffed or restored.
+
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, VisualMetadata } from '../types';
+import type { FlowVersion, FlowVersionSource } from '../types/execution';
+import {
+  createProjectFiles,
+  extractVisualMetadata,
+  loadProjectFiles,
+  type LoadedProject,
+  type ProjectSettings,
+} from './projectFile';
+import { diffLines, type DiffLine } from './textDiff';
+
+// ============================================
+// Snapshots
+// ============================================
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Short form for display, like an abbreviated commit hash
+export function formatVersionHash(hash: string): string {
+  return hash.slice(0, 8);
+}
+
+/**
+ * Snapshots the canvas as the files Save writes. Only the logic file is
+ * hashed, written without node identities whose timestamps change on their
+ * own, so moving nodes keeps the version with the layout it was first seen in.
+ */
+export async function createFlowVersion(
+  nodes: AgentNode[],
+  edges: Edge[],
+  visualMetadata: Record<string, VisualMetadata>,
+  settings: ProjectSettings,
+  source: FlowVersionSource,
+  now = new Date().toISOString()
+): Promise<FlowVersion> {
+  const files = createProjectFiles('version', nodes, edges, {}, extractVisualMetadata(nodes, visualMetadata), settings);
+  const flow = files.find((f) => f.name.endsWith('.flow.json'))!.content;
+  const layout = files.find((f) => f.name.endsWith('.layout.json'))!.content;
+
+  return {
+    hash: await hashContent(flow),
+    createdAt: now,
+    source,
+    flow,
+    layout,
+    nodeCount: nodes.length,
+    edgeCount: edges.length,
+  };
+}
+
+// The version as a loaded project, ready to replace the canvas
+export function openFlowVersion(version: FlowVersion): LoadedProject {
+  return loadProjectFiles([
+    { name: 'version.flow.json', content: version.flow },
+    { name: 'version.layout.json', content: version.layout },
+  ]);
+}
+
+// ============================================
+// Diff
+// ============================================
+
+export interface FlowVersionDiff {
+  addedNodes: string[]; // Labels
+  removedNodes: string[];
+  changedNodes: string[];
+  addedEdges: string[]; // "Source → Target" by label
+  removedEdges: string[];
+  changedEdges: string[];
+  settingsChanged: boolean; // Budget or custom evaluators
+  lines: DiffLine[]; // Of the logic files
+}
+
+interface VersionLogic {
+  nodes: { id: string; label: string }[];
+  edges: { id: string; source: string; target: string }[];
+  budget?: unknown;
+  evaluators?: unknown;
+}
+
+function byId<T extends { id: string }>(items: T[]): Map<string, T> {
+  return new Map(items.map((item) => [item.id, item]));
+}
+
+function compareItems<T extends { id: string }>(before: T[], after: T[], describe: (item: T) => string) {
+  const previous = byId(before);
+  const current = byId(after);
+  return {
+    added: after.filter((item) => !previous.has(item.id)).map(describe),
+    removed: before.filter((item) => !current.has(item.id)).map(describe),
+    changed: after
+      .filter((item) => previous.has(item.id) && JSON.stringify(previous.get(item.id)) !== JSON.stringify(item))
+      .map(describe),
+  };
+}
+
+export function diffFlowVersions(before: FlowVersion, after: FlowVersion): FlowVersionDiff {
+  const previous: VersionLogic = JSON.parse(before.flow);
+  const current: VersionLogic = JSON.parse(after.flow);
+
+  const labels = new Map([...previous.nodes, ...current.nodes].map((n) => [n.id, n.label]));
+  const nodes = compareItems(previous.nodes, current.nodes, (n) => n.label);
+  const edges = compareItems(
+    previous.edges,
+    current.edges,
+    (e) => `${labels.get(e.source) ?? e.source} → ${labels.get(e.target) ?? e.target}`
+  );
+
+  return {
+    addedNodes: nodes.added,
+    removedNodes: nodes.removed,
+    changedNodes: nodes.changed,
+    addedEdges: edges.added,
+    removedEdges: edges.removed,
+    changedEdges: edges.changed,
+    settingsChanged:
+      JSON.stringify([previous.budget, previous.evaluators]) !== JSON.stringify([current.budget, current.evaluators]),
+    lines: diffLines(before.flow, after.flow),
+  };
+}
+
+// One line for lists, e.g. "2 nodes changed, 1 edge added"
+export function summarizeFlowVersionDiff(diff: FlowVersionDiff): string {
+  const count = (items: string[], noun: string, verb: string) =>
+    items.length > 0 ? `${items.length} ${noun}${items.length === 1 ? '' : 's'} ${verb}` : null;
+  const parts = [
+    count(diff.addedNodes, 'node', 'added'),
+    count(diff.removedNodes, 'node', 'removed'),
+    count(diff.changedNodes, 'node', 'changed'),
+    count(diff.addedEdges, 'edge', 'added'),
+    count(diff.removedEdges, 'edge', 'removed'),
+    count(diff.changedEdges, 'edge', 'changed'),
+    diff.settingsChanged ? 'settings changed' : null,
+  ].filter((part) => part !== null);
+  return parts.length > 0 ? parts.join(', ') : 'No logic changes';
+}
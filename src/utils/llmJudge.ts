@@ -0,0 +1,229 @@
+// LLM Judge
+// Renders judge prompts from evaluator criteria and rubrics, sends them to the
+// judge model and parses the structured scores it replies with. The stub judge
+// grades offline and deterministically, so evaluations can run in CI.
+
+import type { ModelPricing } from '../types/execution';
+import type { JudgeSettings, JudgeUsage } from '../types/evaluation';
+import type { ChatMessage } from '../types/providers';
+import { DEFAULT_JUDGE_SETTINGS } from '../types/evaluation';
+import { DEFAULT_MODEL_PRICING, estimateCost } from './budgets';
+import { createOpenAIProvider, estimateTokens, type ModelProvider } from './modelProviders';
+
+// ============================================
+// Storage Keys
+// ============================================
+
+// Includes the judge API key, unencrypted; the Evaluation panel says so
+const JUDGE_SETTINGS_STORAGE_KEY = 'afd_judge_settings';
+
+// Longer values are cut so a large output cannot blow up the judge prompt
+const MAX_SECTION_CHARS = 4000;
+
+// ============================================
+// Judge Requests
+// ============================================
+
+export interface JudgeModel {
+  provider: ModelProvider;
+  pricing?: ModelPricing[]; // Prices judge calls; defaults to public list prices
+}
+
+export interface JudgeRequest {
+  model: string;
+  subject: string; // What is graded, e.g. "the output of an AI workflow"
+  criteria: string[];
+  rubric?: string;
+  scoreScale: number;
+  input: unknown;
+  actual: unknown;
+  expected?: unknown;
+}
+
+export interface JudgeVerdict {
+  scores: Record<string, number>; // Per criterion, from 1 to the score scale
+  score: number; // Mean score rescaled from 1..scale to 0..1
+  reasoning: string;
+  usage: JudgeUsage;
+}
+
+function formatSection(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return text.length > MAX_SECTION_CHARS ? `${text.slice(0, MAX_SECTION_CHARS)}\n[truncated]` : text;
+}
+
+export function renderJudgePrompt(request: JudgeRequest): ChatMessage[] {
+  const example = Object.fromEntries(request.criteria.map((c) => [c, request.scoreScale]));
+  const system = [
+    `You are an impartial judge grading ${request.subject}.`,
+    `Score each criterion as an integer from 1 (worst) to ${request.scoreScale} (best).`,
+    `Reply with JSON only, in this shape: ${JSON.stringify({ scores: example, reasoning: '...' })}`,
+  ].join('\n');
+
+  const parts = [`Criteria:\n${request.criteria.map((c) => `- ${c}`).join('\n')}`];
+  if (request.rubric?.trim()) parts.push(`Rubric:\n${request.rubric.trim()}`);
+  parts.push(`<input>\n${formatSection(request.input)}\n</input>`);
+  if (request.expected !== undefined) parts.push(`<expected>\n${formatSection(request.expected)}\n</expected>`);
+  parts.push(`<actual>\n${formatSection(request.actual)}\n</actual>`);
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: parts.join('\n\n') },
+  ];
+}
+
+/**
+ * Reads the judge's JSON reply, tolerating code fences and surrounding
+ * prose. Criteria match case-insensitively and scores are clamped to the
+ * scale; a criterion without a numeric score is an error.
+ */
+export function parseJudgeReply(
+  content: string,
+  criteria: string[],
+  scoreScale: number
+): { scores: Record<string, number>; reasoning: string } {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) throw new Error('The judge reply contains no JSON object');
+
+  let reply: { scores?: Record<string, unknown>; reasoning?: unknown };
+  try {
+    reply = JSON.parse(json);
+  } catch {
+    throw new Error('The judge reply is not valid JSON');
+  }
+
+  const given = Object.entries(reply.scores ?? {});
+  const scores: Record<string, number> = {};
+  for (const criterion of criteria) {
+    const value = Number(given.find(([key]) => key.toLowerCase() === criterion.toLowerCase())?.[1]);
+    if (!Number.isFinite(value)) throw new Error(`The judge did not score "${criterion}"`);
+    scores[criterion] = Math.min(scoreScale, Math.max(1, value));
+  }
+  return { scores, reasoning: String(reply.reasoning ?? '') };
+}
+
+// A reply that could not be graded still cost tokens
+export class JudgeReplyError extends Error {
+  usage: JudgeUsage;
+
+  constructor(message: string, usage: JudgeUsage) {
+    super(message);
+    this.usage = usage;
+  }
+}
+
+export async function runJudge(request: JudgeRequest, judge: JudgeModel): Promise<JudgeVerdict> {
+  const response = await judge.provider.chat({
+    model: request.model,
+    messages: renderJudgePrompt(request),
+    temperature: 0,
+  });
+  const usage: JudgeUsage = {
+    model: response.model,
+    tokensInput: response.usage.promptTokens,
+    tokensOutput: response.usage.completionTokens,
+    cost: estimateCost(
+      judge.pricing ?? DEFAULT_MODEL_PRICING,
+      response.model,
+      response.usage.promptTokens,
+      response.usage.completionTokens
+    ),
+  };
+
+  let reply: { scores: Record<string, number>; reasoning: string };
+  try {
+    reply = parseJudgeReply(response.content, request.criteria, request.scoreScale);
+  } catch (error) {
+    throw new JudgeReplyError((error as Error).message, usage);
+  }
+  const values = Object.values(reply.scores);
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    ...reply,
+    // The worst score maps to 0 and the best to 1
+    score: request.scoreScale > 1 ? (mean - 1) / (request.scoreScale - 1) : 1,
+    usage,
+  };
+}
+
+// ============================================
+// Stub Judge
+// ============================================
+
+function section(prompt: string, tag: string): string | undefined {
+  return prompt.match(new RegExp(`<${tag}>\\n([\\s\\S]*?)\\n</${tag}>`))?.[1];
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9_-]{2,}/g) ?? []);
+}
+
+/**
+ * Grades every criterion by how many words of the expected section appear in
+ * the actual section, and gives the middle of the scale when nothing is
+ * expected. It reads the prompt the judge evaluators render and replies in
+ * the same JSON shape a judge model would.
+ */
+export function createStubJudge(): ModelProvider {
+  return {
+    id: 'mock',
+    label: 'Stub judge',
+    chat: async (request) => {
+      const [system, user] = request.messages.map((m) => m.content);
+      const scale = Number(system.match(/to (\d+) \(best\)/)?.[1] ?? 5);
+      const criteria = [...(user.split('\n\n')[0] ?? '').matchAll(/^- (.+)$/gm)].map((m) => m[1]);
+      const expected = section(user, 'expected');
+      const actual = words(section(user, 'actual') ?? '');
+
+      let score = Math.round((scale + 1) / 2);
+      let reasoning = 'No reference to compare with; the stub judge gives the middle score.';
+      if (expected !== undefined) {
+        const reference = [...words(expected)];
+        const found = reference.filter((w) => actual.has(w)).length;
+        const recall = reference.length > 0 ? found / reference.length : 1;
+        score = 1 + Math.round((scale - 1) * recall);
+        reasoning = `${found} of ${reference.length} reference word(s) appear in the actual section.`;
+      }
+
+      const content = JSON.stringify({ scores: Object.fromEntries(criteria.map((c) => [c, score])), reasoning });
+      const promptTokens = request.messages.reduce((acc, m) => acc + estimateTokens(m.content) + 4, 0);
+      const completionTokens = estimateTokens(content);
+      return {
+        content,
+        toolCalls: [],
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+        model: 'stub-judge',
+      };
+    },
+  };
+}
+
+export function createJudgeProvider(settings: JudgeSettings): ModelProvider {
+  return settings.providerId === 'openai' ? createOpenAIProvider(settings.baseUrl, settings.apiKey) : createStubJudge();
+}
+
+// ============================================
+// Local Storage Operations
+// ============================================
+
+export function loadJudgeSettings(): JudgeSettings {
+  const stored = localStorage.getItem(JUDGE_SETTINGS_STORAGE_KEY);
+  if (!stored) return DEFAULT_JUDGE_SETTINGS;
+  try {
+    const settings = JSON.parse(stored);
+    const text = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+    return {
+      providerId: settings?.providerId === 'openai' ? 'openai' : DEFAULT_JUDGE_SETTINGS.providerId,
+      baseUrl: text(settings?.baseUrl, DEFAULT_JUDGE_SETTINGS.baseUrl),
+      apiKey: text(settings?.apiKey, DEFAULT_JUDGE_SETTINGS.apiKey),
+    };
+  } catch (error) {
+    console.error('Failed to load judge settings:', error);
+    return DEFAULT_JUDGE_SETTINGS;
+  }
+}
+
+export function saveJudgeSettings(settings: JudgeSettings): void {
+  localStorage.setItem(JUDGE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,209 @@
+// Bounded Loops
+// A loop edge points from a node back to an upstream node. The nodes between
+// them (the loop body) re-run until the source's exit field is truthy or the
+// iteration limit is reached. Loop edges are left out of the cycle check, so
+// all other edges must still form an acyclic graph.
+
+import type { Edge } from '@xyflow/react';
+import type { AgentNode, CodeConstraint, FlowEdgeData, LoopConfig } from '../types';
+import { getEdgeCondition } from './branching';
+
+export const DEFAULT_MAX_ITERATIONS = 3;
+
+export function getLoopConfig(edge: Edge): LoopConfig | undefined {
+  return (edge.data as FlowEdgeData | undefined)?.loop;
+}
+
+export function isLoopEdge(edge: Edge): boolean {
+  return Boolean(getLoopConfig(edge));
+}
+
+// Edges that define execution order; loop edges only re-enter it
+export function getForwardEdges(edges: Edge[]): Edge[] {
+  return edges.filter((e) => !isLoopEdge(e));
+}
+
+/**
+ * Turns an edge into a loop edge (or back into a plain one) and labels it on the canvas
+ */
+export function withLoop(edge: Edge, loop: LoopConfig | undefined): Edge {
+  const data: FlowEdgeData = { ...(edge.data ?? {}), loop };
+  if (!loop) delete data.loop;
+
+  return {
+    ...edge,
+    data,
+    label: loop ? `loop ≤ ${loop.maxIterations}` : getEdgeCondition(edge),
+  };
+}
+
+function reaches(from: string, to: string, forward: Edge[]): boolean {
+  const seen = new Set<string>([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === to) return true;
+    forward.forEach((e) => {
+      if (e.source === id && !seen.has(e.target)) {
+        seen.add(e.target);
+        queue.push(e.target);
+      }
+    });
+  }
+  return false;
+}
+
+// Whether a new edge source → target would close a cycle through forward edges
+export function closesCycle(source: string, target: string, edges: Edge[]): boolean {
+  return reaches(target, source, getForwardEdges(edges));
+}
+
+/**
+ * Settings for a new loop. The iteration limit comes from a planner's step
+ * budget or an agent's iteration limit at either end of the loop.
+ */
+export function defaultLoopConfig(source: AgentNode | undefined, target: AgentNode | undefined): LoopConfig {
+  const limitOf = (node: AgentNode | undefined) => {
+    if (node?.data.type === 'planner') return Number(node.data.config.maxSteps);
+    if (node?.data.type === 'agent') return Number(node.data.config.maxIterations);
+    return NaN;
+  };
+  const maxIterations =
+    [limitOf(target), limitOf(source)].find((n) => Number.isInteger(n) && n > 0) ?? DEFAULT_MAX_ITERATIONS;
+
+  // "Retry until evaluation passes"
+  return source?.data.type === 'evaluation' ? { maxIterations, exitWhen: 'passed' } : { maxIterations };
+}
+
+export interface FlowLoop {
+  edge: Edge;
+  entry: string; // Loop edge target; runs first in each iteration
+  exit: string; // Loop edge source; its result decides whether to iterate again
+  config: LoopConfig;
+  body: string[]; // Nodes on a forward path from entry to exit, in flow order
+}
+
+export function getLoops(nodes: AgentNode[], edges: Edge[]): FlowLoop[] {
+  const forward = getForwardEdges(edges);
+
+  return edges.filter(isLoopEdge).map((edge) => ({
+    edge,
+    entry: edge.target,
+    exit: edge.source,
+    config: getLoopConfig(edge)!,
+    body: nodes
+      .map((n) => n.id)
+      .filter((id) => reaches(edge.target, id, forward) && reaches(id, edge.source, forward)),
+  }));
+}
+
+/**
+ * Loop edges must be bounded, must point back upstream and must not overlap
+ */
+export function validateLoops(nodes: AgentNode[], edges: Edge[]): CodeConstraint[] {
+  const constraints: CodeConstraint[] = [];
+  const label = (id: string) => nodes.find((n) => n.id === id)?.data.label ?? id;
+  const error = (message: string): CodeConstraint => ({
+    rule: 'bounded_loop',
+    severity: 'error',
+    message,
+    canAutofix: false,
+  });
+
+  const loops = getLoops(nodes, edges);
+  loops.forEach((loop, i) => {
+    const name = `Loop from "${label(loop.exit)}" back to "${label(loop.entry)}"`;
+
+    if (!Number.isInteger(loop.config.maxIterations) || loop.config.maxIterations < 1) {
+      constraints.push(error(`${name} needs a max iterations of at least 1`));
+    }
+    if (loop.body.length === 0) {
+      constraints.push(error(`${name} must point back to an upstream node`));
+    }
+
+    const overlapping = loops.slice(i + 1).find((other) => other.body.some((id) => loop.body.includes(id)));
+    if (overlapping) {
+      constraints.push(
+        error(`${name} overlaps the loop back to "${label(overlapping.entry)}"; nested loops are not supported`)
+      );
+    }
+  });
+
+  return constraints;
+}
+
+// ============================================
+// Execution Order
+// ============================================
+
+export type FlowUnit = { nodeId: string } | { loop: FlowLoop };
+
+/**
+ * Groups nodes by topological depth with each loop body collapsed into one
+ * unit. Units in the same wave have no path between them and can run
+ * concurrently. Nodes on a cycle of forward edges are never reached and are left out.
+ */
+export function getExecutionWaves(nodeIds: string[], edges: Edge[], loops: FlowLoop[]): FlowUnit[][] {
+  const included = new Set(nodeIds);
+  const loopOf = (id: string) => loops.find((l) => l.body.length > 0 && l.body.includes(id));
+  const unitKey = (id: string) => {
+    const loop = loopOf(id);
+    return loop ? `loop:${loop.edge.id}` : id;
+  };
+
+  const units = new Map<string, FlowUnit>();
+  nodeIds.forEach((id) => {
+    const key = unitKey(id);
+    if (!units.has(key)) units.set(key, key === id ? { nodeId: id } : { loop: loopOf(id)! });
+  });
+
+  const inDegree: Record<string, number> = {};
+  const adj: Record<string, string[]> = {};
+  units.forEach((_, key) => {
+    inDegree[key] = 0;
+    adj[key] = [];
+  });
+
+  getForwardEdges(edges).forEach((e) => {
+    if (!included.has(e.source) || !included.has(e.target)) return;
+    const [source, target] = [unitKey(e.source), unitKey(e.target)];
+    if (source === target) return;
+    adj[source].push(target);
+    inDegree[target]++;
+  });
+
+  const waves: FlowUnit[][] = [];
+  let wave = [...units.keys()].filter((key) => inDegree[key] === 0);
+
+  while (wave.length > 0) {
+    waves.push(wave.map((key) => units.get(key)!));
+    const next: string[] = [];
+    wave.forEach((key) => {
+      adj[key].forEach((target) => {
+        inDegree[target]--;
+        if (inDegree[target] === 0) next.push(target);
+      });
+    });
+    wave = next;
+  }
+
+  return waves;
+}
+
+export type PlanStep = { nodeId: string } | { loop: FlowLoop; steps: PlanStep[] };
+
+/**
+ * Sequential run order for the simulated runner, with loop bodies nested
+ * under the loop that repeats them
+ */
+export function getExecutionPlan(nodes: AgentNode[], edges: Edge[]): PlanStep[] {
+  const flatten = (nodeIds: string[], loops: FlowLoop[]): PlanStep[] =>
+    getExecutionWaves(nodeIds, edges, loops)
+      .flat()
+      .map((unit) => ('loop' in unit ? { loop: unit.loop, steps: flatten(unit.loop.body, []) } : unit));
+
+  return flatten(
+    nodes.map((n) => n.id),
+    getLoops(nodes, edges)
+  );
+}
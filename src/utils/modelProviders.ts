@@ -0,0 +1,334 @@
+// Model Providers
+// Registry of chat completion backends used by test runs. The mock provider
+// replays canned responses offline; the OpenAI adapter talks to any
+// OpenAI-compatible endpoint.
+
+import type {
+  ChatMessage,
+  ChatOptions,
+  ChatRequest,
+  ChatResponse,
+  ModelProviderId,
+  MockResponse,
+  ProviderSettings,
+  TokenUsage,
+  ToolCall,
+} from '../types/providers';
+import type { ExecutionTrace } from '../types/execution';
+import { DEFAULT_PROVIDER_SETTINGS } from '../types/providers';
+
+// ============================================
+// Provider Interface
+// ============================================
+
+export interface ModelProvider {
+  id: ModelProviderId;
+  label: string;
+  chat: (request: ChatRequest, options?: ChatOptions) => Promise<ChatResponse>;
+}
+
+export interface ProviderDefinition {
+  id: ModelProviderId;
+  label: string;
+  description: string;
+  create: (settings: ProviderSettings) => ModelProvider;
+}
+
+// ============================================
+// Provider Registry
+// ============================================
+
+const providerRegistry: Partial<Record<ModelProviderId, ProviderDefinition>> = {};
+
+export function registerModelProvider(definition: ProviderDefinition): void {
+  providerRegistry[definition.id] = definition;
+}
+
+// Providers in registration order
+export function getModelProviders(): ProviderDefinition[] {
+  return Object.values(providerRegistry);
+}
+
+export function createModelProvider(settings: ProviderSettings): ModelProvider {
+  const definition = providerRegistry[settings.providerId];
+  if (!definition) {
+    throw new Error(`Unknown model provider: ${settings.providerId}`);
+  }
+
+  const provider = definition.create(settings);
+  if (!settings.modelOverride) return provider;
+  return {
+    ...provider,
+    chat: (request, options) => provider.chat({ ...request, model: settings.modelOverride }, options),
+  };
+}
+
+// ============================================
+// Token Accounting
+// ============================================
+
+// Rough BPE estimate (about four characters per token) for providers that do not report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Each message carries a few tokens of role/separator overhead
+export function estimatePromptTokens(messages: ChatMessage[]): number {
+  return messages.reduce((acc, m) => acc + estimateTokens(m.content) + 4, 0);
+}
+
+function estimateUsage(messages: ChatMessage[], completion: string): TokenUsage {
+  const promptTokens = estimatePromptTokens(messages);
+  const completionTokens = estimateTokens(completion);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// ============================================
+// Mock Provider
+// ============================================
+
+function matchesPrompt(match: string, prompt: string): boolean {
+  const regex = match.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]).test(prompt);
+    } catch {
+      return false;
+    }
+  }
+  return prompt.toLowerCase().includes(match.toLowerCase());
+}
+
+/**
+ * Replies with the first canned response whose match fits the last user
+ * message, or echoes the prompt when none does. Tool calls are only replayed
+ * while the conversation has no tool results yet, so agent loops terminate.
+ */
+export function createMockProvider(responses: MockResponse[]): ModelProvider {
+  return {
+    id: 'mock',
+    label: 'Mock',
+    chat: async (request, options = {}) => {
+      const prompt = [...request.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+      const answeredTools = request.messages.some((m) => m.role === 'tool');
+      const scripted = responses.find((r) => matchesPrompt(r.match, prompt));
+
+      const content = scripted ? scripted.response : `Mock response to: ${prompt}`;
+      const toolCalls: ToolCall[] =
+        scripted?.toolCalls && !answeredTools && request.tools?.length
+          ? scripted.toolCalls.map((call, i) => ({ id: `call-${i + 1}`, ...call }))
+          : [];
+
+      if (options.onToken) {
+        for (const token of content.match(/\s*\S+/g) ?? []) {
+          if (options.signal?.aborted) break;
+          options.onToken(token);
+        }
+      }
+
+      return { content, toolCalls, usage: estimateUsage(request.messages, content), model: request.model };
+    },
+  };
+}
+
+/**
+ * Turns the model calls recorded in a run into canned responses, so the mock
+ * provider can replay the run offline. Agent tool calls are kept; the first
+ * answer to a prompt wins when it was asked more than once. Longer prompts
+ * come first, so a prompt that contains another still finds its own answer.
+ */
+export function createMockFixtures(traces: ExecutionTrace[]): MockResponse[] {
+  const fixtures = new Map<string, MockResponse>();
+  for (const trace of traces) {
+    const { prompt, completion } = trace.metadata;
+    if (!prompt || completion === undefined || fixtures.has(prompt)) continue;
+
+    const toolCalls = (trace.toolCalls ?? []).map((call) => ({ name: call.toolName, arguments: call.toolInput }));
+    fixtures.set(prompt, { match: prompt, response: completion, ...(toolCalls.length > 0 ? { toolCalls } : {}) });
+  }
+  return [...fixtures.values()].sort((a, b) => b.match.length - a.match.length);
+}
+
+registerModelProvider({
+  id: 'mock',
+  label: 'Mock (offline)',
+  description: 'Replays canned responses by prompt match; no network access',
+  create: (settings) => createMockProvider(settings.mockResponses),
+});
+
+// ============================================
+// OpenAI-Compatible Provider
+// ============================================
+
+interface OpenAIToolCall {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+function toOpenAIMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function fromOpenAIToolCalls(calls: OpenAIToolCall[]): ToolCall[] {
+  return calls.map((call, i) => {
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(call.function?.arguments || '{}');
+    } catch {
+      args = { raw: call.function?.arguments };
+    }
+    return { id: call.id ?? `call-${i + 1}`, name: call.function?.name ?? '', arguments: args };
+  });
+}
+
+function fromOpenAIUsage(usage: OpenAIUsage | undefined, request: ChatRequest, content: string): TokenUsage {
+  if (!usage) return estimateUsage(request.messages, content);
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+// Reads server-sent events and accumulates content deltas and tool call fragments
+async function readStream(response: Response, request: ChatRequest, options: ChatOptions): Promise<ChatResponse> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  const calls: OpenAIToolCall[] = [];
+  let content = '';
+  let usage: OpenAIUsage | undefined;
+  let model = request.model;
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+      const chunk = JSON.parse(data);
+      model = chunk.model ?? model;
+      usage = chunk.usage ?? usage;
+      const delta = chunk.choices?.[0]?.delta ?? {};
+      if (delta.content) {
+        content += delta.content;
+        options.onToken?.(delta.content);
+      }
+      // Reasoning models served by vLLM, DeepSeek and similar stream their thinking separately
+      const reasoning = delta.reasoning_content ?? delta.reasoning;
+      if (reasoning) options.onReasoning?.(reasoning);
+      (delta.tool_calls as OpenAIToolCall[] | undefined)?.forEach((fragment) => {
+        const call = (calls[fragment.index ?? 0] ??= { function: { name: '', arguments: '' } });
+        call.id = fragment.id ?? call.id;
+        call.function!.name += fragment.function?.name ?? '';
+        call.function!.arguments += fragment.function?.arguments ?? '';
+      });
+    }
+  }
+
+  return { content, toolCalls: fromOpenAIToolCalls(calls), usage: fromOpenAIUsage(usage, request, content), model };
+}
+
+export function createOpenAIProvider(baseUrl: string, apiKey: string): ModelProvider {
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    chat: async (request, options = {}) => {
+      const stream = Boolean(options.onToken);
+      const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        signal: options.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages.map(toOpenAIMessage),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          ...(request.tools?.length
+            ? {
+                tools: request.tools.map((tool) => ({
+                  type: 'function',
+                  function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+                })),
+              }
+            : {}),
+          ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Model request failed (${response.status}): ${detail.slice(0, 200) || response.statusText}`);
+      }
+      if (stream && response.body) return readStream(response, request, options);
+
+      const json = await response.json();
+      const message = json.choices?.[0]?.message ?? {};
+      const content = message.content ?? '';
+      return {
+        content,
+        toolCalls: fromOpenAIToolCalls(message.tool_calls ?? []),
+        usage: fromOpenAIUsage(json.usage, request, content),
+        model: json.model ?? request.model,
+      };
+    },
+  };
+}
+
+registerModelProvider({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  description: 'Calls /chat/completions on the configured base URL',
+  create: (settings) => createOpenAIProvider(settings.baseUrl, settings.apiKey),
+});
+
+// ============================================
+// Settings Storage
+// ============================================
+
+// Includes the API key, unencrypted; the settings panel says so
+const SETTINGS_STORAGE_KEY = 'afd_model_provider';
+
+export function loadProviderSettings(): ProviderSettings {
+  const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!stored) return DEFAULT_PROVIDER_SETTINGS;
+  try {
+    return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Failed to load model provider settings:', error);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
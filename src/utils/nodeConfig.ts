@@ -122,6 +122,14 @@ export const nodeConfigs: Record<AgentPatternType, NodeConfig> = {
           { label: 'Custom Function', value: 'custom' },
         ],
       },
+      {
+        key: 'tools',
+        label: 'Tool Definitions',
+        type: 'json',
+        placeholder:
+          '[{"name": "get_order", "kind": "http", "url": "https://api.example.com/orders/{{id}}",\n  "parameters": {"type": "object", "properties": {"id": {"type": "string"}}, "required": ["id"]}}]',
+        description: 'Tools with a JSON schema for their arguments; kind is http, file, calculator or custom (JavaScript in "code")',
+      },
       {
         key: 'preconditions',
         label: 'Preconditions',
@@ -352,12 +360,34 @@ export const nodeConfigs: Record<AgentPatternType, NodeConfig> = {
     color: '#ef4444',
     category: 'control',
     defaultData: {
+      pattern: 'approval_gate',
       approvalType: 'single',
       roles: [],
       slaMinutes: 60,
       escalationPath: '',
+      condition: '',
     },
     configSchema: [
+      {
+        key: 'pattern',
+        label: 'Review Pattern',
+        type: 'select',
+        options: [
+          { label: 'Approval Gate', value: 'approval_gate' },
+          { label: 'Editing Workflow', value: 'editing_workflow' },
+          { label: 'Confidence Routing', value: 'confidence_routing' },
+          { label: 'Return of Control', value: 'return_of_control' },
+        ],
+        defaultValue: 'approval_gate',
+        description: 'Editing patterns let the reviewer change the parameters passed downstream',
+      },
+      {
+        key: 'condition',
+        label: 'Review When',
+        type: 'text',
+        placeholder: 'confidence < 0.8',
+        description: 'Leave empty to always pause; otherwise the run continues approved when this does not hold',
+      },
       {
         key: 'approvalType',
         label: 'Approval Type',
@@ -388,6 +418,49 @@ export const nodeConfigs: Record<AgentPatternType, NodeConfig> = {
         label: 'Escalation Path',
         type: 'text',
         placeholder: 'Who to notify if SLA is breached',
+        description: 'On SLA expiry the run follows edges bound to the "escalated" branch',
+      },
+    ],
+  },
+
+  join: {
+    label: 'Join',
+    description: 'Wait for parallel branches and merge their results',
+    icon: 'Merge',
+    color: '#14b8a6',
+    category: 'control',
+    defaultData: {
+      strategy: 'all',
+      quorum: 2,
+      timeoutSeconds: 60,
+    },
+    configSchema: [
+      {
+        key: 'strategy',
+        label: 'Join Strategy',
+        type: 'select',
+        options: [
+          { label: 'All branches', value: 'all' },
+          { label: 'First to finish', value: 'first' },
+          { label: 'Quorum', value: 'quorum' },
+        ],
+        defaultValue: 'all',
+        description: 'How many incoming branches must finish before continuing',
+      },
+      {
+        key: 'quorum',
+        label: 'Quorum',
+        type: 'number',
+        defaultValue: 2,
+        description: 'Branches required when using the quorum strategy',
+      },
+      {
+        key: 'timeoutSeconds',
+        label: 'Timeout (seconds)',
+        type: 'number',
+        defaultValue: 60,
+        description: 'Continue with the branches that finished after this long',
+        advanced: true,
       },
     ],
   },
@@ -501,6 +574,13 @@ export const nodeConfigs: Record<AgentPatternType, NodeConfig> = {
       maxIterations: 10,
       confidenceThreshold: 0.8,
       hitlMode: 'on_low_confidence',
+      approvalTimeout: 300,
+      contextWindow: 4096,
+      systemPrompt: '',
+      // Edited in the agent node's side panels rather than the properties form
+      memories: [],
+      escalations: [],
+      contextSources: [],
     },
     configSchema: [
       {
@@ -1450,7 +1530,7 @@ export const nodeCategories = {
   control: {
     label: 'Control Flow',
     description: 'Manage workflow execution',
-    types: ['humanInLoop', 'evaluation'] as AgentPatternType[],
+    types: ['humanInLoop', 'join', 'evaluation'] as AgentPatternType[],
   },
   actions: {
     label: 'Actions',
@@ -0,0 +1,428 @@
+// OTLP Traces
+// Exports execution runs as OTLP/JSON spans following the OpenTelemetry GenAI
+// semantic conventions, and imports OTLP/JSON spans back into runs for the trace viewer.
+
+import type { ExecutionRun, ExecutionStatus, ExecutionTrace, ToolCallTrace, TraceMetadata } from '../types/execution';
+import { summarizeTraces } from './flowInterpreter';
+
+// ============================================
+// OTLP/JSON Shapes
+// ============================================
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string | number; // int64 is a string in proto3 JSON
+  doubleValue?: number;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind?: number;
+  startTimeUnixNano: string | number;
+  endTimeUnixNano: string | number;
+  attributes?: OtlpKeyValue[];
+  status?: { code?: number; message?: string };
+}
+
+export interface OtlpTraceData {
+  resourceSpans: {
+    resource?: { attributes?: OtlpKeyValue[] };
+    scopeSpans?: { scope?: { name?: string; version?: string }; spans?: OtlpSpan[] }[];
+  }[];
+}
+
+const SERVICE_NAME = 'agentic-flow-designer';
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+const EXECUTION_STATUSES: ExecutionStatus[] = ['pending', 'running', 'paused', 'completed', 'failed', 'cancelled'];
+
+type Attributes = Record<string, unknown>;
+
+// ============================================
+// Value Helpers
+// ============================================
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function toNanos(iso: string): string {
+  return `${Date.parse(iso)}000000`;
+}
+
+function fromNanos(nanos: string | number): number {
+  return Math.round(Number(nanos) / 1e6);
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  return { stringValue: typeof value === 'string' ? value : JSON.stringify(value) };
+}
+
+function fromAnyValue(value: OtlpAnyValue | undefined): unknown {
+  if (!value) return undefined;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  if (value.intValue !== undefined) return Number(value.intValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(fromAnyValue);
+  if (value.kvlistValue) return fromAttributes(value.kvlistValue.values);
+  return undefined;
+}
+
+// Unset values are left out, so optional trace fields do not become empty attributes
+function toAttributes(attributes: Attributes): OtlpKeyValue[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function fromAttributes(attributes: OtlpKeyValue[] = []): Attributes {
+  return Object.fromEntries(attributes.map(({ key, value }) => [key, fromAnyValue(value)]));
+}
+
+function toJson(value: unknown): string | undefined {
+  return value === undefined ? undefined : JSON.stringify(value);
+}
+
+// Attributes holding JSON are decoded; other strings are kept as they are
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseRecord(value: unknown): Record<string, unknown> | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseJson(value);
+  return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    ? (parsed as Record<string, unknown>)
+    : { value: parsed };
+}
+
+// GenAI messages carry their text in `parts`; older exporters use a plain `content` string
+function toMessages(role: string, text: string | undefined): string | undefined {
+  return text === undefined ? undefined : JSON.stringify([{ role, parts: [{ type: 'text', content: text }] }]);
+}
+
+function messageText(value: unknown, role: string): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  try {
+    const messages = JSON.parse(value);
+    if (!Array.isArray(messages)) return value;
+    const message = [...messages].reverse().find((m) => m?.role === role);
+    if (!message) return undefined;
+    if (typeof message.content === 'string') return message.content;
+    return (message.parts ?? [])
+      .map((part: { content?: unknown }) => (typeof part.content === 'string' ? part.content : ''))
+      .join('');
+  } catch {
+    return value;
+  }
+}
+
+// ============================================
+// Export
+// ============================================
+
+function toStatus(status: ExecutionStatus, error?: string): OtlpSpan['status'] {
+  if (status === 'failed' || status === 'cancelled') return { code: STATUS_CODE_ERROR, message: error ?? status };
+  return status === 'completed' ? { code: STATUS_CODE_OK } : {};
+}
+
+function traceToSpan(trace: ExecutionTrace, traceId: string, spanId: string, parentSpanId: string): OtlpSpan {
+  const { metadata } = trace;
+  const operation = metadata.model ? (trace.nodeType === 'agent' ? 'invoke_agent' : 'chat') : undefined;
+  const end = trace.completedAt ?? new Date(Date.parse(trace.startedAt) + trace.durationMs).toISOString();
+
+  return {
+    traceId,
+    spanId,
+    parentSpanId,
+    name: operation ? `${operation} ${operation === 'chat' ? metadata.model : trace.nodeName}` : trace.nodeName,
+    kind: operation === 'chat' ? SPAN_KIND_CLIENT : SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toNanos(trace.startedAt),
+    endTimeUnixNano: toNanos(end),
+    attributes: toAttributes({
+      ...trace.attributes,
+      'gen_ai.operation.name': operation,
+      'gen_ai.agent.name': operation === 'invoke_agent' ? trace.nodeName : undefined,
+      'gen_ai.request.model': metadata.model,
+      'gen_ai.response.model': metadata.model,
+      'gen_ai.request.temperature': metadata.temperature,
+      'gen_ai.usage.input_tokens': metadata.tokensInput,
+      'gen_ai.usage.output_tokens': metadata.tokensOutput,
+      'gen_ai.input.messages': toMessages('user', metadata.prompt),
+      'gen_ai.output.messages': toMessages('assistant', metadata.completion),
+      'afd.node.id': trace.nodeId,
+      'afd.node.name': trace.nodeName,
+      'afd.node.type': trace.nodeType,
+      'afd.node.status': trace.status,
+      'afd.node.input': toJson(trace.input),
+      'afd.node.output': toJson(trace.output),
+      'afd.node.iteration': metadata.iteration,
+      'afd.node.pinned': metadata.pinned,
+      'afd.node.explanation': trace.llmExplanation,
+      'afd.node.reasoning': trace.reasoning,
+      'afd.node.streamed_output': trace.streamedOutput,
+      'afd.cost': metadata.cost,
+      'afd.budget.action': metadata.budgetAction,
+      'afd.budget.reason': metadata.budgetReason,
+      'afd.time_to_first_token_ms': metadata.timeToFirstTokenMs,
+      'afd.retry_count': metadata.retryCount,
+      'afd.cache_hit': metadata.cacheHit,
+    }),
+    status: toStatus(trace.status, trace.error),
+  };
+}
+
+function toolCallToSpan(call: ToolCallTrace, traceId: string, parentSpanId: string, startMs: number): OtlpSpan {
+  return {
+    traceId,
+    spanId: randomHex(8),
+    parentSpanId,
+    name: `execute_tool ${call.toolName}`,
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: `${startMs}000000`,
+    endTimeUnixNano: `${startMs + call.durationMs}000000`,
+    attributes: toAttributes({
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': call.toolName,
+      'gen_ai.tool.call.id': call.id,
+      'gen_ai.tool.call.arguments': toJson(call.toolInput),
+      'gen_ai.tool.call.result': toJson(call.toolOutput),
+      'afd.tool.attempts': call.attempts,
+    }),
+    status: toStatus(call.status, call.error),
+  };
+}
+
+/**
+ * Converts a run into one OTLP trace: a root span for the run, a span per node
+ * run (nested traces become child spans) and an `execute_tool` span per tool
+ * call. Tool calls record durations only, so their spans are laid out back to
+ * back from the start of their node.
+ */
+export function exportRunToOtlp(run: ExecutionRun): OtlpTraceData {
+  const traceId = randomHex(16);
+  const runSpanId = randomHex(8);
+  const spans: OtlpSpan[] = [];
+
+  const addTrace = (trace: ExecutionTrace, parentSpanId: string) => {
+    const spanId = randomHex(8);
+    spans.push(traceToSpan(trace, traceId, spanId, parentSpanId));
+    let toolStart = Date.parse(trace.startedAt);
+    trace.toolCalls?.forEach((call) => {
+      spans.push(toolCallToSpan(call, traceId, spanId, toolStart));
+      toolStart += call.durationMs;
+    });
+    trace.children?.forEach((child) => addTrace(child, spanId));
+  };
+  run.traces.forEach((trace) => addTrace(trace, runSpanId));
+
+  const lastEnd = Math.max(Date.parse(run.startedAt), ...spans.map((s) => fromNanos(s.endTimeUnixNano)));
+  spans.unshift({
+    traceId,
+    spanId: runSpanId,
+    name: run.name,
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toNanos(run.startedAt),
+    endTimeUnixNano: toNanos(run.completedAt ?? new Date(lastEnd).toISOString()),
+    attributes: toAttributes({
+      'afd.run.id': run.id,
+      'afd.run.status': run.status,
+      'afd.run.input': toJson(run.input),
+      'afd.run.output': toJson(run.output),
+    }),
+    status: toStatus(run.status, run.error),
+  });
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: toAttributes({ 'service.name': SERVICE_NAME }) },
+        scopeSpans: [{ scope: { name: SERVICE_NAME }, spans }],
+      },
+    ],
+  };
+}
+
+// ============================================
+// Import
+// ============================================
+
+// Accepts one export or the JSON lines written by the collector's file exporter
+function parseOtlpContent(content: string): OtlpSpan[] {
+  let exports: unknown[];
+  try {
+    exports = [JSON.parse(content)];
+  } catch {
+    exports = content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  }
+
+  return exports.flatMap((data) => {
+    const resourceSpans = (data as Partial<OtlpTraceData> | null)?.resourceSpans;
+    if (!Array.isArray(resourceSpans)) throw new Error('Expected OTLP/JSON trace data with "resourceSpans"');
+    return resourceSpans.flatMap((r) => (r.scopeSpans ?? []).flatMap((s) => s.spans ?? []));
+  });
+}
+
+function spanStatus(span: OtlpSpan, attributes: Attributes): ExecutionStatus {
+  const recorded = attributes['afd.node.status'] ?? attributes['afd.run.status'];
+  if (EXECUTION_STATUSES.includes(recorded as ExecutionStatus)) return recorded as ExecutionStatus;
+  return span.status?.code === STATUS_CODE_ERROR ? 'failed' : 'completed';
+}
+
+function isToolSpan(span: OtlpSpan): boolean {
+  return span.attributes?.some((a) => a.key === 'gen_ai.operation.name' && a.value.stringValue === 'execute_tool') ?? false;
+}
+
+function spanToToolCall(span: OtlpSpan): ToolCallTrace {
+  const attributes = fromAttributes(span.attributes);
+  return {
+    id: String(attributes['gen_ai.tool.call.id'] ?? span.spanId),
+    toolName: String(attributes['gen_ai.tool.name'] ?? span.name.replace(/^execute_tool /, '')),
+    toolInput: parseRecord(attributes['gen_ai.tool.call.arguments']) ?? {},
+    toolOutput: parseJson(attributes['gen_ai.tool.call.result']),
+    status: spanStatus(span, attributes),
+    durationMs: fromNanos(span.endTimeUnixNano) - fromNanos(span.startTimeUnixNano),
+    error: span.status?.code === STATUS_CODE_ERROR ? span.status.message : undefined,
+    attempts: attributes['afd.tool.attempts'] as number | undefined,
+  };
+}
+
+function spanToTrace(span: OtlpSpan, childrenOf: (spanId: string) => OtlpSpan[]): ExecutionTrace {
+  const attributes = fromAttributes(span.attributes);
+  const status = spanStatus(span, attributes);
+  // Known attributes become trace fields; the rest stay visible as span attributes
+  const value = (...keys: string[]) => {
+    const found = attributes[keys.find((k) => attributes[k] !== undefined) ?? ''];
+    keys.forEach((k) => delete attributes[k]);
+    return found;
+  };
+  const number = (...keys: string[]) => {
+    const found = value(...keys);
+    return found === undefined ? undefined : Number(found);
+  };
+  value('afd.node.status');
+  const operation = value('gen_ai.operation.name') as string | undefined;
+  const agentName = value('gen_ai.agent.name') as string | undefined;
+  const prompt = messageText(value('gen_ai.input.messages', 'gen_ai.prompt'), 'user');
+  const completion = messageText(value('gen_ai.output.messages', 'gen_ai.completion'), 'assistant');
+  const tokensInput = number('gen_ai.usage.input_tokens', 'gen_ai.usage.prompt_tokens');
+  const tokensOutput = number('gen_ai.usage.output_tokens', 'gen_ai.usage.completion_tokens');
+  const startMs = fromNanos(span.startTimeUnixNano);
+  const durationMs = fromNanos(span.endTimeUnixNano) - startMs;
+
+  const children = childrenOf(span.spanId);
+  const toolCalls = children.filter(isToolSpan).map(spanToToolCall);
+  const nested = children.filter((child) => !isToolSpan(child)).map((child) => spanToTrace(child, childrenOf));
+
+  const trace: ExecutionTrace = {
+    id: span.spanId,
+    nodeId: String(value('afd.node.id') ?? span.spanId),
+    nodeName: String(value('afd.node.name') ?? agentName ?? span.name),
+    nodeType: String(value('afd.node.type') ?? operation ?? 'span'),
+    status,
+    startedAt: new Date(startMs).toISOString(),
+    completedAt: new Date(startMs + durationMs).toISOString(),
+    durationMs,
+    input: parseRecord(value('afd.node.input')) ?? (prompt !== undefined ? { prompt } : {}),
+    output: parseRecord(value('afd.node.output')) ?? (completion !== undefined ? { completion } : undefined),
+    error: span.status?.code === STATUS_CODE_ERROR ? span.status.message : undefined,
+    llmExplanation: value('afd.node.explanation') as string | undefined,
+    reasoning: value('afd.node.reasoning') as string | undefined,
+    streamedOutput: value('afd.node.streamed_output') as string | undefined,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    metadata: {
+      model: value('gen_ai.response.model', 'gen_ai.request.model') as string | undefined,
+      temperature: number('gen_ai.request.temperature'),
+      tokensInput,
+      tokensOutput,
+      tokensTotal: tokensInput !== undefined || tokensOutput !== undefined ? (tokensInput ?? 0) + (tokensOutput ?? 0) : undefined,
+      cost: number('afd.cost'),
+      budgetAction: value('afd.budget.action') as TraceMetadata['budgetAction'],
+      budgetReason: value('afd.budget.reason') as string | undefined,
+      latencyMs: durationMs,
+      timeToFirstTokenMs: number('afd.time_to_first_token_ms'),
+      retryCount: number('afd.retry_count'),
+      cacheHit: value('afd.cache_hit') as boolean | undefined,
+      iteration: number('afd.node.iteration'),
+      pinned: value('afd.node.pinned') as boolean | undefined,
+      prompt,
+      completion,
+    },
+    children: nested.length > 0 ? nested : undefined,
+  };
+  if (Object.keys(attributes).length > 0) trace.attributes = attributes;
+  return trace;
+}
+
+/**
+ * Turns OTLP/JSON trace data into one run per trace id. A single root span
+ * becomes the run and its child spans the node traces; traces with several
+ * roots list each root as a node. `execute_tool` spans become tool calls of
+ * their parent. Runs exported by this app keep their input, output and node details.
+ */
+export function importOtlpRuns(content: string): ExecutionRun[] {
+  const spans = parseOtlpContent(content);
+  const byTrace = new Map<string, OtlpSpan[]>();
+  spans.forEach((span) => byTrace.set(span.traceId, [...(byTrace.get(span.traceId) ?? []), span]));
+
+  return [...byTrace.entries()].map(([traceId, traceSpans]) => {
+    const ids = new Set(traceSpans.map((s) => s.spanId));
+    const byStart = (a: OtlpSpan, b: OtlpSpan) => Number(a.startTimeUnixNano) - Number(b.startTimeUnixNano);
+    const childrenOf = (spanId: string) => traceSpans.filter((s) => s.parentSpanId === spanId).sort(byStart);
+    const roots = traceSpans.filter((s) => !s.parentSpanId || !ids.has(s.parentSpanId)).sort(byStart);
+
+    const runSpan = roots.length === 1 && childrenOf(roots[0].spanId).length > 0 ? roots[0] : undefined;
+    const topLevel = runSpan ? childrenOf(runSpan.spanId) : roots;
+    const traces = topLevel.filter((span) => !isToolSpan(span)).map((span) => spanToTrace(span, childrenOf));
+
+    const attributes = runSpan ? fromAttributes(runSpan.attributes) : {};
+    const startedAt = Math.min(...traceSpans.map((s) => fromNanos(s.startTimeUnixNano)));
+    const completedAt = Math.max(...traceSpans.map((s) => fromNanos(s.endTimeUnixNano)));
+    const failed = traces.find((t) => t.status === 'failed');
+    // Production root spans often stay OK while a nested call fails
+    const recorded = runSpan ? spanStatus(runSpan, attributes) : 'completed';
+    const status = recorded === 'completed' && failed ? 'failed' : recorded;
+    const cost = traces.reduce((acc, t) => acc + (t.metadata.cost ?? 0), 0);
+
+    return {
+      id: `otlp-${traceId}`,
+      name: runSpan?.name ?? `Trace ${traceId.slice(0, 8)}`,
+      status,
+      startedAt: new Date(startedAt).toISOString(),
+      completedAt: new Date(completedAt).toISOString(),
+      input: parseRecord(attributes['afd.run.input']) ?? {},
+      output: parseRecord(attributes['afd.run.output']),
+      error: runSpan?.status?.code === STATUS_CODE_ERROR ? runSpan.status.message : failed?.error,
+      traces,
+      summary: {
+        ...summarizeTraces(new Set(traces.map((t) => t.nodeId)).size, traces),
+        cost: cost || undefined,
+      },
+    };
+  });
+}
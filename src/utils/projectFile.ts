@@ -0,0 +1,439 @@
+// Project Files (Sidecar Pattern)
+// A saved project is split into logic files (flow JSON and Visual-Safe Python)
+// and a layout sidecar holding VisualMetadata per node. Both are keyed by the
+// node UUID, so dragging nodes around only changes the layout file.
+
+import type { Edge } from '@xyflow/react';
+import type {
+  AgentNode,
+  AgentNodeData,
+  AgentPatternType,
+  CodeConstraint,
+  FlowEdgeData,
+  LoopConfig,
+  NodeIdentity,
+  VisualMetadata,
+} from '../types';
+import type { RunBudget } from '../types/execution';
+import type { CustomEvaluatorDefinition } from '../types/evaluation';
+import { DEFAULT_RUN_BUDGET } from '../types/execution';
+import { nodeConfigs } from './nodeConfig';
+import { generatePythonCode, layoutParsedNodes, validateCodeConstraints } from './codeGenerator';
+import { validateCompilationContract } from './codeContract';
+import { getEdgeCondition, withEdgeCondition } from './branching';
+import { closesCycle, defaultLoopConfig, getForwardEdges, getLoopConfig, withLoop } from './loops';
+import { hasBudgetLimits } from './budgets';
+
+export const PROJECT_FORMAT_VERSION = '1.0';
+
+export interface ProjectFile {
+  name: string;
+  content: string;
+}
+
+// ============================================
+// Node Identity
+// ============================================
+
+/**
+ * Brings the identity registry up to date with the canvas. The UUID never
+ * changes; renaming a node only updates its label and modification time.
+ */
+export function updateNodeIdentities(
+  nodes: AgentNode[],
+  previous: Record<string, NodeIdentity>,
+  now = new Date().toISOString()
+): Record<string, NodeIdentity> {
+  return Object.fromEntries(
+    nodes.map((node) => {
+      const existing = previous[node.id];
+      if (!existing) {
+        return [
+          node.id,
+          { uuid: node.id, label: node.data.label, createdAt: now, lastModifiedAt: now, sourceOrigin: 'visual' },
+        ];
+      }
+      return [
+        node.id,
+        existing.label === node.data.label ? existing : { ...existing, label: node.data.label, lastModifiedAt: now },
+      ];
+    })
+  );
+}
+
+// ============================================
+// Visual Metadata
+// ============================================
+
+/**
+ * Layout of each node. Fields the canvas does not track (collapsed, color,
+ * group) are carried over from the previously loaded sidecar.
+ */
+export function extractVisualMetadata(
+  nodes: AgentNode[],
+  previous: Record<string, VisualMetadata> = {}
+): Record<string, VisualMetadata> {
+  return Object.fromEntries(
+    nodes.map((node) => {
+      const metadata: VisualMetadata = {
+        ...previous[node.id],
+        nodeId: node.id,
+        // Whole pixels keep sub-pixel drags out of the diff
+        position: { x: Math.round(node.position.x), y: Math.round(node.position.y) },
+      };
+      if (node.width && node.height) {
+        metadata.dimensions = { width: Math.round(node.width), height: Math.round(node.height) };
+      }
+      if (node.zIndex !== undefined) metadata.zIndex = node.zIndex;
+      return [node.id, metadata];
+    })
+  );
+}
+
+// ============================================
+// Save
+// ============================================
+
+// Project-level settings stored in the flow file next to the logic
+export interface ProjectSettings {
+  budget?: RunBudget; // Written when it sets a limit
+  evaluators?: CustomEvaluatorDefinition[];
+}
+
+/**
+ * Files for a project named `name`: `<name>.flow.json` and `<name>.py` hold
+ * the logic (and the project settings), `<name>.layout.json` holds the
+ * layout sidecar
+ */
+export function createProjectFiles(
+  name: string,
+  nodes: AgentNode[],
+  edges: Edge[],
+  identities: Record<string, NodeIdentity>,
+  visualMetadata: Record<string, VisualMetadata>,
+  { budget, evaluators }: ProjectSettings = {}
+): ProjectFile[] {
+  const logic = {
+    version: PROJECT_FORMAT_VERSION,
+    architecture: 'CGIS',
+    nodes: nodes.map((n) => ({
+      id: n.id,
+      type: n.data.type,
+      label: n.data.label,
+      config: n.data.config,
+      ...(n.data.hasCodeOverride ? { hasCodeOverride: true, codeOverride: n.data.codeOverride } : {}),
+    })),
+    edges: edges.map((e) => ({
+      id: e.id,
+      source: e.source,
+      target: e.target,
+      ...(getEdgeCondition(e) ? { condition: getEdgeCondition(e) } : {}),
+      ...(getLoopConfig(e) ? { loop: getLoopConfig(e) } : {}),
+    })),
+    identities: Object.fromEntries(nodes.map((n) => [n.id, identities[n.id]]).filter(([, identity]) => identity)),
+    ...(budget && hasBudgetLimits(budget) ? { budget } : {}),
+    ...(evaluators?.length ? { evaluators } : {}),
+  };
+
+  const layout = {
+    version: PROJECT_FORMAT_VERSION,
+    nodes: Object.fromEntries(nodes.map((n) => [n.id, visualMetadata[n.id]]).filter(([, metadata]) => metadata)),
+  };
+
+  return [
+    { name: `${name}.flow.json`, content: `${JSON.stringify(logic, null, 2)}\n` },
+    { name: `${name}.py`, content: generatePythonCode(nodes, edges, { stable: true }).python },
+    { name: `${name}.layout.json`, content: `${JSON.stringify(layout, null, 2)}\n` },
+  ];
+}
+
+// ============================================
+// Load / Import
+// ============================================
+
+// Flow file shapes the importer understands
+export type ImportFormat =
+  | 'project' // <name>.flow.json written by Save
+  | 'flowExport' // JSON tab of the code view (version 2.0, logic + visualMetadata)
+  | 'canvas' // Older Save output: React Flow `{ nodes, edges }`
+  | 'fileExplorer' // config/flow.json from the file explorer
+  | 'python'; // Visual-Safe Python export
+
+export interface ImportReport {
+  format: ImportFormat | null;
+  files: string[];
+  dropped: string[]; // Nodes and edges that could not be loaded
+  migrated: string[]; // Changes made to bring older files up to date
+  warnings: string[];
+  constraints: CodeConstraint[]; // validateCodeConstraints on the loaded graph
+}
+
+export interface LoadedProject {
+  nodes: AgentNode[];
+  edges: Edge[];
+  identities: Record<string, NodeIdentity>;
+  visualMetadata: Record<string, VisualMetadata>;
+  budget?: RunBudget; // Only project files carry settings
+  evaluators?: CustomEvaluatorDefinition[];
+  report: ImportReport;
+}
+
+interface LogicNode {
+  id: string;
+  type: string;
+  label: string;
+  config?: Record<string, unknown>;
+  hasCodeOverride?: boolean;
+  codeOverride?: string;
+}
+
+interface LogicEdge {
+  id?: string;
+  source: string;
+  target: string;
+  condition?: string;
+  loop?: LoopConfig;
+}
+
+// Every supported format reduced to logic plus optional positions
+interface FlowDocument {
+  format: ImportFormat;
+  nodes: LogicNode[];
+  edges: LogicEdge[];
+  positions: Record<string, { x: number; y: number }>;
+  identities: Record<string, NodeIdentity>;
+  budget?: RunBudget;
+  evaluators?: CustomEvaluatorDefinition[];
+}
+
+function readFlowDocument(doc: Record<string, unknown>): FlowDocument | null {
+  const list = (value: unknown) => (Array.isArray(value) ? (value as Record<string, unknown>[]) : null);
+
+  const logic = doc.logic as Record<string, unknown> | undefined;
+  if (logic && list(logic.nodes)) {
+    const visual = doc.visualMetadata as { nodePositions?: Record<string, { x: number; y: number }> } | undefined;
+    return {
+      format: 'flowExport',
+      nodes: list(logic.nodes) as unknown as LogicNode[],
+      edges: (list(logic.edges) ?? []) as unknown as LogicEdge[],
+      positions: visual?.nodePositions ?? {},
+      identities: {},
+    };
+  }
+
+  const nodes = list(doc.nodes);
+  if (!nodes) return null;
+  const edges = list(doc.edges) ?? [];
+
+  if (doc.identities !== undefined || doc.architecture === 'CGIS') {
+    return {
+      format: 'project',
+      nodes: nodes as unknown as LogicNode[],
+      edges: edges as unknown as LogicEdge[],
+      positions: {},
+      identities: (doc.identities ?? {}) as Record<string, NodeIdentity>,
+      budget: doc.budget ? { ...DEFAULT_RUN_BUDGET, ...(doc.budget as Partial<RunBudget>) } : undefined,
+      evaluators: (list(doc.evaluators) ?? undefined) as CustomEvaluatorDefinition[] | undefined,
+    };
+  }
+
+  // React Flow nodes keep the logic under `data`
+  if (nodes.some((n) => typeof n.data === 'object' && n.data !== null)) {
+    return {
+      format: 'canvas',
+      nodes: nodes.map((n) => {
+        const data = (n.data ?? {}) as Partial<AgentNodeData>;
+        return {
+          id: String(n.id),
+          type: String(data.type),
+          label: String(data.label ?? n.id),
+          config: data.config,
+          hasCodeOverride: data.hasCodeOverride,
+          codeOverride: data.codeOverride,
+        };
+      }),
+      edges: edges.map((e) => {
+        const data = (e.data ?? {}) as FlowEdgeData;
+        return { id: e.id as string | undefined, source: String(e.source), target: String(e.target), condition: data.condition, loop: data.loop };
+      }),
+      positions: Object.fromEntries(
+        nodes.filter((n) => n.position).map((n) => [String(n.id), n.position as { x: number; y: number }])
+      ),
+      identities: {},
+    };
+  }
+
+  return {
+    format: 'fileExplorer',
+    nodes: nodes as unknown as LogicNode[],
+    edges: edges as unknown as LogicEdge[],
+    positions: {},
+    identities: {},
+  };
+}
+
+/**
+ * Reassembles a flow from saved files. Accepts the project files written by
+ * Save (logic + layout sidecar), older single-file saves, the file explorer's
+ * config/flow.json, the code view's JSON export and the Python export.
+ * Anything that cannot be loaded is dropped and listed in the report.
+ */
+export function loadProjectFiles(files: ProjectFile[]): LoadedProject {
+  const report: ImportReport = {
+    format: null,
+    files: files.map((f) => f.name),
+    dropped: [],
+    migrated: [],
+    warnings: [],
+    constraints: [],
+  };
+
+  const readJson = (file: ProjectFile): Record<string, unknown> | null => {
+    try {
+      const value = JSON.parse(file.content);
+      return typeof value === 'object' && value !== null ? value : null;
+    } catch {
+      report.warnings.push(`${file.name} is not valid JSON`);
+      return null;
+    }
+  };
+
+  const layoutFile = files.find((f) => f.name.endsWith('.layout.json'));
+  const pythonFile = files.find((f) => f.name.endsWith('.py'));
+
+  // The flow JSON is preferred over the Python file when both are present
+  let doc: FlowDocument | null = null;
+  for (const file of files.filter((f) => f.name.endsWith('.json') && f !== layoutFile)) {
+    const json = readJson(file);
+    doc = json && readFlowDocument(json);
+    if (doc) break;
+    if (json) report.warnings.push(`${file.name} is not a flow file`);
+  }
+
+  if (!doc && pythonFile) {
+    const contract = validateCompilationContract(pythonFile.content);
+    report.warnings.push(
+      ...contract.constraints
+        .filter((c) => c.severity !== 'info')
+        .map((c) => (c.line ? `${pythonFile.name}:${c.line}: ${c.message}` : `${pythonFile.name}: ${c.message}`))
+    );
+    if (contract.flow) {
+      report.warnings.push(...contract.flow.warnings);
+      doc = {
+        format: 'python',
+        nodes: contract.flow.nodes.map((n) => ({ id: n.id, ...n.data })),
+        edges: contract.flow.edges.map((e) => ({
+          id: e.id,
+          source: e.source,
+          target: e.target,
+          condition: getEdgeCondition(e),
+          loop: getLoopConfig(e),
+        })),
+        positions: {},
+        identities: {},
+      };
+    } else {
+      report.warnings.push(`${pythonFile.name} does not contain any @agent_node classes`);
+    }
+  }
+
+  if (!doc) {
+    if (files.length > 0 && report.warnings.length === 0) report.warnings.push('No flow file found; expected a .json or .py file');
+    return { nodes: [], edges: [], identities: {}, visualMetadata: {}, report };
+  }
+  report.format = doc.format;
+
+  // Nodes: known types only, unique ids, config migrated onto the current defaults
+  const nodes: AgentNode[] = [];
+  doc.nodes.forEach((n, i) => {
+    const label = n?.label || n?.id || `#${i + 1}`;
+    if (!n || typeof n.id !== 'string' || !n.id) {
+      report.dropped.push(`Node ${label}: missing id`);
+      return;
+    }
+    if (!(n.type in nodeConfigs)) {
+      report.dropped.push(`Node "${label}": unknown type "${n.type}"`);
+      return;
+    }
+    if (nodes.some((existing) => existing.id === n.id)) {
+      report.dropped.push(`Node "${label}": duplicate id "${n.id}"`);
+      return;
+    }
+
+    const type = n.type as AgentPatternType;
+    const defaults = nodeConfigs[type].defaultData;
+    const missing = Object.keys(defaults).filter((key) => n.config?.[key] === undefined);
+    if (missing.length > 0 && n.config) {
+      report.migrated.push(`Node "${label}": added default ${missing.join(', ')}`);
+    }
+
+    const data: AgentNodeData = { type, label: n.label || nodeConfigs[type].label, config: { ...defaults, ...n.config } };
+    if (n.hasCodeOverride) {
+      data.hasCodeOverride = true;
+      data.codeOverride = n.codeOverride;
+    }
+    nodes.push({ id: n.id, type: 'agentNode', position: { x: 0, y: 0 }, data });
+  });
+
+  // Edges: both ends must exist; ids are derived when the file has none
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const edges: Edge[] = [];
+  doc.edges.forEach((e) => {
+    if (!e || !nodeIds.has(e.source) || !nodeIds.has(e.target)) {
+      report.dropped.push(`Edge ${e?.source ?? '?'} → ${e?.target ?? '?'}: references a node that was not loaded`);
+      return;
+    }
+    const id = e.id || `e-${e.source}-${e.target}`;
+    if (edges.some((existing) => existing.id === id)) {
+      report.dropped.push(`Edge ${e.source} → ${e.target}: duplicate id "${id}"`);
+      return;
+    }
+
+    let edge: Edge = { id, source: e.source, target: e.target, animated: true };
+    if (e.condition) edge = withEdgeCondition(edge, e.condition);
+
+    // Flows saved before loop edges existed close cycles with plain edges
+    let loop = e.loop;
+    if (!loop && closesCycle(e.source, e.target, edges)) {
+      const byId = (nodeId: string) => nodes.find((n) => n.id === nodeId);
+      loop = defaultLoopConfig(byId(e.source), byId(e.target));
+      report.migrated.push(
+        `Edge ${e.source} → ${e.target}: closes a cycle, converted to a loop of at most ${loop.maxIterations} iterations`
+      );
+    }
+    if (loop) edge = withLoop(edge, loop);
+    edges.push(edge);
+  });
+
+  // Positions: layout sidecar first, then positions stored in the flow file
+  const layout = layoutFile ? readJson(layoutFile) : null;
+  const visualMetadata = (layout?.nodes ?? {}) as Record<string, VisualMetadata>;
+  const placed = nodes.map((node) => {
+    const metadata = visualMetadata[node.id];
+    const position = metadata?.position ?? doc.positions[node.id];
+    if (!position) return node;
+    return { ...node, position, ...(metadata?.zIndex !== undefined ? { zIndex: metadata.zIndex } : {}) };
+  });
+  const unplaced = placed.filter((n) => !visualMetadata[n.id] && !doc.positions[n.id]);
+  layoutParsedNodes(unplaced, getForwardEdges(edges));
+  if (unplaced.length > 0 && doc.format !== 'python' && doc.format !== 'fileExplorer') {
+    report.migrated.push(`${unplaced.length} node(s) had no saved position and were laid out automatically`);
+  }
+
+  // Nodes without a saved identity were created outside the designer
+  const now = new Date().toISOString();
+  const identities: Record<string, NodeIdentity> = {};
+  placed.forEach((node) => {
+    identities[node.id] = doc.identities[node.id] ?? {
+      uuid: node.id,
+      label: node.data.label,
+      createdAt: now,
+      lastModifiedAt: now,
+      sourceOrigin: doc.format === 'python' ? 'code' : 'import',
+    };
+  });
+
+  report.constraints = validateCodeConstraints(placed, edges);
+
+  return { nodes: placed, edges, identities, visualMetadata, budget: doc.budget, evaluators: doc.evaluators, report };
+}
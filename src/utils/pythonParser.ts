@@ -0,0 +1,737 @@
+// Python Parser for the "Visual-Safe" Subset
+// Structural parser used to rehydrate Python code into a flow graph (CGIS Architecture)
+//
+// This is not a full Python grammar. It understands exactly what the visual layer
+// needs: top-level classes and functions, their decorators, class attributes,
+// method bodies and Python literal values. Anything else is preserved as raw
+// logical lines so validators can still reason about it.
+
+// ============================================
+// AST Types
+// ============================================
+
+export type PyValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PyValue[]
+  | { [key: string]: PyValue };
+
+/**
+ * An expression is either a static literal (safe to show in the visual layer)
+ * or a dynamic expression that can only be evaluated at runtime.
+ */
+export type PyExpression =
+  | { kind: 'literal'; value: PyValue; raw: string }
+  | { kind: 'dynamic'; raw: string };
+
+export interface LogicalLine {
+  text: string; // Comment-stripped source, continuation lines joined
+  line: number; // 1-based line of the first physical line
+  endLine: number;
+  indent: number;
+}
+
+export interface PyCall {
+  callee: string;
+  args: PyExpression[];
+  kwargs: Record<string, PyExpression>;
+}
+
+export interface PyDecorator {
+  name: string;
+  call: PyCall | null; // null for bare decorators like @dataclass
+  line: number;
+}
+
+export interface PyAttribute {
+  name: string;
+  annotation?: string;
+  value?: PyExpression;
+  line: number;
+}
+
+export interface PyFunction {
+  name: string;
+  isAsync: boolean;
+  params: string;
+  decorators: PyDecorator[];
+  line: number;
+  endLine: number;
+  body: LogicalLine[];
+}
+
+export interface PyClass {
+  name: string;
+  bases: string;
+  decorators: PyDecorator[];
+  line: number; // Line of the class keyword
+  endLine: number;
+  attributes: PyAttribute[];
+  methods: PyFunction[];
+  docstring?: string;
+}
+
+export interface PySyntaxError {
+  message: string;
+  line: number;
+}
+
+export interface PyModule {
+  lines: LogicalLine[];
+  classes: PyClass[];
+  functions: PyFunction[];
+  statements: LogicalLine[]; // Top-level code that is neither a class nor a function
+  errors: PySyntaxError[];
+}
+
+// ============================================
+// Logical Line Splitting
+// ============================================
+
+/**
+ * Splits source into logical lines: comments are removed, bracketed and
+ * backslash continuations are joined, and multi-line strings stay intact.
+ */
+export function splitLogicalLines(code: string): { lines: LogicalLine[]; errors: PySyntaxError[] } {
+  const lines: LogicalLine[] = [];
+  const errors: PySyntaxError[] = [];
+
+  let buffer = '';
+  let line = 1;
+  let startLine = 1;
+  let depth = 0;
+  let quote: string | null = null;
+  let quoteLine = 1;
+  let rawString = false;
+
+  const flush = () => {
+    if (buffer.trim()) {
+      const indentMatch = buffer.match(/^[ \t]*/);
+      const indent = (indentMatch ? indentMatch[0] : '').replace(/\t/g, '    ').length;
+      lines.push({ text: buffer.trim(), line: startLine, endLine: line, indent });
+    }
+    buffer = '';
+  };
+
+  const append = (text: string) => {
+    if (!buffer.trim() && text.trim()) startLine = line;
+    buffer += text;
+  };
+
+  for (let i = 0; i < code.length; i++) {
+    const ch = code[i];
+
+    if (quote) {
+      if (ch === '\\' && !rawString && i + 1 < code.length) {
+        buffer += ch + code[i + 1];
+        if (code[i + 1] === '\n') line++;
+        i++;
+        continue;
+      }
+      if (code.startsWith(quote, i)) {
+        buffer += quote;
+        i += quote.length - 1;
+        quote = null;
+        continue;
+      }
+      if (ch === '\n') {
+        line++;
+        if (quote.length === 1) {
+          errors.push({ message: 'Unterminated string literal', line: quoteLine });
+          quote = null;
+          if (depth === 0) {
+            flush();
+            continue;
+          }
+        }
+      }
+      buffer += ch;
+      continue;
+    }
+
+    if (ch === '#') {
+      while (i + 1 < code.length && code[i + 1] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const triple = ch.repeat(3);
+      quote = code.startsWith(triple, i) ? triple : ch;
+      quoteLine = line;
+      rawString = /(?:^|\W)(?:[rR][bBfFuU]?|[bBfFuU][rR])$/.test(buffer);
+      append(quote);
+      i += quote.length - 1;
+      continue;
+    }
+
+    if (ch === '\\' && code[i + 1] === '\n') {
+      buffer += ' ';
+      line++;
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    if (ch === ')' || ch === ']' || ch === '}') depth = Math.max(0, depth - 1);
+
+    if (ch === '\n') {
+      if (depth > 0) {
+        buffer += ' ';
+        line++;
+      } else {
+        flush();
+        line++;
+      }
+      continue;
+    }
+
+    append(ch);
+  }
+
+  if (quote) {
+    errors.push({ message: 'Unterminated string literal', line: quoteLine });
+  }
+  if (depth > 0) {
+    errors.push({ message: 'Unclosed bracket at end of file', line: startLine });
+  }
+  flush();
+
+  return { lines, errors };
+}
+
+// ============================================
+// Module Structure
+// ============================================
+
+const CLASS_PATTERN = /^class\s+([A-Za-z_]\w*)\s*(?:\(([\s\S]*)\))?\s*:([\s\S]*)$/;
+const DEF_PATTERN = /^(async\s+)?def\s+([A-Za-z_]\w*)\s*\(([\s\S]*)\)\s*(?:->\s*[^:]+)?:([\s\S]*)$/;
+const ATTRIBUTE_PATTERN = /^([A-Za-z_]\w*)\s*(?::\s*([^=]+?))?\s*(?:=(?!=)\s*([\s\S]+))?$/;
+
+/**
+ * Parses Python source into a structural module tree.
+ * Never throws: problems are reported in `errors` and parsing continues.
+ */
+export function parsePythonModule(code: string): PyModule {
+  const { lines, errors } = splitLogicalLines(code);
+  const module: PyModule = { lines, classes: [], functions: [], statements: [], errors };
+
+  let pending: PyDecorator[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const current = lines[i];
+
+    if (current.indent > 0) {
+      // Body of a top-level statement such as `if __name__ == "__main__":`
+      module.statements.push(current);
+      i++;
+      continue;
+    }
+
+    if (current.text.startsWith('@')) {
+      pending.push(parseDecorator(current));
+      i++;
+      continue;
+    }
+
+    const end = findBlockEnd(lines, i, current.indent);
+    const body = lines.slice(i + 1, end);
+
+    const classMatch = current.text.match(CLASS_PATTERN);
+    if (classMatch) {
+      module.classes.push(parseClass(classMatch, current, body, pending));
+      pending = [];
+      i = end;
+      continue;
+    }
+
+    const defMatch = current.text.match(DEF_PATTERN);
+    if (defMatch) {
+      module.functions.push(buildFunction(defMatch, current, body, pending));
+      pending = [];
+      i = end;
+      continue;
+    }
+
+    if (pending.length > 0) {
+      errors.push({
+        message: `Decorator "@${pending[0].name}" is not followed by a class or function`,
+        line: pending[0].line,
+      });
+      pending = [];
+    }
+
+    module.statements.push(current);
+    i++;
+  }
+
+  if (pending.length > 0) {
+    errors.push({
+      message: `Decorator "@${pending[0].name}" is not followed by a class or function`,
+      line: pending[0].line,
+    });
+  }
+
+  return module;
+}
+
+function findBlockEnd(lines: LogicalLine[], start: number, indent: number): number {
+  let end = start + 1;
+  while (end < lines.length && lines[end].indent > indent) end++;
+  return end;
+}
+
+function parseDecorator(line: LogicalLine): PyDecorator {
+  const text = line.text.slice(1).trim();
+  const call = parseCall(text);
+  return {
+    name: call ? call.callee : text,
+    call,
+    line: line.line,
+  };
+}
+
+function parseClass(
+  match: RegExpMatchArray,
+  header: LogicalLine,
+  body: LogicalLine[],
+  decorators: PyDecorator[]
+): PyClass {
+  const cls: PyClass = {
+    name: match[1],
+    bases: (match[2] || '').trim(),
+    decorators,
+    line: header.line,
+    endLine: body.length > 0 ? body[body.length - 1].endLine : header.endLine,
+    attributes: [],
+    methods: [],
+  };
+
+  if (body.length === 0) return cls;
+
+  const bodyIndent = body[0].indent;
+  let pending: PyDecorator[] = [];
+  let i = 0;
+
+  while (i < body.length) {
+    const current = body[i];
+
+    if (current.indent > bodyIndent) {
+      i++;
+      continue;
+    }
+
+    if (current.text.startsWith('@')) {
+      pending.push(parseDecorator(current));
+      i++;
+      continue;
+    }
+
+    const end = findBlockEnd(body, i, current.indent);
+    const defMatch = current.text.match(DEF_PATTERN);
+
+    if (defMatch) {
+      cls.methods.push(buildFunction(defMatch, current, body.slice(i + 1, end), pending));
+      pending = [];
+      i = end;
+      continue;
+    }
+    pending = [];
+
+    if (i === 0) {
+      const docstring = parseExpression(current.text);
+      if (docstring.kind === 'literal' && typeof docstring.value === 'string') {
+        cls.docstring = docstring.value;
+        i++;
+        continue;
+      }
+    }
+
+    const attrMatch = current.text.match(ATTRIBUTE_PATTERN);
+    if (attrMatch && (attrMatch[2] !== undefined || attrMatch[3] !== undefined)) {
+      cls.attributes.push({
+        name: attrMatch[1],
+        annotation: attrMatch[2]?.trim(),
+        value: attrMatch[3] !== undefined ? parseExpression(attrMatch[3]) : undefined,
+        line: current.line,
+      });
+    }
+
+    i = end;
+  }
+
+  return cls;
+}
+
+function buildFunction(
+  match: RegExpMatchArray,
+  header: LogicalLine,
+  body: LogicalLine[],
+  decorators: PyDecorator[]
+): PyFunction {
+  const inline = match[4].trim();
+  return {
+    name: match[2],
+    isAsync: Boolean(match[1]),
+    params: match[3].trim(),
+    decorators,
+    line: header.line,
+    endLine: body.length > 0 ? body[body.length - 1].endLine : header.endLine,
+    body: inline
+      ? [{ text: inline, line: header.line, endLine: header.endLine, indent: header.indent + 4 }]
+      : body,
+  };
+}
+
+// ============================================
+// Calls and Assignments
+// ============================================
+
+/**
+ * Parses `name(arg, key=value)` into its callee and literal/dynamic arguments.
+ * Returns null when the text is not a single call expression.
+ */
+export function parseCall(text: string): PyCall | null {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^([A-Za-z_][\w.]*)\s*\(/);
+  if (!match) return null;
+
+  // Reject things like `foo(a)(b)` or `foo(a) + bar(b)`
+  const open = match[0].length - 1;
+  if (findClosingBracket(trimmed, open) !== trimmed.length - 1) return null;
+
+  const call: PyCall = { callee: match[1], args: [], kwargs: {} };
+  for (const part of splitTopLevel(trimmed.slice(open + 1, -1), ',')) {
+    const piece = part.trim();
+    if (!piece) continue;
+    const kw = piece.match(/^([A-Za-z_]\w*)\s*=(?!=)\s*([\s\S]+)$/);
+    if (kw) {
+      call.kwargs[kw[1]] = parseExpression(kw[2]);
+    } else {
+      call.args.push(parseExpression(piece));
+    }
+  }
+  return call;
+}
+
+/**
+ * Parses a simple assignment such as `self.schema = {...}`.
+ */
+export function parseAssignment(text: string): { target: string; value: PyExpression } | null {
+  const match = text.match(/^([A-Za-z_][\w.]*(?:\[[^\]]+\])*)\s*(?::\s*[^=]+?)?\s*=(?!=)\s*([\s\S]+)$/);
+  if (!match) return null;
+  return { target: match[1], value: parseExpression(match[2]) };
+}
+
+/**
+ * Splits text on a separator that is not nested in brackets or strings.
+ */
+export function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      current += ch;
+      if (ch === '\\' && i + 1 < text.length) {
+        current += text[++i];
+      } else if (text.startsWith(quote, i)) {
+        current += quote.slice(1);
+        i += quote.length - 1;
+        quote = null;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = text.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+      current += quote;
+      i += quote.length - 1;
+      continue;
+    }
+
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    if (ch === ')' || ch === ']' || ch === '}') depth--;
+
+    if (depth === 0 && text.startsWith(separator, i)) {
+      parts.push(current);
+      current = '';
+      i += separator.length - 1;
+      continue;
+    }
+
+    current += ch;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Returns the index of the bracket closing the one at `open`, or -1.
+ */
+export function findClosingBracket(text: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (ch === '\\') {
+        i++;
+      } else if (text.startsWith(quote, i)) {
+        i += quote.length - 1;
+        quote = null;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = text.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+      i += quote.length - 1;
+      continue;
+    }
+
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    if (ch === ')' || ch === ']' || ch === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+// ============================================
+// Literal Evaluation
+// ============================================
+
+type Token =
+  | { type: 'string'; value: string; formatted: boolean }
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+class NonLiteralError extends Error {}
+
+/**
+ * Evaluates a Python expression if it is a static literal
+ * (strings, numbers, booleans, None, lists, tuples, dicts and sets).
+ */
+export function parseExpression(raw: string): PyExpression {
+  const text = raw.trim();
+  try {
+    const tokens = tokenize(text);
+    const state = { tokens, pos: 0 };
+    const value = parseValue(state);
+    if (state.pos !== tokens.length) throw new NonLiteralError();
+    return { kind: 'literal', value, raw: text };
+  } catch {
+    return { kind: 'dynamic', raw: text };
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const stringMatch = text.slice(i).match(/^([rRbBuUfF]{0,2})("""|'''|"|')/);
+    if (stringMatch) {
+      const prefix = stringMatch[1].toLowerCase();
+      const quote = stringMatch[2];
+      const start = i + stringMatch[0].length;
+      let j = start;
+      while (j < text.length && !text.startsWith(quote, j)) {
+        if (text[j] === '\\') j++;
+        j++;
+      }
+      if (j >= text.length) throw new NonLiteralError();
+      const body = text.slice(start, j);
+      tokens.push({
+        type: 'string',
+        value: prefix.includes('r') ? body : unescapePython(body),
+        formatted: prefix.includes('f'),
+      });
+      i = j + quote.length;
+      continue;
+    }
+
+    const numberMatch = text.slice(i).match(/^(?:0[xX][0-9a-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)/);
+    if (numberMatch) {
+      const literal = numberMatch[0].replace(/_/g, '');
+      tokens.push({ type: 'number', value: Number(literal) });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const nameMatch = text.slice(i).match(/^[A-Za-z_]\w*/);
+    if (nameMatch) {
+      tokens.push({ type: 'name', value: nameMatch[0] });
+      i += nameMatch[0].length;
+      continue;
+    }
+
+    if ('[](){},:-+'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch });
+      i++;
+      continue;
+    }
+
+    throw new NonLiteralError();
+  }
+
+  return tokens;
+}
+
+function unescapePython(body: string): string {
+  return body.replace(/\\(\n|\\|'|"|n|t|r|0|x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4})/g, (_match, seq: string) => {
+    switch (seq[0]) {
+      case '\n':
+        return '';
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      case '0':
+        return '\0';
+      case 'x':
+      case 'u':
+        return String.fromCharCode(parseInt(seq.slice(1), 16));
+      default:
+        return seq;
+    }
+  });
+}
+
+interface ParseState {
+  tokens: Token[];
+  pos: number;
+}
+
+function peekOp(state: ParseState, value: string): boolean {
+  const token = state.tokens[state.pos];
+  return token?.type === 'op' && token.value === value;
+}
+
+function expectOp(state: ParseState, value: string): void {
+  if (!peekOp(state, value)) throw new NonLiteralError();
+  state.pos++;
+}
+
+function parseValue(state: ParseState): PyValue {
+  const token = state.tokens[state.pos];
+  if (!token) throw new NonLiteralError();
+
+  switch (token.type) {
+    case 'string': {
+      let value = '';
+      while (state.tokens[state.pos]?.type === 'string') {
+        const part = state.tokens[state.pos] as Extract<Token, { type: 'string' }>;
+        if (part.formatted) throw new NonLiteralError();
+        value += part.value;
+        state.pos++;
+      }
+      return value;
+    }
+    case 'number':
+      state.pos++;
+      return token.value;
+    case 'name':
+      state.pos++;
+      if (token.value === 'True') return true;
+      if (token.value === 'False') return false;
+      if (token.value === 'None') return null;
+      throw new NonLiteralError();
+    case 'op':
+      return parseCompound(state, token.value);
+  }
+}
+
+function parseCompound(state: ParseState, op: string): PyValue {
+  if (op === '-' || op === '+') {
+    state.pos++;
+    const value = parseValue(state);
+    if (typeof value !== 'number') throw new NonLiteralError();
+    return op === '-' ? -value : value;
+  }
+
+  if (op === '[' || op === '(') {
+    const close = op === '[' ? ']' : ')';
+    state.pos++;
+    const items: PyValue[] = [];
+    let sawComma = false;
+    while (!peekOp(state, close)) {
+      items.push(parseValue(state));
+      if (peekOp(state, ',')) {
+        sawComma = true;
+        state.pos++;
+      } else if (!peekOp(state, close)) {
+        throw new NonLiteralError();
+      }
+    }
+    state.pos++;
+    // `(x)` is a parenthesized value, `(x,)` is a tuple
+    return op === '(' && items.length === 1 && !sawComma ? items[0] : items;
+  }
+
+  if (op === '{') {
+    state.pos++;
+    const dict: Record<string, PyValue> = {};
+    const set: PyValue[] = [];
+    while (!peekOp(state, '}')) {
+      const key = parseValue(state);
+      if (peekOp(state, ':')) {
+        state.pos++;
+        if (key === null || typeof key === 'object') throw new NonLiteralError();
+        dict[String(key)] = parseValue(state);
+      } else {
+        set.push(key);
+      }
+      if (peekOp(state, ',')) {
+        state.pos++;
+      } else if (!peekOp(state, '}')) {
+        throw new NonLiteralError();
+      }
+    }
+    expectOp(state, '}');
+    if (set.length > 0 && Object.keys(dict).length > 0) throw new NonLiteralError();
+    return set.length > 0 ? set : dict;
+  }
+
+  throw new NonLiteralError();
+}
+
+/**
+ * Renders a JS value as a Python literal (inverse of parseExpression).
+ */
+export function toPythonLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'None';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(toPythonLiteral).join(', ')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).map(
+      ([key, item]) => `${JSON.stringify(key)}: ${toPythonLiteral(item)}`
+    );
+    return `{${entries.join(', ')}}`;
+  }
+  return 'None';
+}
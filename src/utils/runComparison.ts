@@ -0,0 +1,190 @@
+// Run Comparison
+// Diffs two evaluation runs per data point and per evaluator, and flags the
+// drops that are larger than the trial-to-trial noise as regressions.
+
+import type {
+  EvaluationRun,
+  RunComparison,
+  TestCaseComparison,
+  TestCaseImprovement,
+  TestCaseRegression,
+  TestCaseResult,
+} from '../types/evaluation';
+
+// Score changes below this are treated as noise even without a spread to measure
+const MIN_SCORE_DELTA = 0.05;
+
+// A change must exceed this many standard errors, roughly 95% confidence
+const SIGNIFICANCE_Z = 2;
+
+// ============================================
+// Statistics
+// ============================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Sample variance; a single value has no spread
+function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Whether `delta` is a meaningful change: at least MIN_SCORE_DELTA and beyond
+ * SIGNIFICANCE_Z standard errors. Without repeated trials the standard error
+ * is zero and the minimum delta alone decides.
+ */
+function isSignificant(delta: number, standardError: number): boolean {
+  return Math.abs(delta) >= MIN_SCORE_DELTA && Math.abs(delta) > SIGNIFICANCE_Z * standardError;
+}
+
+// ============================================
+// Per Data Point
+// ============================================
+
+interface CaseStats {
+  input: Record<string, unknown>;
+  scores: number[]; // One per trial
+  passRate: number;
+  output: Record<string, unknown>; // Of the last trial
+  evaluatorScores: Record<string, number>; // Mean over trials, by evaluator type
+}
+
+function groupByDataPoint(results: TestCaseResult[]): Map<string, CaseStats> {
+  const groups = new Map<string, TestCaseResult[]>();
+  results.forEach((r) => groups.set(r.dataPointId, [...(groups.get(r.dataPointId) ?? []), r]));
+
+  const stats = new Map<string, CaseStats>();
+  groups.forEach((trials, dataPointId) => {
+    const byEvaluator: Record<string, number[]> = {};
+    trials.flatMap((t) => t.evaluatorResults).forEach((e) => {
+      (byEvaluator[e.evaluatorType] ??= []).push(e.score);
+    });
+    stats.set(dataPointId, {
+      input: trials[0].input,
+      scores: trials.map((t) => t.aggregateScore),
+      passRate: trials.filter((t) => t.passed).length / trials.length,
+      output: trials[trials.length - 1].actualOutput,
+      evaluatorScores: Object.fromEntries(Object.entries(byEvaluator).map(([type, scores]) => [type, mean(scores)])),
+    });
+  });
+  return stats;
+}
+
+function evaluatorDeltas(current: Record<string, number>, baseline: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Object.keys(current)
+      .filter((type) => type in baseline)
+      .map((type) => [type, current[type] - baseline[type]])
+  );
+}
+
+function compareCase(dataPointId: string, current?: CaseStats, baseline?: CaseStats): TestCaseComparison {
+  const either = (current ?? baseline)!;
+  const comparison: TestCaseComparison = {
+    dataPointId,
+    input: either.input,
+    change: current ? 'added' : 'removed',
+    previousScore: baseline && mean(baseline.scores),
+    currentScore: current && mean(current.scores),
+    delta: 0,
+    previousPassRate: baseline?.passRate,
+    currentPassRate: current?.passRate,
+    previousOutput: baseline?.output,
+    currentOutput: current?.output,
+    evaluatorDeltas: {},
+  };
+  if (!current || !baseline) return comparison;
+
+  const delta = comparison.currentScore! - comparison.previousScore!;
+  const standardError = Math.sqrt(
+    variance(current.scores) / current.scores.length + variance(baseline.scores) / baseline.scores.length
+  );
+  // A case that always passed and now always fails regresses whatever its score
+  const flippedToFail = baseline.passRate === 1 && current.passRate === 0;
+  const flippedToPass = baseline.passRate === 0 && current.passRate === 1;
+
+  let change: TestCaseComparison['change'] = 'unchanged';
+  if (flippedToFail || (delta < 0 && isSignificant(delta, standardError))) change = 'regression';
+  else if (flippedToPass || (delta > 0 && isSignificant(delta, standardError))) change = 'improvement';
+
+  return {
+    ...comparison,
+    change,
+    delta,
+    evaluatorDeltas: evaluatorDeltas(current.evaluatorScores, baseline.evaluatorScores),
+  };
+}
+
+// ============================================
+// Run Comparison
+// ============================================
+
+/**
+ * Compares `current` with `baseline`, matching results by data point and
+ * averaging repeated trials. Besides the per-case regressions, a run also
+ * regresses when the mean paired score change over all shared data points
+ * is a significant drop, which catches many small losses.
+ */
+export function compareEvaluationRuns(current: EvaluationRun, baseline: EvaluationRun): RunComparison {
+  const currentCases = groupByDataPoint(current.results);
+  const baselineCases = groupByDataPoint(baseline.results);
+  const ids = [...new Set([...currentCases.keys(), ...baselineCases.keys()])];
+  const cases = ids.map((id) => compareCase(id, currentCases.get(id), baselineCases.get(id)));
+
+  const regressions: TestCaseRegression[] = cases
+    .filter((c) => c.change === 'regression')
+    .map((c) => ({
+      dataPointId: c.dataPointId,
+      previousScore: c.previousScore!,
+      currentScore: c.currentScore!,
+      delta: c.delta,
+      affectedEvaluators: Object.keys(c.evaluatorDeltas).filter((type) => c.evaluatorDeltas[type] <= -MIN_SCORE_DELTA),
+    }));
+  const improvements: TestCaseImprovement[] = cases
+    .filter((c) => c.change === 'improvement')
+    .map((c) => ({
+      dataPointId: c.dataPointId,
+      previousScore: c.previousScore!,
+      currentScore: c.currentScore!,
+      delta: c.delta,
+      improvedEvaluators: Object.keys(c.evaluatorDeltas).filter((type) => c.evaluatorDeltas[type] >= MIN_SCORE_DELTA),
+    }));
+
+  const paired = cases.filter((c) => c.change !== 'added' && c.change !== 'removed').map((c) => c.delta);
+  const pairedDelta = paired.length > 1 ? mean(paired) : 0;
+  // One shared data point has no spread across cases; its own trials already decided
+  const pairedDrop =
+    paired.length > 1 && pairedDelta < 0 && isSignificant(pairedDelta, Math.sqrt(variance(paired) / paired.length));
+
+  return {
+    currentRunId: current.id,
+    baselineRunId: baseline.id,
+    scoreDelta: current.summary.averageScore - baseline.summary.averageScore,
+    passRateDelta: current.summary.passRate - baseline.summary.passRate,
+    latencyDelta: current.summary.averageLatencyMs - baseline.summary.averageLatencyMs,
+    regressions,
+    improvements,
+    evaluatorDeltas: evaluatorDeltas(current.summary.scoreByEvaluator, baseline.summary.scoreByEvaluator),
+    cases,
+    regressionDetected: regressions.length > 0 || pairedDrop,
+  };
+}
+
+// The latest completed run on the same dataset that started before `run`
+export function findBaselineRun(runs: EvaluationRun[], run: EvaluationRun): EvaluationRun | undefined {
+  const datasetId = run.config.mode === 'offline' ? run.config.datasetId : undefined;
+  return runs
+    .filter(
+      (r) =>
+        r.id !== run.id &&
+        r.status === 'completed' &&
+        r.startedAt < run.startedAt &&
+        r.config.mode === 'offline' &&
+        r.config.datasetId === datasetId
+    )
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))[0];
+}
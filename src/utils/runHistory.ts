@@ -0,0 +1,211 @@
+// Run History
+// Stores execution runs, recent test inputs and flow versions in IndexedDB so
+// they survive reloads, prunes runs by count and age, and filters the history
+// view.
+
+import type { ExecutionRun, FlowVersion, RunFilter, RunRetention, TestInput } from '../types/execution';
+import { DEFAULT_RUN_RETENTION } from '../types/execution';
+
+// ============================================
+// Storage Keys
+// ============================================
+
+const DB_NAME = 'afd_history';
+const DB_VERSION = 2;
+const RUNS_STORE = 'runs';
+const TEST_INPUTS_STORE = 'testInputs';
+const VERSIONS_STORE = 'flowVersions';
+const RETENTION_STORAGE_KEY = 'afd_run_retention';
+
+const MAX_TEST_INPUTS = 10;
+
+// ============================================
+// IndexedDB Access
+// ============================================
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    // Creates the stores a database from an older version lacks
+    request.onupgradeneeded = () => {
+      const stores = request.result.objectStoreNames;
+      if (!stores.contains(RUNS_STORE)) request.result.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+      if (!stores.contains(TEST_INPUTS_STORE)) request.result.createObjectStore(TEST_INPUTS_STORE, { keyPath: 'id' });
+      if (!stores.contains(VERSIONS_STORE)) request.result.createObjectStore(VERSIONS_STORE, { keyPath: 'hash' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // Let the next call try again, e.g. after a blocked upgrade
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+}
+
+// Runs the action in one transaction and resolves once it has committed
+async function transact<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// ============================================
+// Execution Runs
+// ============================================
+
+// Newest first
+export async function loadRuns(): Promise<ExecutionRun[]> {
+  const runs = (await transact<ExecutionRun[]>(RUNS_STORE, 'readonly', (store) => store.getAll())) ?? [];
+  return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// Stores or replaces a run (paused runs are saved again when they finish)
+export async function saveRun(run: ExecutionRun): Promise<void> {
+  await transact(RUNS_STORE, 'readwrite', (store) => store.put(run));
+}
+
+export async function clearRuns(): Promise<void> {
+  await transact(RUNS_STORE, 'readwrite', (store) => store.clear());
+}
+
+/**
+ * Deletes runs beyond the retention limits and returns their ids. Runs that
+ * are still running or waiting for approval are kept.
+ */
+export async function pruneRuns(retention: RunRetention, now = Date.now()): Promise<string[]> {
+  const runs = await loadRuns();
+  const cutoff = retention.maxAgeDays > 0 ? now - retention.maxAgeDays * 86_400_000 : -Infinity;
+  const overLimit = (index: number) => retention.maxRuns > 0 && index >= retention.maxRuns;
+  const expired = runs
+    .filter((run, index) => overLimit(index) || Date.parse(run.startedAt) < cutoff)
+    .filter((run) => run.status !== 'running' && run.status !== 'paused')
+    .map((run) => run.id);
+
+  if (expired.length > 0) {
+    await transact(RUNS_STORE, 'readwrite', (store) => {
+      expired.forEach((id) => store.delete(id));
+    });
+  }
+  return expired;
+}
+
+// ============================================
+// Test Inputs
+// ============================================
+
+export async function loadTestInputs(): Promise<TestInput[]> {
+  const inputs = (await transact<TestInput[]>(TEST_INPUTS_STORE, 'readonly', (store) => store.getAll())) ?? [];
+  return inputs.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, MAX_TEST_INPUTS);
+}
+
+// Keeps the most recent inputs only
+export async function saveTestInput(input: TestInput): Promise<void> {
+  await transact(TEST_INPUTS_STORE, 'readwrite', (store) => store.put(input));
+  const stale = (await transact<TestInput[]>(TEST_INPUTS_STORE, 'readonly', (store) => store.getAll())) ?? [];
+  stale.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  if (stale.length > MAX_TEST_INPUTS) {
+    await transact(TEST_INPUTS_STORE, 'readwrite', (store) => {
+      stale.slice(MAX_TEST_INPUTS).forEach((old) => store.delete(old.id));
+    });
+  }
+}
+
+// ============================================
+// Flow Versions
+// ============================================
+
+// Newest first
+export async function loadFlowVersions(): Promise<FlowVersion[]> {
+  const versions = (await transact<FlowVersion[]>(VERSIONS_STORE, 'readonly', (store) => store.getAll())) ?? [];
+  return versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Stores a version unless its hash is already known and returns the stored
+ * one. Versions are immutable, so content recorded again keeps its first
+ * snapshot.
+ */
+export async function saveFlowVersion(version: FlowVersion): Promise<FlowVersion> {
+  const existing = await transact<FlowVersion | undefined>(VERSIONS_STORE, 'readwrite', (store) => {
+    const request = store.get(version.hash);
+    request.onsuccess = () => {
+      if (!request.result) store.add(version);
+    };
+    return request;
+  });
+  return existing ?? version;
+}
+
+// ============================================
+// Retention Settings
+// ============================================
+
+export function loadRunRetention(): RunRetention {
+  const stored = localStorage.getItem(RETENTION_STORAGE_KEY);
+  if (!stored) return DEFAULT_RUN_RETENTION;
+  try {
+    const retention = JSON.parse(stored);
+    // 0 turns a limit off; anything that is not a count keeps the default
+    const limit = (value: unknown, fallback: number) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+    return {
+      maxRuns: limit(retention?.maxRuns, DEFAULT_RUN_RETENTION.maxRuns),
+      maxAgeDays: limit(retention?.maxAgeDays, DEFAULT_RUN_RETENTION.maxAgeDays),
+    };
+  } catch (error) {
+    console.error('Failed to load run retention:', error);
+    return DEFAULT_RUN_RETENTION;
+  }
+}
+
+export function saveRunRetention(retention: RunRetention): void {
+  localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(retention));
+}
+
+// ============================================
+// Filtering
+// ============================================
+
+// Wall-clock duration for finished runs, summed node time otherwise
+export function getRunDurationMs(run: ExecutionRun): number {
+  return run.completedAt ? Date.parse(run.completedAt) - Date.parse(run.startedAt) : run.summary.totalDurationMs;
+}
+
+function includesText(haystack: unknown, needle: string): boolean {
+  return String(haystack ?? '')
+    .toLowerCase()
+    .includes(needle.trim().toLowerCase());
+}
+
+function inRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+// Text criteria match case-insensitively; empty criteria match every run
+export function filterRuns(runs: ExecutionRun[], filter: RunFilter): ExecutionRun[] {
+  return runs.filter((run) => {
+    if (filter.status !== 'all' && run.status !== filter.status) return false;
+    if (!inRange(getRunDurationMs(run), filter.minDurationMs, filter.maxDurationMs)) return false;
+    if (!inRange(run.summary.cost ?? 0, filter.minCost, filter.maxCost)) return false;
+
+    const node = filter.node.trim();
+    if (node && !run.traces.some((t) => t.nodeId === node || includesText(t.nodeName, node))) return false;
+
+    const errors = [run.error, ...run.traces.map((t) => t.error)];
+    if (filter.errorText.trim() && !errors.some((e) => e && includesText(e, filter.errorText))) return false;
+    if (filter.inputText.trim() && !includesText(JSON.stringify(run.input), filter.inputText)) return false;
+    return true;
+  });
+}
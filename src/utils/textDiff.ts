@@ -0,0 +1,109 @@
+// Text Diff Utilities
+// Line-based diffs for previews (autofix, snapshots, output comparison)
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged' | 'skipped';
+  text: string;
+  oldLine?: number; // 1-based, for removed/unchanged lines
+  newLine?: number; // 1-based, for added/unchanged lines
+}
+
+/**
+ * Computes a line diff using the longest common subsequence.
+ * Common prefix and suffix are trimmed first to keep large files cheap.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  // LCS table over the changed middle section
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  for (let k = 0; k < prefix; k++) {
+    result.push({ type: 'unchanged', text: a[k], oldLine: k + 1, newLine: k + 1 });
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      result.push({ type: 'unchanged', text: midA[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+      i++;
+      j++;
+    } else if (i < midA.length && (j >= midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: 'removed', text: midA[i], oldLine: prefix + i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: midB[j], newLine: prefix + j + 1 });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    const oldIdx = a.length - suffix + k;
+    const newIdx = b.length - suffix + k;
+    result.push({ type: 'unchanged', text: a[oldIdx], oldLine: oldIdx + 1, newLine: newIdx + 1 });
+  }
+
+  return result;
+}
+
+/**
+ * Collapses unchanged runs to `context` lines around each change.
+ */
+export function trimDiffContext(diff: DiffLine[], context: number = 2): DiffLine[] {
+  const keep = new Array(diff.length).fill(false);
+
+  diff.forEach((line, index) => {
+    if (line.type === 'unchanged') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(diff.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const result: DiffLine[] = [];
+  let skipped = 0;
+
+  diff.forEach((line, index) => {
+    if (keep[index]) {
+      if (skipped > 0) {
+        result.push({ type: 'skipped', text: `${skipped} unchanged line${skipped === 1 ? '' : 's'}` });
+        skipped = 0;
+      }
+      result.push(line);
+    } else {
+      skipped++;
+    }
+  });
+
+  if (skipped > 0 && result.length > 0) {
+    result.push({ type: 'skipped', text: `${skipped} unchanged line${skipped === 1 ? '' : 's'}` });
+  }
+
+  return result;
+}
+
+export function hasChanges(diff: DiffLine[]): boolean {
+  return diff.some((line) => line.type === 'added' || line.type === 'removed');
+}
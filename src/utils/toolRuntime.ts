@@ -0,0 +1,469 @@
+// Tool Runtime
+// Executes tool calls for test runs. Arguments are validated against the
+// tool's JSON schema, every call runs under a timeout and the node's retry
+// policy, and custom code runs in a Web Worker without network access.
+// File tools work on a per-run virtual file system, never on the user's disk.
+
+import type { ToolCallTrace } from '../types/execution';
+
+// ============================================
+// Tool Specs
+// ============================================
+
+export interface ToolSpec {
+  name: string;
+  kind: string; // Registered tool kind: http, file, custom, calculator, ...
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments
+  requiresApproval: boolean;
+  config: Record<string, unknown>; // Kind-specific settings (url, method, code, operation, timeout)
+}
+
+// Agent tool types that map onto a runtime kind
+const KIND_ALIASES: Record<string, string> = {
+  api: 'http',
+  file_system: 'file',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalizes a tool definition from a toolUse node's tool list or an agent's
+ * ToolConfig. Kind-specific settings may sit on the tool itself or under `config`.
+ */
+export function toToolSpec(raw: unknown, defaultKind = 'custom'): ToolSpec | null {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || !raw.name) return null;
+
+  const kind = String(raw.kind ?? raw.type ?? defaultKind);
+  const { name, description, parameters, requiresApproval, config, ...rest } = raw;
+  return {
+    name,
+    kind: KIND_ALIASES[kind] ?? kind,
+    description: String(description ?? ''),
+    parameters: isRecord(parameters) ? parameters : { type: 'object', properties: {} },
+    requiresApproval: Boolean(requiresApproval),
+    config: { ...rest, ...(isRecord(config) ? config : {}) },
+  };
+}
+
+// ============================================
+// Argument Validation
+// ============================================
+
+const JSON_TYPES: Record<string, (value: unknown) => boolean> = {
+  string: (v) => typeof v === 'string',
+  number: (v) => typeof v === 'number' && !Number.isNaN(v),
+  integer: (v) => Number.isInteger(v),
+  boolean: (v) => typeof v === 'boolean',
+  array: (v) => Array.isArray(v),
+  object: (v) => isRecord(v),
+  null: (v) => v === null,
+};
+
+/**
+ * Checks a value against the JSON Schema keywords tools use in practice:
+ * type, required, properties, additionalProperties, items, enum, bounds and lengths
+ */
+export function validateToolArguments(schema: Record<string, unknown>, value: unknown, path = 'arguments'): string[] {
+  const errors: string[] = [];
+
+  const types = schema.type === undefined ? [] : ([] as unknown[]).concat(schema.type).map(String);
+  if (types.length > 0 && !types.some((t) => JSON_TYPES[t]?.(value))) {
+    return [`${path} must be ${types.join(' or ')}`];
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path} must be ≥ ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path} must be ≤ ${schema.maximum}`);
+    }
+  }
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value) && isRecord(schema.items)) {
+    const items = schema.items;
+    value.forEach((item, i) => errors.push(...validateToolArguments(items, item, `${path}[${i}]`)));
+  }
+
+  if (isRecord(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    (Array.isArray(schema.required) ? schema.required.map(String) : []).forEach((key) => {
+      if (value[key] === undefined) errors.push(`${path}.${key} is required`);
+    });
+    Object.entries(value).forEach(([key, item]) => {
+      const property = properties[key];
+      if (isRecord(property)) {
+        errors.push(...validateToolArguments(property, item, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+// ============================================
+// Tool Kinds
+// ============================================
+
+export interface ToolContext {
+  signal: AbortSignal; // Aborted on timeout or when the run is cancelled
+  timeoutMs: number;
+  files: Record<string, unknown>; // Virtual file system of the run
+}
+
+export type ToolExecutor = (spec: ToolSpec, args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+
+// Failures worth retrying: timeouts, network errors, 429 and 5xx responses
+class ToolError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.retryable = retryable;
+  }
+}
+
+const toolKindRegistry: Record<string, ToolExecutor> = {};
+
+export function registerToolKind(kind: string, executor: ToolExecutor): void {
+  toolKindRegistry[kind] = executor;
+}
+
+export function getToolKinds(): string[] {
+  return Object.keys(toolKindRegistry);
+}
+
+// HTTP: {{arg}} placeholders fill the URL; other arguments go in the query (GET/DELETE) or JSON body
+registerToolKind('http', async (spec, args, context) => {
+  const method = String(spec.config.method ?? 'GET').toUpperCase();
+  const used = new Set<string>();
+  const url = new URL(
+    String(spec.config.url ?? '').replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+      used.add(key);
+      return encodeURIComponent(String(args[key] ?? ''));
+    }),
+    globalThis.location?.href
+  );
+
+  const rest = Object.fromEntries(Object.entries(args).filter(([key]) => !used.has(key)));
+  const hasBody = !['GET', 'DELETE', 'HEAD'].includes(method);
+  if (!hasBody) Object.entries(rest).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      signal: context.signal,
+      headers: { ...(hasBody ? { 'Content-Type': 'application/json' } : {}), ...(spec.config.headers as object) },
+      body: hasBody ? JSON.stringify(rest) : undefined,
+    });
+  } catch (e) {
+    if ((e as Error).name === 'AbortError') throw e;
+    throw new ToolError(`Request failed: ${(e as Error).message}`, true);
+  }
+
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Plain-text response
+  }
+  if (!response.ok) {
+    throw new ToolError(
+      `HTTP ${response.status}: ${text.slice(0, 200)}`,
+      response.status === 429 || response.status >= 500
+    );
+  }
+  return { status: response.status, body };
+});
+
+// File: read/write/append/list/delete on the run's virtual file system
+registerToolKind('file', async (spec, args, context) => {
+  const operation = String(args.operation ?? spec.config.operation ?? 'read');
+  const raw = String(args.path ?? spec.config.path ?? '');
+  const path =
+    '/' +
+    raw
+      .split('/')
+      .filter((part) => part && part !== '.')
+      .join('/');
+  if (raw.split('/').includes('..')) throw new ToolError(`Path "${raw}" leaves the sandbox`, false);
+
+  switch (operation) {
+    case 'read':
+      if (!(path in context.files)) throw new ToolError(`No such file: ${path}`, false);
+      return { path, content: context.files[path] };
+    case 'write':
+      context.files[path] = args.content ?? '';
+      return { path, written: true };
+    case 'append':
+      context.files[path] = String(context.files[path] ?? '') + String(args.content ?? '');
+      return { path, written: true };
+    case 'list':
+      return { files: Object.keys(context.files).filter((p) => p.startsWith(path === '/' ? '/' : `${path}/`)) };
+    case 'delete':
+      return { path, deleted: delete context.files[path] };
+    default:
+      throw new ToolError(`Unknown file operation "${operation}"`, false);
+  }
+});
+
+// Arithmetic without eval: numbers, + - * / % ^ and parentheses
+function evaluateArithmetic(expression: string): number {
+  const tokens = expression.match(/\d+\.?\d*|\.\d+|[-+*/%^()]/g) ?? [];
+  if (tokens.join('') !== expression.replace(/\s+/g, ''))
+    throw new ToolError(`Invalid expression: ${expression}`, false);
+  let pos = 0;
+
+  const primary = (): number => {
+    const token = tokens[pos++];
+    if (token === '(') {
+      const value = sum();
+      if (tokens[pos++] !== ')') throw new ToolError('Missing closing parenthesis', false);
+      return value;
+    }
+    if (token === '-') return -primary();
+    if (token === '+') return primary();
+    const value = Number(token);
+    if (token === undefined || Number.isNaN(value)) throw new ToolError(`Unexpected "${token ?? 'end'}"`, false);
+    return value;
+  };
+  const power = (): number => {
+    const base = primary();
+    return tokens[pos] === '^' ? (pos++, base ** power()) : base;
+  };
+  const product = (): number => {
+    let value = power();
+    while (['*', '/', '%'].includes(tokens[pos])) {
+      const op = tokens[pos++];
+      const right = power();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (['+', '-'].includes(tokens[pos])) value = tokens[pos++] === '+' ? value + product() : value - product();
+    return value;
+  };
+
+  const result = sum();
+  if (pos !== tokens.length) throw new ToolError(`Unexpected "${tokens[pos]}"`, false);
+  return result;
+}
+
+registerToolKind('calculator', async (_spec, args) => ({
+  result: evaluateArithmetic(String(args.expression ?? args.input ?? '')),
+}));
+
+// Custom tools run in a blob worker started by a sandboxed frame. The frame's
+// content security policy blocks every network request and remote script, and
+// the worker inherits it, however the tool code recovers fetch or import().
+const SANDBOX_POLICY = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+// Worker prelude: network members are also locked on the global and its prototypes;
+// the tool body gets `args` and may return a value or a promise
+const CUSTOM_WORKER_SOURCE = `
+const blocked = ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'Worker', 'SharedWorker', 'caches', 'importScripts'];
+for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+  for (const name of blocked) {
+    if (scope !== self && !Object.prototype.hasOwnProperty.call(scope, name)) continue;
+    try {
+      Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+    } catch {
+      try { delete scope[name]; } catch {}
+    }
+  }
+}
+self.onmessage = async (event) => {
+  try {
+    const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+    const result = await new AsyncFunction('args', event.data.code)(event.data.args);
+    self.postMessage({ ok: true, result: JSON.parse(JSON.stringify(result ?? null)) });
+  } catch (error) {
+    self.postMessage({ ok: false, error: String((error && error.message) || error) });
+  }
+};`;
+
+// Frame script: starts the worker and relays one call over the transferred port
+const SANDBOX_FRAME_HTML = `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="${SANDBOX_POLICY}">
+<script>
+onmessage = (event) => {
+  const port = event.ports[0];
+  try {
+    const url = URL.createObjectURL(new Blob([${JSON.stringify(CUSTOM_WORKER_SOURCE)}], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    worker.onmessage = (e) => port.postMessage(e.data);
+    worker.onerror = (e) => {
+      e.preventDefault();
+      port.postMessage({ ok: false, error: e.message || 'Tool failed' });
+    };
+    worker.postMessage(event.data);
+  } catch (error) {
+    port.postMessage({ ok: false, error: String((error && error.message) || error) });
+  }
+};
+</script>`;
+
+registerToolKind('custom', (spec, args, context) => {
+  if (typeof Worker === 'undefined' || typeof document === 'undefined') {
+    return Promise.reject(new ToolError('Custom tools need a browser with Web Worker support', false));
+  }
+
+  // Without allow-same-origin the frame also cannot reach the app's storage
+  const frame = document.createElement('iframe');
+  frame.sandbox.add('allow-scripts');
+  frame.style.display = 'none';
+  frame.srcdoc = SANDBOX_FRAME_HTML;
+  const channel = new MessageChannel();
+  return new Promise<unknown>((resolve, reject) => {
+    const abort = () => {
+      stop();
+      reject(context.signal.reason);
+    };
+    const stop = () => {
+      context.signal.removeEventListener('abort', abort);
+      channel.port1.close();
+      frame.remove();
+    };
+    // Removing the frame terminates its worker, so runaway loops cannot outlive the timeout
+    context.signal.addEventListener('abort', abort, { once: true });
+    channel.port1.onmessage = (event: MessageEvent<{ ok: boolean; result?: unknown; error?: string }>) => {
+      stop();
+      if (event.data.ok) resolve(event.data.result);
+      else reject(new ToolError(event.data.error ?? 'Tool failed', false));
+    };
+    frame.onload = () => {
+      frame.contentWindow?.postMessage({ code: String(spec.config.code ?? ''), args }, '*', [channel.port2]);
+    };
+    document.body.appendChild(frame);
+  });
+});
+
+// ============================================
+// Tool Calls
+// ============================================
+
+export type RetryPolicy = 'none' | 'linear' | 'exponential';
+
+export interface ToolCallOptions {
+  id?: string;
+  timeoutMs?: number;
+  retryPolicy?: RetryPolicy;
+  maxRetries?: number;
+  retryDelayMs?: number; // First backoff delay
+  signal?: AbortSignal; // Run cancellation
+  files?: Record<string, unknown>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+function backoff(policy: RetryPolicy, attempt: number, baseMs: number): number {
+  return policy === 'linear' ? baseMs * attempt : baseMs * 2 ** (attempt - 1);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+/**
+ * Runs one tool call and records it as a ToolCallTrace. Invalid arguments,
+ * missing runtimes and tools that need approval fail without running;
+ * retryable failures are retried under the retry policy. Only run
+ * cancellation is thrown; every other failure ends up in the trace.
+ */
+export async function callTool(
+  spec: ToolSpec,
+  args: Record<string, unknown>,
+  options: ToolCallOptions = {}
+): Promise<ToolCallTrace> {
+  const trace: ToolCallTrace = {
+    id: options.id ?? `tool-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    toolName: spec.name,
+    toolInput: args,
+    status: 'running',
+    durationMs: 0,
+    attempts: 0,
+  };
+  const started = performance.now();
+  const fail = (error: string) => {
+    trace.status = 'failed';
+    trace.error = error;
+    trace.durationMs = Math.round(performance.now() - started);
+    return trace;
+  };
+
+  const executor = toolKindRegistry[spec.kind];
+  if (!executor) return fail(`"${spec.kind}" tools cannot run in the browser sandbox`);
+  if (spec.requiresApproval) return fail('Requires human approval before execution');
+  const invalid = validateToolArguments(spec.parameters, args);
+  if (invalid.length > 0) return fail(`Invalid arguments: ${invalid.join('; ')}`);
+
+  const policy = options.retryPolicy ?? 'none';
+  const maxRetries = policy === 'none' ? 0 : Math.max(0, options.maxRetries ?? 0);
+  const timeoutMs = Number(spec.config.timeout) || options.timeoutMs || DEFAULT_TIMEOUT_MS;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      await sleep(backoff(policy, attempt, options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS), options.signal);
+    }
+    trace.attempts = attempt + 1;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new ToolError(`Timed out after ${timeoutMs}ms`, true)), timeoutMs);
+    const cancel = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', cancel);
+
+    try {
+      trace.toolOutput = await executor(spec, args, {
+        signal: controller.signal,
+        timeoutMs,
+        files: options.files ?? {},
+      });
+      trace.status = 'completed';
+      trace.durationMs = Math.round(performance.now() - started);
+      return trace;
+    } catch (e) {
+      if (options.signal?.aborted) throw options.signal.reason;
+      // A timeout surfaces as an AbortError from fetch; the abort reason says what happened
+      const error =
+        controller.signal.aborted && controller.signal.reason instanceof ToolError ? controller.signal.reason : e;
+      const retryable = error instanceof ToolError ? error.retryable : false;
+      trace.error = (error as Error).message;
+      if (!retryable || attempt === maxRetries) return fail(trace.error);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  return fail(trace.error ?? 'Tool failed');
+}